@@ -0,0 +1,125 @@
+/**
+ * Express application for LinkUp Video Platform Backend
+ * @module App
+ */
+import express from 'express';
+import cors from 'cors';
+import cookieParser from 'cookie-parser';
+
+// Import routes
+import authRoutes from './routes/auth';
+import usersRoutes from './routes/users';
+import meetingsRoutes from './routes/meetings';
+import oauthRoutes from './routes/oauth';
+import twoFactorRoutes from './routes/twoFactor';
+import adminRoutes from './routes/admin';
+import healthRoutes from './routes/health';
+import docsRoutes from './routes/docs';
+import logger from './middleware/logger';
+import { requireMetricsToken } from './middleware/metricsAuth';
+import { METRICS_CONTENT_TYPE, renderMetrics } from './metrics';
+import { errorHandler } from './middleware/errorHandler';
+import { drainConnections } from './lifecycle';
+import { NotFoundError } from './errors';
+import { RepositoryFactory } from './dao/baseDAO';
+import { AuthService } from './services/authService';
+import { Config, getConfig } from './config';
+import { AppScope, runInAppScope } from './appScope';
+
+/**
+ * Replaceable backends, seen only by the requests of this app. The process-wide ones
+ * (Firestore and Firebase Auth unless replaced, only initialized on first use) are used
+ * for the ones left out.
+ */
+export interface AppDependencies {
+  /** Storage behind every DAO, e.g. `memoryRepositories()` */
+  repositories?: RepositoryFactory;
+  /** Identity provider, e.g. `new FakeAuthService()` */
+  auth?: AuthService;
+  /** Configuration read by the routes and middleware, e.g. from `loadConfig(env)` */
+  config?: Config;
+}
+
+/**
+ * HTTP settings of the app
+ */
+export interface AppConfig {
+  /** Origins allowed to call the API with credentials */
+  corsOrigins: string[];
+}
+
+/**
+ * Reads the app settings from the configuration (CORS_ORIGIN, comma-separated)
+ */
+export function appConfigFromEnv(): AppConfig {
+  return {
+    corsOrigins: getConfig().corsOrigins
+  };
+}
+
+/**
+ * Builds the Express app with every middleware and router, without listening,
+ * e.g. to run it with supertest:
+ * `createApp({ repositories: memoryRepositories(), auth: new FakeAuthService() })`.
+ * The dependencies are scoped to the requests of this app, so several apps can run in one
+ * process; code outside a request (e.g. the gRPC server) uses the process-wide ones.
+ * @param {AppDependencies} deps - Backends and configuration to use instead of the process-wide ones
+ * @param {AppConfig} config - HTTP settings (from `deps.config`, or the environment, by default)
+ * @returns {express.Express} The app
+ */
+export function createApp(
+  deps: AppDependencies = {},
+  config: AppConfig = deps.config ? { corsOrigins: deps.config.corsOrigins } : appConfigFromEnv()
+): express.Express {
+  const scope: AppScope = { repositories: deps.repositories, auth: deps.auth, config: deps.config };
+
+  const app = express();
+
+  // Every request runs with the dependencies of this app
+  app.use((_req, _res, next) => runInAppScope(scope, next));
+
+  // Middleware
+  app.use(logger);
+  app.use(drainConnections);
+  app.use(express.json());
+  app.use(cookieParser());
+  app.use(cors({ 
+    origin: config.corsOrigins,
+    credentials: true,
+    // Readable by the frontend, to send it back in If-Match
+    exposedHeaders: ['ETag']
+  }));
+
+  // Health checks (liveness and readiness)
+  app.use('/api/health', healthRoutes);
+
+  /**
+   * Prometheus metrics, for callers sending `Authorization: Bearer <METRICS_TOKEN>`
+   * @route GET /metrics
+   * @returns {string} Metrics in the Prometheus text format
+   */
+  app.get('/metrics', requireMetricsToken, (_req, res) => {
+    res.type(METRICS_CONTENT_TYPE).send(renderMetrics());
+  });
+
+  // Routes
+  app.use('/api/auth', authRoutes);
+  app.use('/api/auth/2fa', twoFactorRoutes);
+  app.use('/api/users', usersRoutes);
+  app.use('/api/meetings', meetingsRoutes);
+  app.use('/api/oauth', oauthRoutes);
+  app.use('/api/admin', adminRoutes);
+
+  // OpenAPI document and interactive docs
+  app.use('/api', docsRoutes);
+
+  // 404 handler
+  app.use('*', (req, _res, next) => {
+    next(new NotFoundError(`Route not found: ${req.method} ${req.originalUrl}`, 'ROUTE_NOT_FOUND'));
+  });
+
+  // Error handling middleware: one envelope for every error
+  app.use(errorHandler);
+
+  return app;
+}
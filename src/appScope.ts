@@ -0,0 +1,36 @@
+/**
+ * Dependencies of one app, seen by the code handling its requests, so several apps
+ * (e.g. in tests) can run side by side in one process
+ * @module AppScope
+ */
+import { AsyncLocalStorage } from 'async_hooks';
+import type { Config } from './config';
+import type { RepositoryFactory } from './dao/repository';
+import type { AuthService } from './services/authService';
+
+/**
+ * What an app replaces; anything left out falls back to the process-wide setting
+ */
+export interface AppScope {
+  repositories?: RepositoryFactory;
+  auth?: AuthService;
+  config?: Config;
+}
+
+const storage = new AsyncLocalStorage<AppScope>();
+
+/**
+ * Runs a function within an app scope (including its async continuations)
+ * @param {AppScope} scope - Dependencies of the app
+ * @param fn - Function to run
+ */
+export function runInAppScope<R>(scope: AppScope, fn: () => R): R {
+  return storage.run(scope, fn);
+}
+
+/**
+ * Returns the scope of the app handling the current request, if any
+ */
+export function getAppScope(): AppScope | undefined {
+  return storage.getStore();
+}
@@ -1,43 +1,57 @@
 /**
- * Firebase Admin SDK configuration and initialization
+ * Firebase Admin SDK configuration and initialization.
+ * The app is initialized on first use, so importing modules never needs credentials.
  * @module FirebaseConfig
  */
 import admin from 'firebase-admin';
+import { getConfig } from './index';
 
 /**
  * Firebase Admin App instance
  */
-let firebaseApp: admin.app.App;
+let firebaseApp: admin.app.App | undefined;
 
-if (!admin.apps.length) {
-  /**
-   * Initialize Firebase Admin with service account credentials
-   */
+/**
+ * Returns the Firebase Admin App, initializing it on the first call with the service
+ * account credentials, or with only the project ID against the emulators
+ */
+export function getFirebaseApp(): admin.app.App {
+  if (firebaseApp) return firebaseApp;
+
+  if (admin.apps.length) {
+    firebaseApp = admin.app();
+    return firebaseApp;
+  }
+
+  const { projectId, clientEmail, privateKey, databaseURL } = getConfig().firebase;
+
+  // The emulators (FIRESTORE_EMULATOR_HOST, FIREBASE_AUTH_EMULATOR_HOST) need no credentials
   firebaseApp = admin.initializeApp({
-    credential: admin.credential.cert({
-      projectId: process.env.FIREBASE_PROJECT_ID,
-      clientEmail: process.env.FIREBASE_CLIENT_EMAIL,
-      privateKey: process.env.FIREBASE_PRIVATE_KEY?.replace(/\\n/g, '\n')
-    } as admin.ServiceAccount),
-    databaseURL: process.env.FIREBASE_DATABASE_URL
+    ...(privateKey && {
+      credential: admin.credential.cert({ projectId, clientEmail, privateKey } as admin.ServiceAccount)
+    }),
+    projectId,
+    databaseURL
+  });
+
+  // Configure Firestore settings (only allowed before the first Firestore call)
+  firebaseApp.firestore().settings({
+    ignoreUndefinedProperties: true
   });
-} else {
-  firebaseApp = admin.app();
+
+  return firebaseApp;
 }
 
 /**
  * Firebase Auth instance
  */
-export const auth = firebaseApp.auth();
+export function getFirebaseAuth(): admin.auth.Auth {
+  return getFirebaseApp().auth();
+}
 
 /**
  * Firestore Database instance
  */
-export const db = firebaseApp.firestore();
-
-// Configure Firestore settings
-db.settings({
-  ignoreUndefinedProperties: true
-});
-
-export default firebaseApp;
\ No newline at end of file
+export function getFirestore(): admin.firestore.Firestore {
+  return getFirebaseApp().firestore();
+}
@@ -0,0 +1,432 @@
+/**
+ * Typed configuration, parsed and validated from environment variables.
+ * The server validates it at startup and refuses to start with a report of every problem.
+ * @module Config
+ */
+import { z } from 'zod';
+import { getAppScope } from '../appScope';
+
+export type RateLimitPolicyName = 'register' | 'login' | 'passwordReset' | 'oauth' | 'twoFactor';
+
+/**
+ * Rate limit policy: at most `max` requests per `windowMs`
+ */
+export interface RateLimitPolicy {
+  windowMs: number;
+  max: number;
+}
+
+/**
+ * Per-account lockout after failed logins
+ */
+export interface LockoutPolicy {
+  /** Failures allowed before the first lockout */
+  threshold: number;
+  /** First lockout duration, doubled on each further failure */
+  baseMs: number;
+  maxMs: number;
+  /** Failures older than this are forgotten */
+  resetMs: number;
+}
+
+/**
+ * Application configuration
+ */
+export interface Config {
+  env: 'development' | 'production' | 'test';
+  port: number;
+  /** Origins allowed to call the API with credentials */
+  corsOrigins: string[];
+  logLevel: 'debug' | 'info' | 'warn' | 'error' | 'silent';
+  firebase: {
+    projectId?: string;
+    clientEmail?: string;
+    privateKey?: string;
+    databaseURL?: string;
+    /** Web API key used to verify passwords (a placeholder with the Auth emulator) */
+    apiKey?: string;
+    identityToolkitUrl: string;
+    /** Emulator hosts; with any of them set, no service account is required */
+    emulator: {
+      firestoreHost?: string;
+      authHost?: string;
+    };
+  };
+  providers: {
+    googleClientIds: string[];
+    githubClientId?: string;
+    githubClientSecret?: string;
+    facebookAppId?: string;
+    facebookAppSecret?: string;
+  };
+  links: {
+    passwordResetUrl?: string;
+    emailVerificationUrl?: string;
+  };
+  features: {
+    /** Refuse meeting creation for unverified emails */
+    requireVerifiedEmail: boolean;
+    /** Turn per-IP rate limits off (never allowed in production) */
+    rateLimitDisabled: boolean;
+  };
+  rateLimit: {
+    /** `firestore` shares limits and lockouts across instances */
+    store: 'memory' | 'firestore';
+    policies: Record<RateLimitPolicyName, RateLimitPolicy>;
+  };
+  lockout: LockoutPolicy;
+  /** gRPC API for other backend services, only served when `port` is set */
+  grpc: {
+    port?: number;
+    /** Shared credential expected as `authorization: Bearer <token>` metadata */
+    serviceToken?: string;
+    /** PEM files; with `caFile`, clients must present a certificate signed by it (mTLS) */
+    tls: {
+      certFile?: string;
+      keyFile?: string;
+      caFile?: string;
+    };
+  };
+  /** Bearer token the Prometheus scraper sends; `/metrics` is off without it */
+  metricsToken?: string;
+  /** How long responses to requests with an Idempotency-Key are replayed */
+  idempotencyTtlMs: number;
+  shutdownTimeoutMs: number;
+  healthCheckTimeoutMs: number;
+  /** Commit of the running build */
+  commit?: string;
+}
+
+/**
+ * Options of loadConfig
+ */
+export interface LoadConfigOptions {
+  /** Require Firebase credentials (unless emulators are configured); off when the backends are injected */
+  requireFirebase?: boolean;
+}
+
+/**
+ * Raised when the environment does not describe a valid configuration
+ */
+export class ConfigError extends Error {
+  problems: string[];
+
+  constructor(problems: string[]) {
+    super(`Invalid configuration:\n${problems.map((problem) => `  - ${problem}`).join('\n')}`);
+    this.name = 'ConfigError';
+    this.problems = problems;
+  }
+}
+
+const DEFAULT_CORS_ORIGINS = [
+  'http://localhost:5173',
+  'https://link-up-frontend-tau.vercel.app'   // Frontend URL
+];
+
+/**
+ * Default policies, each overridable with RATE_LIMIT_<NAME>_MAX and RATE_LIMIT_<NAME>_WINDOW_MS
+ * (e.g. RATE_LIMIT_PASSWORD_RESET_MAX)
+ */
+const DEFAULT_RATE_LIMIT_POLICIES: Record<RateLimitPolicyName, RateLimitPolicy> = {
+  register: { windowMs: 60 * 60 * 1000, max: 10 },
+  login: { windowMs: 5 * 60 * 1000, max: 5 },
+  passwordReset: { windowMs: 15 * 60 * 1000, max: 5 },
+  oauth: { windowMs: 5 * 60 * 1000, max: 20 },
+  twoFactor: { windowMs: 5 * 60 * 1000, max: 10 },
+};
+
+const IDENTITY_TOOLKIT_URL = 'https://identitytoolkit.googleapis.com/v1';
+
+/**
+ * Environment variable prefix of a rate limit policy, e.g. RATE_LIMIT_PASSWORD_RESET
+ * @param {RateLimitPolicyName} name - Policy name
+ */
+export function rateLimitEnvPrefix(name: RateLimitPolicyName): string {
+  return `RATE_LIMIT_${name.replace(/([A-Z])/g, '_$1').toUpperCase()}`;
+}
+
+/**
+ * ENVIRONMENT VARIABLE SCHEMAS
+ */
+function positiveInt(fallback: number) {
+  return z.coerce
+    .number({ invalid_type_error: 'must be a number' })
+    .int('must be an integer')
+    .positive('must be greater than 0')
+    .default(fallback);
+}
+
+function flag() {
+  return z
+    .enum(['true', 'false', '1', '0'], { errorMap: () => ({ message: 'must be true or false' }) })
+    .default('false')
+    .transform((value) => value === 'true' || value === '1');
+}
+
+function list() {
+  return z.string().transform((value) => value.split(',').map((item) => item.trim()).filter(Boolean));
+}
+
+const url = z.string().url('must be a URL');
+
+const rateLimitShape = Object.fromEntries(
+  (Object.keys(DEFAULT_RATE_LIMIT_POLICIES) as RateLimitPolicyName[]).flatMap((name) => [
+    [`${rateLimitEnvPrefix(name)}_MAX`, positiveInt(DEFAULT_RATE_LIMIT_POLICIES[name].max)],
+    [`${rateLimitEnvPrefix(name)}_WINDOW_MS`, positiveInt(DEFAULT_RATE_LIMIT_POLICIES[name].windowMs)],
+  ])
+) as Record<string, ReturnType<typeof positiveInt>>;
+
+const port = z.coerce
+  .number({ invalid_type_error: 'must be a number' })
+  .int('must be an integer')
+  .min(1, 'must be a port number (1-65535)')
+  .max(65535, 'must be a port number (1-65535)');
+
+const EnvSchema = z.object({
+  NODE_ENV: z.enum(['development', 'production', 'test']).default('production'),
+  PORT: port.default(8080),
+  CORS_ORIGIN: list()
+    .refine((origins) => origins.every((origin) => /^https?:\/\/[^/\s]+$/.test(origin)), {
+      message: 'must be comma-separated origins such as https://app.example.com (no path, no *)',
+    })
+    .optional(),
+  LOG_LEVEL: z.enum(['debug', 'info', 'warn', 'error', 'silent']).default('info'),
+
+  FIREBASE_PROJECT_ID: z.string().optional(),
+  FIREBASE_CLIENT_EMAIL: z.string().email('must be the service account email').optional(),
+  FIREBASE_PRIVATE_KEY: z
+    .string()
+    .transform((key) => key.replace(/\\n/g, '\n'))
+    .refine((key) => key.includes('BEGIN PRIVATE KEY'), { message: 'must be a PEM private key' })
+    .optional(),
+  FIREBASE_DATABASE_URL: url.optional(),
+  FIREBASE_API_KEY: z.string().optional(),
+  IDENTITY_TOOLKIT_URL: url.optional(),
+  FIRESTORE_EMULATOR_HOST: z.string().optional(),
+  FIREBASE_AUTH_EMULATOR_HOST: z.string().optional(),
+  GCLOUD_PROJECT: z.string().optional(),
+
+  GOOGLE_CLIENT_ID: list().default(''),
+  GITHUB_CLIENT_ID: z.string().optional(),
+  GITHUB_CLIENT_SECRET: z.string().optional(),
+  FACEBOOK_APP_ID: z.string().optional(),
+  FACEBOOK_APP_SECRET: z.string().optional(),
+
+  PASSWORD_RESET_URL: url.optional(),
+  EMAIL_VERIFICATION_URL: url.optional(),
+
+  REQUIRE_VERIFIED_EMAIL: flag(),
+  RATE_LIMIT_DISABLED: flag(),
+  RATE_LIMIT_STORE: z.enum(['memory', 'firestore']).default('memory'),
+  ...rateLimitShape,
+
+  LOCKOUT_THRESHOLD: positiveInt(5),
+  LOCKOUT_BASE_MS: positiveInt(60 * 1000),
+  LOCKOUT_MAX_MS: positiveInt(60 * 60 * 1000),
+  LOCKOUT_RESET_MS: positiveInt(24 * 60 * 60 * 1000),
+
+  GRPC_PORT: port.optional(),
+  GRPC_SERVICE_TOKEN: z.string().min(32, 'must be at least 32 characters').optional(),
+  GRPC_TLS_CERT_FILE: z.string().optional(),
+  GRPC_TLS_KEY_FILE: z.string().optional(),
+  GRPC_TLS_CA_FILE: z.string().optional(),
+
+  METRICS_TOKEN: z.string().min(32, 'must be at least 32 characters').optional(),
+
+  IDEMPOTENCY_TTL_MS: positiveInt(24 * 60 * 60 * 1000),
+  SHUTDOWN_TIMEOUT_MS: positiveInt(10 * 1000),
+  HEALTH_CHECK_TIMEOUT_MS: positiveInt(2000),
+  GIT_COMMIT: z.string().optional(),
+  RENDER_GIT_COMMIT: z.string().optional(),
+});
+
+type Env = z.infer<typeof EnvSchema>;
+
+/**
+ * Problems spanning several variables. They only depend on which variables are set,
+ * so they are reported along with the invalid values.
+ * @param env - Variables that are set (non-blank)
+ */
+function crossFieldProblems(env: Record<string, string>, { requireFirebase = true }: LoadConfigOptions): string[] {
+  const problems: string[] = [];
+  const emulated = Boolean(env.FIRESTORE_EMULATOR_HOST || env.FIREBASE_AUTH_EMULATOR_HOST);
+
+  if (requireFirebase && !emulated) {
+    for (const name of ['FIREBASE_PROJECT_ID', 'FIREBASE_CLIENT_EMAIL', 'FIREBASE_PRIVATE_KEY'] as const) {
+      if (!env[name]) {
+        problems.push(`${name}: is required (or set FIRESTORE_EMULATOR_HOST / FIREBASE_AUTH_EMULATOR_HOST to use the emulators)`);
+      }
+    }
+  }
+  if (requireFirebase && !env.FIREBASE_API_KEY && !env.FIREBASE_AUTH_EMULATOR_HOST) {
+    problems.push('FIREBASE_API_KEY: is required to verify passwords (or set FIREBASE_AUTH_EMULATOR_HOST)');
+  }
+  if (Boolean(env.GITHUB_CLIENT_ID) !== Boolean(env.GITHUB_CLIENT_SECRET)) {
+    problems.push('GITHUB_CLIENT_ID, GITHUB_CLIENT_SECRET: must be set together');
+  }
+  if (Boolean(env.FACEBOOK_APP_ID) !== Boolean(env.FACEBOOK_APP_SECRET)) {
+    problems.push('FACEBOOK_APP_ID, FACEBOOK_APP_SECRET: must be set together');
+  }
+  if (['true', '1'].includes(env.RATE_LIMIT_DISABLED) && (env.NODE_ENV || 'production') === 'production') {
+    problems.push('RATE_LIMIT_DISABLED: cannot be enabled in production');
+  }
+  if (Boolean(env.GRPC_TLS_CERT_FILE) !== Boolean(env.GRPC_TLS_KEY_FILE)) {
+    problems.push('GRPC_TLS_CERT_FILE, GRPC_TLS_KEY_FILE: must be set together');
+  }
+  if (env.GRPC_TLS_CA_FILE && !env.GRPC_TLS_CERT_FILE) {
+    problems.push('GRPC_TLS_CA_FILE: mTLS also needs GRPC_TLS_CERT_FILE and GRPC_TLS_KEY_FILE');
+  }
+  if (env.GRPC_PORT && !env.GRPC_SERVICE_TOKEN && !env.GRPC_TLS_CA_FILE) {
+    problems.push('GRPC_PORT: needs GRPC_SERVICE_TOKEN or mTLS (GRPC_TLS_CA_FILE) to authenticate callers');
+  }
+  if (env.GRPC_PORT && Number(env.GRPC_PORT) === Number(env.PORT || 8080)) {
+    problems.push('GRPC_PORT: must differ from PORT');
+  }
+
+  return problems;
+}
+
+function toConfig(env: Env): Config {
+  const policies = Object.fromEntries(
+    (Object.keys(DEFAULT_RATE_LIMIT_POLICIES) as RateLimitPolicyName[]).map((name) => [
+      name,
+      {
+        windowMs: env[`${rateLimitEnvPrefix(name)}_WINDOW_MS`] as number,
+        max: env[`${rateLimitEnvPrefix(name)}_MAX`] as number,
+      },
+    ])
+  ) as Record<RateLimitPolicyName, RateLimitPolicy>;
+
+  const authEmulatorHost = env.FIREBASE_AUTH_EMULATOR_HOST;
+  const emulated = Boolean(env.FIRESTORE_EMULATOR_HOST || authEmulatorHost);
+
+  return {
+    env: env.NODE_ENV,
+    port: env.PORT,
+    corsOrigins: env.CORS_ORIGIN?.length ? env.CORS_ORIGIN : DEFAULT_CORS_ORIGINS,
+    logLevel: env.LOG_LEVEL,
+    firebase: {
+      // Emulators accept any project ID; `demo-` IDs never reach production
+      projectId: env.FIREBASE_PROJECT_ID || env.GCLOUD_PROJECT || (emulated ? 'demo-linkup' : undefined),
+      clientEmail: env.FIREBASE_CLIENT_EMAIL,
+      privateKey: env.FIREBASE_PRIVATE_KEY,
+      databaseURL: env.FIREBASE_DATABASE_URL,
+      apiKey: env.FIREBASE_API_KEY || (authEmulatorHost ? 'emulator' : undefined),
+      identityToolkitUrl: (
+        env.IDENTITY_TOOLKIT_URL ||
+        (authEmulatorHost ? `http://${authEmulatorHost}/identitytoolkit.googleapis.com/v1` : IDENTITY_TOOLKIT_URL)
+      ).replace(/\/+$/, ''),
+      emulator: {
+        firestoreHost: env.FIRESTORE_EMULATOR_HOST,
+        authHost: authEmulatorHost,
+      },
+    },
+    providers: {
+      googleClientIds: env.GOOGLE_CLIENT_ID,
+      githubClientId: env.GITHUB_CLIENT_ID,
+      githubClientSecret: env.GITHUB_CLIENT_SECRET,
+      facebookAppId: env.FACEBOOK_APP_ID,
+      facebookAppSecret: env.FACEBOOK_APP_SECRET,
+    },
+    links: {
+      passwordResetUrl: env.PASSWORD_RESET_URL,
+      emailVerificationUrl: env.EMAIL_VERIFICATION_URL,
+    },
+    features: {
+      requireVerifiedEmail: env.REQUIRE_VERIFIED_EMAIL,
+      rateLimitDisabled: env.RATE_LIMIT_DISABLED,
+    },
+    rateLimit: {
+      store: env.RATE_LIMIT_STORE,
+      policies,
+    },
+    lockout: {
+      threshold: env.LOCKOUT_THRESHOLD,
+      baseMs: env.LOCKOUT_BASE_MS,
+      maxMs: env.LOCKOUT_MAX_MS,
+      resetMs: env.LOCKOUT_RESET_MS,
+    },
+    grpc: {
+      port: env.GRPC_PORT,
+      serviceToken: env.GRPC_SERVICE_TOKEN,
+      tls: {
+        certFile: env.GRPC_TLS_CERT_FILE,
+        keyFile: env.GRPC_TLS_KEY_FILE,
+        caFile: env.GRPC_TLS_CA_FILE,
+      },
+    },
+    metricsToken: env.METRICS_TOKEN,
+    idempotencyTtlMs: env.IDEMPOTENCY_TTL_MS,
+    shutdownTimeoutMs: env.SHUTDOWN_TIMEOUT_MS,
+    healthCheckTimeoutMs: env.HEALTH_CHECK_TIMEOUT_MS,
+    commit: env.GIT_COMMIT || env.RENDER_GIT_COMMIT,
+  };
+}
+
+/**
+ * Parses the environment, collecting every problem instead of stopping at the first
+ * @param env - Environment variables (blank values count as unset)
+ * @param {LoadConfigOptions} options - Validation options
+ */
+function parse(env: NodeJS.ProcessEnv, options: LoadConfigOptions): { config?: Config; problems: string[] } {
+  const present = Object.fromEntries(
+    Object.entries(env).filter(([, value]) => value !== undefined && value.trim() !== '')
+  );
+  const result = EnvSchema.safeParse(present);
+
+  const problems = result.success
+    ? []
+    : result.error.issues.map((issue) => `${issue.path.join('.') || 'environment'}: ${issue.message}`);
+  problems.push(...crossFieldProblems(present, options));
+
+  if (result.success && result.data.LOCKOUT_BASE_MS > result.data.LOCKOUT_MAX_MS) {
+    problems.push('LOCKOUT_BASE_MS: must not exceed LOCKOUT_MAX_MS');
+  }
+
+  return result.success && !problems.length ? { config: toConfig(result.data), problems } : { problems };
+}
+
+/**
+ * Lists what is missing or invalid in the environment
+ * @param env - Environment variables
+ * @param {LoadConfigOptions} options - Validation options
+ * @returns {string[]} Problems, empty when the configuration is valid
+ */
+export function configProblems(env: NodeJS.ProcessEnv = process.env, options: LoadConfigOptions = {}): string[] {
+  return parse(env, options).problems;
+}
+
+/**
+ * Parses and validates the configuration
+ * @param env - Environment variables
+ * @param {LoadConfigOptions} options - Validation options
+ * @throws {ConfigError} Listing every missing or invalid variable
+ */
+export function loadConfig(env: NodeJS.ProcessEnv = process.env, options: LoadConfigOptions = {}): Config {
+  const { config, problems } = parse(env, options);
+  if (!config) throw new ConfigError(problems);
+  return config;
+}
+
+let current: Config | undefined;
+
+/**
+ * Returns the active configuration: the one of the app handling the request, otherwise the
+ * process-wide one. Without `setConfig`, it is loaded from the environment on first use,
+ * without requiring Firebase credentials.
+ */
+export function getConfig(): Config {
+  const scoped = getAppScope()?.config;
+  if (scoped) return scoped;
+
+  if (!current) current = loadConfig(process.env, { requireFirebase: false });
+  return current;
+}
+
+/**
+ * Replaces the process-wide configuration (e.g. the one validated at startup)
+ * @param {Config} config - Configuration to use
+ */
+export function setConfig(config: Config): void {
+  current = config;
+}
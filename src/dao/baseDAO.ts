@@ -1,59 +1,127 @@
-import { db } from "../config/firebase";
+import { getAppScope } from "../appScope";
+import { firestoreRepositories } from "./firestoreRepository";
+import {
+    BatchOperation,
+    Page,
+    PageOptions,
+    QueryOptions,
+    Repository,
+    RepositoryFactory,
+    WhereClause,
+} from "./repository";
 
+export * from "./repository";
+
+/**
+ * Collection operations bound to a transaction
+ */
+export interface TransactionScope<T> {
+    get(id: string): Promise<T | undefined>;
+    set(id: string, data: Partial<T>, merge?: boolean): void;
+    update(id: string, data: Partial<T> | FirebaseFirestore.DocumentData): void;
+    delete(id: string): void;
+}
+
+let repositoryFactory: RepositoryFactory = firestoreRepositories;
+
+/**
+ * Replaces the process-wide storage behind every DAO (e.g. with `memoryRepositories()` to run
+ * without Firebase); requests of an app created with its own repositories keep using those
+ * @param {RepositoryFactory} factory - Repository factory
+ */
+export function setRepositoryFactory(factory: RepositoryFactory): void {
+    repositoryFactory = factory;
+}
 
 /**
  * Base DAO class for Firestore operations
  * @class
  */
-
-export class baseDAO {
+export class baseDAO<T extends FirebaseFirestore.DocumentData> {
     collection: string;
-    db: FirebaseFirestore.Firestore;
+    idField?: string;
     /**
      * Constructor for baseDAO
      * @param {string} collection - The Firestore collection name
+     * @param {string} idField - Model field exposing the document ID (never stored)
      */
-    constructor(collection: string) {
+    constructor(collection: string, idField?: string) {
         this.collection = collection;
-        this.db = db;
+        this.idField = idField;
+    }
+
+    /**
+     * Storage of the collection, resolved on each call: the repositories of the app handling
+     * the request, otherwise the process-wide factory (which can be replaced at startup)
+     */
+    protected get repository(): Repository {
+        return (getAppScope()?.repositories ?? repositoryFactory)(this.collection);
+    }
+
+    /**
+     * Converts a stored document to the model
+     * @param {string} id - Document ID
+     * @param data - Stored data
+     */
+    protected fromDocument(id: string, data: FirebaseFirestore.DocumentData): T {
+        return (this.idField ? { ...data, [this.idField]: id } : data) as T;
+    }
+
+    /**
+     * Converts the model to the stored document
+     * @param data - Model data
+     */
+    protected toDocument(data: Partial<T> | FirebaseFirestore.DocumentData): FirebaseFirestore.DocumentData {
+        if (!this.idField) return data;
+        const { [this.idField]: _id, ...document } = data;
+        return document;
     }
 
     /**
      * Get all documents from the collection
-     * @returns {Promise<any[]>} Array of documents
+     * @returns {Promise<T[]>} Array of documents
      */
-    async getAll() {
-        const snapshot = await this.db.collection(this.collection).get();
-        return snapshot.docs.map(doc => doc.data());
+    async getAll(): Promise<T[]> {
+        return this.findWhere({});
     }
 
     /**
      * Get a single document by ID
      * @param {string} id - Document ID
-     * @returns {Promise<any>} Document data
+     * @returns {Promise<T | undefined>} Document data, undefined when it does not exist
      */
-    async getOne(id: string) {
-        const doc = await this.db.collection(this.collection).doc(id).get();
-        return doc.data();
+    async getOne(id: string): Promise<T | undefined> {
+        const doc = await this.repository.get(id);
+        return doc && this.fromDocument(doc.id, doc.data);
     }
 
     /**
      * Create a new document in the collection
-     * @param {any} data - Document data
+     * @param {T} data - Document data
+     * @param {string} id - Document ID (generated when omitted)
      * @returns {Promise<string>} Document ID
      */
-    async create(data: any) {
-        const doc = await this.db.collection(this.collection).doc( data.uid ).set(data);
-        return doc;
+    async create(data: Partial<T>, id?: string): Promise<string> {
+        return this.repository.create(this.toDocument(data), id);
+    }
+
+    /**
+     * Write a document, merging with the existing one by default
+     * @param {string} id - Document ID
+     * @param {Partial<T>} data - Document data
+     * @param {boolean} merge - Keep the fields not in `data`
+     */
+    async set(id: string, data: Partial<T>, merge = true) {
+        await this.repository.set(id, this.toDocument(data), merge);
     }
 
     /**
      * Update a document in the collection
      * @param {string} id - Document ID
-     * @param {any} data - Document data
+     * @param {Partial<T>} data - Fields to update (dotted paths and deleteField() allowed)
      */
-    async update(id: string, data: any) {
-        await this.db.collection(this.collection).doc(id).update(data);
+    async update(id: string, data: Partial<T> | FirebaseFirestore.DocumentData) {
+        await this.repository.update(id, this.toDocument(data));
     }
 
     /**
@@ -61,6 +129,69 @@ export class baseDAO {
      * @param {string} id - Document ID
      */
     async delete(id: string) {
-        await this.db.collection(this.collection).doc(id).delete();
+        await this.repository.delete(id);
+    }
+
+    /**
+     * Find documents matching where clauses
+     * @param {QueryOptions} options - Where, order and limit
+     * @returns {Promise<T[]>} Matching documents
+     */
+    async findWhere(options: QueryOptions): Promise<T[]> {
+        const docs = await this.repository.list(options);
+        return docs.map(doc => this.fromDocument(doc.id, doc.data));
+    }
+
+    /**
+     * Find the first document matching where clauses
+     * @param {WhereClause[]} where - Where clauses
+     */
+    async findOne(...where: WhereClause[]): Promise<T | undefined> {
+        const [first] = await this.findWhere({ where, limit: 1 });
+        return first;
+    }
+
+    /**
+     * Get one page of documents, starting after the cursor document
+     * @param {PageOptions} options - Where, order, page size and cursor
+     * @returns {Promise<Page<T>>} Documents and the cursor of the next page
+     * @throws {InvalidCursorError} When the cursor document does not exist
+     */
+    async findPage(options: PageOptions): Promise<Page<T>> {
+        const page = await this.repository.page(options);
+        return {
+            items: page.items.map(doc => this.fromDocument(doc.id, doc.data)),
+            nextCursor: page.nextCursor,
+        };
+    }
+
+    /**
+     * Apply several writes atomically (in chunks of 500 on Firestore)
+     * @param {BatchOperation<T>[]} operations - Writes to apply
+     */
+    async batchWrite(operations: BatchOperation<T>[]) {
+        await this.repository.batch(operations.map(operation =>
+            operation.type === "delete" ? operation : { ...operation, data: this.toDocument(operation.data) }
+        ));
+    }
+
+    /**
+     * Run a transaction with collection helpers.
+     * Reads must happen before writes, and the callback may be retried.
+     * @param fn - Transaction body
+     * @returns The value returned by `fn`
+     */
+    runTransaction<R>(fn: (scope: TransactionScope<T>) => Promise<R>): Promise<R> {
+        return this.repository.transaction((tx) =>
+            fn({
+                get: async (id) => {
+                    const doc = await tx.get(id);
+                    return doc && this.fromDocument(doc.id, doc.data);
+                },
+                set: (id, data, merge = true) => tx.set(id, this.toDocument(data), merge),
+                update: (id, data) => tx.update(id, this.toDocument(data)),
+                delete: (id) => tx.delete(id),
+            })
+        );
     }
-}
\ No newline at end of file
+}
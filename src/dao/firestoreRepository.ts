@@ -0,0 +1,147 @@
+import { getFirestore } from "../config/firebase";
+import {
+    BatchOperation,
+    InvalidCursorError,
+    Page,
+    PageOptions,
+    QueryOptions,
+    Repository,
+    RepositoryFactory,
+    RepositoryTransaction,
+    StoredDocument,
+} from "./repository";
+
+/** Firestore refuses batches of more than 500 writes */
+const MAX_BATCH_SIZE = 500;
+
+function toStored(doc: FirebaseFirestore.DocumentSnapshot): StoredDocument {
+    return { id: doc.id, data: doc.data() as FirebaseFirestore.DocumentData };
+}
+
+/**
+ * Repository of a Firestore collection
+ * @class
+ */
+export class FirestoreRepository implements Repository {
+    /**
+     * @param {string} collection - Collection path
+     * @param {FirebaseFirestore.Firestore} db - Firestore instance (the default app when omitted)
+     */
+    constructor(private collection: string, private db?: FirebaseFirestore.Firestore) {}
+
+    private get firestore(): FirebaseFirestore.Firestore {
+        if (!this.db) this.db = getFirestore();
+        return this.db;
+    }
+
+    private ref() {
+        return this.firestore.collection(this.collection);
+    }
+
+    private buildQuery(options: QueryOptions = {}): FirebaseFirestore.Query {
+        let query: FirebaseFirestore.Query = this.ref();
+
+        for (const [field, op, value] of options.where || []) {
+            query = query.where(field, op, value);
+        }
+        for (const [field, direction] of options.orderBy || []) {
+            query = query.orderBy(field, direction);
+        }
+        if (options.limit) {
+            query = query.limit(options.limit);
+        }
+        return query;
+    }
+
+    async get(id: string): Promise<StoredDocument | undefined> {
+        const doc = await this.ref().doc(id).get();
+        return doc.exists ? toStored(doc) : undefined;
+    }
+
+    async list(options?: QueryOptions): Promise<StoredDocument[]> {
+        const snapshot = await this.buildQuery(options).get();
+        return snapshot.docs.map(toStored);
+    }
+
+    async page(options: PageOptions): Promise<Page<StoredDocument>> {
+        let query = this.buildQuery(options);
+
+        if (options.cursor) {
+            const cursorDoc = await this.ref().doc(options.cursor).get();
+            if (!cursorDoc.exists) {
+                throw new InvalidCursorError();
+            }
+            query = query.startAfter(cursorDoc);
+        }
+
+        const snapshot = await query.get();
+        const last = snapshot.docs[snapshot.docs.length - 1];
+
+        return {
+            items: snapshot.docs.map(toStored),
+            nextCursor: snapshot.docs.length === options.limit && last ? last.id : null,
+        };
+    }
+
+    async create(data: FirebaseFirestore.DocumentData, id?: string): Promise<string> {
+        const doc = id ? this.ref().doc(id) : this.ref().doc();
+        await doc.set(data);
+        return doc.id;
+    }
+
+    async set(id: string, data: FirebaseFirestore.DocumentData, merge: boolean) {
+        await this.ref().doc(id).set(data, { merge });
+    }
+
+    async update(id: string, data: FirebaseFirestore.DocumentData) {
+        await this.ref().doc(id).update(data);
+    }
+
+    async delete(id: string) {
+        await this.ref().doc(id).delete();
+    }
+
+    async batch(operations: BatchOperation[]) {
+        for (let start = 0; start < operations.length; start += MAX_BATCH_SIZE) {
+            const batch = this.firestore.batch();
+
+            for (const operation of operations.slice(start, start + MAX_BATCH_SIZE)) {
+                if (operation.type === "set") {
+                    const doc = operation.id ? this.ref().doc(operation.id) : this.ref().doc();
+                    batch.set(doc, operation.data, { merge: !!operation.merge });
+                } else if (operation.type === "update") {
+                    batch.update(this.ref().doc(operation.id), operation.data);
+                } else {
+                    batch.delete(this.ref().doc(operation.id));
+                }
+            }
+
+            await batch.commit();
+        }
+    }
+
+    transaction<R>(fn: (tx: RepositoryTransaction) => Promise<R>): Promise<R> {
+        return this.firestore.runTransaction((tx) =>
+            fn({
+                get: async (id) => {
+                    const doc = await tx.get(this.ref().doc(id));
+                    return doc.exists ? toStored(doc) : undefined;
+                },
+                set: (id, data, merge = false) => {
+                    tx.set(this.ref().doc(id), data, { merge });
+                },
+                update: (id, data) => {
+                    tx.update(this.ref().doc(id), data);
+                },
+                delete: (id) => {
+                    tx.delete(this.ref().doc(id));
+                },
+            })
+        );
+    }
+}
+
+/**
+ * Repositories backed by the default Firestore database
+ */
+export const firestoreRepositories: RepositoryFactory = (collection) => new FirestoreRepository(collection);
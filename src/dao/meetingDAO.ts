@@ -0,0 +1,22 @@
+import { baseDAO } from "./baseDAO";
+import { Meeting } from "../models/meeting";
+
+
+class MeetingDAO extends baseDAO<Meeting> {
+    constructor() {
+        super('meetings', 'id');
+    }
+
+    /**
+     * Meetings owned by a user, newest first
+     * @param {string} ownerUid - Owner UID
+     */
+    async findByOwner(ownerUid: string): Promise<Meeting[]> {
+        return this.findWhere({
+            where: [["ownerUid", "==", ownerUid]],
+            orderBy: [["createdAt", "desc"]],
+        });
+    }
+}
+
+export const meetingDAO = new MeetingDAO();
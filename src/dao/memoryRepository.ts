@@ -0,0 +1,318 @@
+import { randomBytes } from "crypto";
+import { isDeepStrictEqual } from "util";
+import {
+    BatchOperation,
+    InvalidCursorError,
+    Page,
+    PageOptions,
+    QueryOptions,
+    Repository,
+    RepositoryFactory,
+    RepositoryTransaction,
+    StoredDocument,
+    WhereClause,
+    isDeleteField,
+} from "./repository";
+
+type Data = FirebaseFirestore.DocumentData;
+
+const ID_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789";
+
+/**
+ * Random 20 character ID, like Firestore auto IDs
+ */
+function autoId(): string {
+    return Array.from(randomBytes(20), (byte) => ID_ALPHABET[byte % ID_ALPHABET.length]).join("");
+}
+
+function isPlainObject(value: unknown): value is Data {
+    return (
+        typeof value === "object" &&
+        value !== null &&
+        !Array.isArray(value) &&
+        !(value instanceof Date) &&
+        !isDeleteField(value)
+    );
+}
+
+/**
+ * Deep copy without undefined values (the Firestore app ignores them too)
+ */
+function clone<V>(value: V): V {
+    if (Array.isArray(value)) {
+        return value.filter((item) => item !== undefined).map(clone) as unknown as V;
+    }
+    if (isPlainObject(value)) {
+        const copy: Data = {};
+        for (const [key, item] of Object.entries(value)) {
+            if (item !== undefined) copy[key] = clone(item);
+        }
+        return copy as V;
+    }
+    return value;
+}
+
+function getField(data: Data, path: string): unknown {
+    return path.split(".").reduce<unknown>((value, key) => (isPlainObject(value) ? value[key] : undefined), data);
+}
+
+function setField(data: Data, path: string, value: unknown) {
+    const keys = path.split(".");
+    let target = data;
+
+    for (const key of keys.slice(0, -1)) {
+        if (!isPlainObject(target[key])) target[key] = {};
+        target = target[key];
+    }
+
+    const last = keys[keys.length - 1];
+    if (isDeleteField(value)) {
+        delete target[last];
+    } else if (value !== undefined) {
+        target[last] = clone(value);
+    }
+}
+
+/**
+ * Firestore `set(..., { merge: true })`: nested maps are merged, other values replaced
+ */
+function mergeInto(target: Data, data: Data) {
+    for (const [key, value] of Object.entries(data)) {
+        if (isPlainObject(value) && isPlainObject(target[key])) {
+            mergeInto(target[key], value);
+        } else if (isDeleteField(value)) {
+            delete target[key];
+        } else if (value !== undefined) {
+            target[key] = clone(value);
+        }
+    }
+}
+
+/**
+ * Orders values of different types like Firestore: null, booleans, numbers, strings, then the rest
+ */
+function typeRank(value: unknown): number {
+    if (value === null) return 0;
+    if (typeof value === "boolean") return 1;
+    if (typeof value === "number") return 2;
+    if (typeof value === "string") return 3;
+    return 4;
+}
+
+function compareValues(a: unknown, b: unknown): number {
+    const rank = typeRank(a) - typeRank(b);
+    if (rank !== 0) return rank;
+    if (typeof a === "number" || typeof a === "string" || typeof a === "boolean") {
+        return a < (b as typeof a) ? -1 : a > (b as typeof a) ? 1 : 0;
+    }
+    return JSON.stringify(a).localeCompare(JSON.stringify(b));
+}
+
+function matches(data: Data, [field, op, expected]: WhereClause): boolean {
+    const value = getField(data, field);
+    if (value === undefined) return false;
+
+    switch (op) {
+        case "==":
+            return isDeepStrictEqual(value, expected);
+        case "!=":
+            return !isDeepStrictEqual(value, expected);
+        case "<":
+        case "<=":
+        case ">":
+        case ">=": {
+            if (typeRank(value) !== typeRank(expected)) return false;
+            const order = compareValues(value, expected);
+            return op === "<" ? order < 0 : op === "<=" ? order <= 0 : op === ">" ? order > 0 : order >= 0;
+        }
+        case "array-contains":
+            return Array.isArray(value) && value.some((item) => isDeepStrictEqual(item, expected));
+        case "array-contains-any":
+            return Array.isArray(value) && value.some((item) =>
+                (expected as unknown[]).some((candidate) => isDeepStrictEqual(item, candidate)));
+        case "in":
+            return (expected as unknown[]).some((candidate) => isDeepStrictEqual(value, candidate));
+        case "not-in":
+            return !(expected as unknown[]).some((candidate) => isDeepStrictEqual(value, candidate));
+        default:
+            throw new Error(`Unsupported operator: ${op}`);
+    }
+}
+
+function notFound(collection: string, id: string): Error {
+    // Same code as the Firestore NOT_FOUND error
+    return Object.assign(new Error(`No document to update: ${collection}/${id}`), { code: 5 });
+}
+
+/**
+ * Repository keeping a collection in memory, for tests and offline development.
+ * Transactions run one at a time; batches and transactions are all-or-nothing.
+ * @class
+ */
+export class MemoryRepository implements Repository {
+    private documents = new Map<string, Data>();
+    private queue: Promise<unknown> = Promise.resolve();
+
+    /**
+     * @param {string} collection - Collection path, used in error messages
+     */
+    constructor(private collection: string) {}
+
+    private stored(id: string): StoredDocument | undefined {
+        const data = this.documents.get(id);
+        return data ? { id, data: clone(data) } : undefined;
+    }
+
+    private query(options: QueryOptions = {}) {
+        const orderBy = options.orderBy || [];
+        const where = options.where || [];
+
+        // Documents missing an ordered field are left out, as in Firestore
+        const docs = Array.from(this.documents.entries())
+            .filter(([, data]) => where.every((clause) => matches(data, clause)))
+            .filter(([, data]) => orderBy.every(([field]) => getField(data, field) !== undefined))
+            .map(([id, data]) => ({ id, data }));
+
+        const compare = (a: StoredDocument, b: StoredDocument) => {
+            for (const [field, direction] of orderBy) {
+                const order = compareValues(getField(a.data, field), getField(b.data, field));
+                if (order !== 0) return direction === "desc" ? -order : order;
+            }
+            return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+        };
+
+        return { docs: docs.sort(compare), compare };
+    }
+
+    private applyWrite(operation: BatchOperation) {
+        if (operation.type === "delete") {
+            this.documents.delete(operation.id);
+            return;
+        }
+
+        const id = operation.id || autoId();
+        const existing = this.documents.get(id);
+
+        if (operation.type === "update") {
+            if (!existing) throw notFound(this.collection, id);
+            const next = clone(existing);
+            for (const [path, value] of Object.entries(operation.data)) {
+                setField(next, path, value);
+            }
+            this.documents.set(id, next);
+            return;
+        }
+
+        const next = operation.merge && existing ? clone(existing) : {};
+        mergeInto(next, operation.data);
+        this.documents.set(id, next);
+    }
+
+    /**
+     * Applies writes atomically: on failure the collection is left unchanged
+     */
+    private applyAll(operations: BatchOperation[]) {
+        const snapshot = new Map(this.documents);
+        try {
+            operations.forEach((operation) => this.applyWrite(operation));
+        } catch (error) {
+            this.documents = snapshot;
+            throw error;
+        }
+    }
+
+    async get(id: string): Promise<StoredDocument | undefined> {
+        return this.stored(id);
+    }
+
+    async list(options?: QueryOptions): Promise<StoredDocument[]> {
+        const { docs } = this.query(options);
+        const limited = options?.limit ? docs.slice(0, options.limit) : docs;
+        return limited.map(({ id }) => this.stored(id) as StoredDocument);
+    }
+
+    async page(options: PageOptions): Promise<Page<StoredDocument>> {
+        const { docs: sorted, compare } = this.query(options);
+        let docs = sorted;
+
+        if (options.cursor) {
+            const cursor = this.stored(options.cursor);
+            if (!cursor) throw new InvalidCursorError();
+            docs = docs.filter((doc) => compare(doc, cursor) > 0);
+        }
+
+        const items = docs.slice(0, options.limit).map(({ id }) => this.stored(id) as StoredDocument);
+        return {
+            items,
+            nextCursor: items.length === options.limit ? items[items.length - 1].id : null,
+        };
+    }
+
+    async create(data: Data, id = autoId()): Promise<string> {
+        this.applyAll([{ type: "set", id, data }]);
+        return id;
+    }
+
+    async set(id: string, data: Data, merge: boolean) {
+        this.applyAll([{ type: "set", id, data, merge }]);
+    }
+
+    async update(id: string, data: Data) {
+        this.applyAll([{ type: "update", id, data }]);
+    }
+
+    async delete(id: string) {
+        this.applyAll([{ type: "delete", id }]);
+    }
+
+    async batch(operations: BatchOperation[]) {
+        this.applyAll(operations);
+    }
+
+    transaction<R>(fn: (tx: RepositoryTransaction) => Promise<R>): Promise<R> {
+        const run = async () => {
+            const writes: BatchOperation[] = [];
+            const result = await fn({
+                get: async (id) => this.stored(id),
+                set: (id, data, merge = false) => { writes.push({ type: "set", id, data: clone(data), merge }); },
+                update: (id, data) => { writes.push({ type: "update", id, data }); },
+                delete: (id) => { writes.push({ type: "delete", id }); },
+            });
+            this.applyAll(writes);
+            return result;
+        };
+
+        const result = this.queue.then(run, run);
+        this.queue = result.catch(() => undefined);
+        return result;
+    }
+
+    /**
+     * Removes every document
+     */
+    clear() {
+        this.documents.clear();
+    }
+}
+
+/**
+ * Creates in-memory repositories, one per collection path, kept for the factory lifetime.
+ * Pass it to `setRepositoryFactory` (or `createApp`) to run without Firebase.
+ * @returns Repository factory; `clear()` empties every collection
+ */
+export function memoryRepositories(): RepositoryFactory & { clear(): void } {
+    const repositories = new Map<string, MemoryRepository>();
+
+    const factory = (collection: string) => {
+        let repository = repositories.get(collection);
+        if (!repository) {
+            repository = new MemoryRepository(collection);
+            repositories.set(collection, repository);
+        }
+        return repository;
+    };
+
+    return Object.assign(factory, {
+        clear: () => repositories.forEach((repository) => repository.clear()),
+    });
+}
@@ -0,0 +1,108 @@
+import { FieldValue } from "firebase-admin/firestore";
+import { BadRequestError } from "../errors";
+
+/**
+ * Where clause: [field, operator, value]
+ */
+export type WhereClause = [string, FirebaseFirestore.WhereFilterOp, unknown];
+
+/**
+ * Sort clause: [field, direction]
+ */
+export type OrderClause = [string, FirebaseFirestore.OrderByDirection?];
+
+/**
+ * Options of a collection query
+ */
+export interface QueryOptions {
+    where?: WhereClause[];
+    orderBy?: OrderClause[];
+    limit?: number;
+}
+
+/**
+ * Options of a paginated query. `cursor` is the ID of the last document of the previous page.
+ */
+export interface PageOptions extends QueryOptions {
+    limit: number;
+    cursor?: string;
+}
+
+/**
+ * A page of documents and the cursor of the next page (null on the last page)
+ */
+export interface Page<T> {
+    items: T[];
+    nextCursor: string | null;
+}
+
+/**
+ * A stored document and its ID
+ */
+export interface StoredDocument {
+    id: string;
+    data: FirebaseFirestore.DocumentData;
+}
+
+/**
+ * A write of a batch
+ */
+export type BatchOperation<T = FirebaseFirestore.DocumentData> =
+    | { type: "set"; id?: string; data: Partial<T>; merge?: boolean }
+    | { type: "update"; id: string; data: Partial<T> | FirebaseFirestore.DocumentData }
+    | { type: "delete"; id: string };
+
+/**
+ * Document operations bound to a transaction. Reads must happen before writes.
+ */
+export interface RepositoryTransaction {
+    get(id: string): Promise<StoredDocument | undefined>;
+    set(id: string, data: FirebaseFirestore.DocumentData, merge?: boolean): void;
+    update(id: string, data: FirebaseFirestore.DocumentData): void;
+    delete(id: string): void;
+}
+
+/**
+ * Storage of one collection. `update` accepts dotted field paths and `deleteField()`.
+ */
+export interface Repository {
+    get(id: string): Promise<StoredDocument | undefined>;
+    list(options?: QueryOptions): Promise<StoredDocument[]>;
+    /** @throws {InvalidCursorError} When the cursor document does not exist */
+    page(options: PageOptions): Promise<Page<StoredDocument>>;
+    create(data: FirebaseFirestore.DocumentData, id?: string): Promise<string>;
+    set(id: string, data: FirebaseFirestore.DocumentData, merge: boolean): Promise<void>;
+    update(id: string, data: FirebaseFirestore.DocumentData): Promise<void>;
+    delete(id: string): Promise<void>;
+    batch(operations: BatchOperation[]): Promise<void>;
+    transaction<R>(fn: (tx: RepositoryTransaction) => Promise<R>): Promise<R>;
+}
+
+/**
+ * Builds the repository of a collection path (e.g. `users` or `users/{uid}/sessions`)
+ */
+export type RepositoryFactory = (collection: string) => Repository;
+
+/**
+ * Invalid pagination cursor
+ */
+export class InvalidCursorError extends BadRequestError {
+    constructor() {
+        super("Invalid cursor", "INVALID_CURSOR");
+    }
+}
+
+/**
+ * Sentinel removing a field in `update`
+ */
+export function deleteField(): FieldValue {
+    return FieldValue.delete();
+}
+
+/**
+ * Whether a value is the `deleteField()` sentinel
+ * @param value - Value of an update
+ */
+export function isDeleteField(value: unknown): boolean {
+    return value instanceof FieldValue && value.isEqual(FieldValue.delete());
+}
@@ -1,11 +1,34 @@
 import { baseDAO } from "./baseDAO";
+import { User } from "../models/user";
 
 
-class UserDAO extends baseDAO {
+class UserDAO extends baseDAO<User> {
     constructor() {
         super('users');
     }
-    
+
+    protected fromDocument(id: string, data: FirebaseFirestore.DocumentData): User {
+        // Profiles upserted before registration may lack the stored uid
+        return { uid: id, ...data } as User;
+    }
+
+    /**
+     * Create a user profile, keyed by its Firebase Auth UID
+     * @param {User} data - Profile data
+     * @returns {Promise<string>} User UID
+     */
+    async create(data: Partial<User>, id = data.uid): Promise<string> {
+        return super.create(data, id);
+    }
+
+    /**
+     * Find the user that linked a provider account
+     * @param {string} providerId - Provider ID (e.g. "google")
+     * @param {string} providerUid - Account ID at the provider
+     */
+    async findByProviderUid(providerId: string, providerUid: string): Promise<User | undefined> {
+        return this.findOne([`providerIds.${providerId}`, "==", providerUid]);
+    }
 }
 
 export const userDAO = new UserDAO();
@@ -0,0 +1,111 @@
+/**
+ * HTTP errors thrown by routes and middleware, rendered by the errorHandler as
+ * `{ success: false, error, code, details? }`
+ * @module Errors
+ */
+/**
+ * Error with an HTTP status and a stable, machine-readable code
+ */
+export class HttpError extends Error {
+  statusCode: number;
+  code: string;
+  details?: unknown;
+
+  constructor(statusCode: number, code: string, message: string, details?: unknown) {
+    super(message);
+    this.name = new.target.name;
+    this.statusCode = statusCode;
+    this.code = code;
+    this.details = details;
+  }
+}
+
+/**
+ * 400: the request cannot be processed as sent
+ */
+export class BadRequestError extends HttpError {
+  constructor(message = 'Bad request', code = 'BAD_REQUEST', details?: unknown) {
+    super(400, code, message, details);
+  }
+}
+
+/**
+ * 400: the request failed validation; `details` lists the field errors
+ */
+export class ValidationError extends HttpError {
+  constructor(details?: unknown, message = 'Validation failed', code = 'VALIDATION_ERROR') {
+    super(400, code, message, details);
+  }
+}
+
+/**
+ * 401: missing, invalid or revoked credentials
+ */
+export class UnauthorizedError extends HttpError {
+  constructor(message = 'Authentication required', code = 'UNAUTHORIZED', details?: unknown) {
+    super(401, code, message, details);
+  }
+}
+
+/**
+ * 403: authenticated, but not allowed
+ */
+export class ForbiddenError extends HttpError {
+  constructor(message = 'Access denied', code = 'FORBIDDEN', details?: unknown) {
+    super(403, code, message, details);
+  }
+}
+
+/**
+ * 404: the resource does not exist
+ */
+export class NotFoundError extends HttpError {
+  constructor(message = 'Not found', code = 'NOT_FOUND', details?: unknown) {
+    super(404, code, message, details);
+  }
+}
+
+/**
+ * 409: the request conflicts with the current state
+ */
+export class ConflictError extends HttpError {
+  constructor(message = 'Conflict', code = 'CONFLICT', details?: unknown) {
+    super(409, code, message, details);
+  }
+}
+
+/**
+ * 412: a precondition (If-Match) failed, e.g. the resource changed since it was read
+ */
+export class PreconditionFailedError extends HttpError {
+  constructor(message = 'Precondition failed', code = 'PRECONDITION_FAILED', details?: unknown) {
+    super(412, code, message, details);
+  }
+}
+
+/**
+ * 422: well-formed, but cannot be processed (e.g. an idempotency key reused for another request)
+ */
+export class UnprocessableEntityError extends HttpError {
+  constructor(message = 'Unprocessable request', code = 'UNPROCESSABLE_ENTITY', details?: unknown) {
+    super(422, code, message, details);
+  }
+}
+
+/**
+ * 429: too many requests, or a locked account
+ */
+export class TooManyRequestsError extends HttpError {
+  constructor(message = 'Too many requests. Please try again later.', code = 'RATE_LIMITED', details?: unknown) {
+    super(429, code, message, details);
+  }
+}
+
+/**
+ * 503: a dependency or feature is unavailable (e.g. not configured)
+ */
+export class ServiceUnavailableError extends HttpError {
+  constructor(message = 'Service unavailable', code = 'SERVICE_UNAVAILABLE', details?: unknown) {
+    super(503, code, message, details);
+  }
+}
@@ -0,0 +1,146 @@
+/**
+ * Handlers of the gRPC UsersService and MeetingsService (see proto/linkup.proto),
+ * reading the same DAOs as the REST routes
+ * @module GrpcHandlers
+ */
+import { userDAO } from '../dao/userDAO';
+import { meetingDAO } from '../dao/meetingDAO';
+import { User } from '../models/user';
+import { Meeting } from '../models/meeting';
+import { BadRequestError, NotFoundError } from '../errors';
+
+/**
+ * Most users returned by one BatchGetUsers call
+ */
+export const MAX_BATCH_SIZE = 100;
+
+/**
+ * Messages as produced by proto-loader (camelCase fields)
+ */
+export interface UserMessage {
+  uid: string;
+  firstName: string;
+  lastName: string;
+  email: string;
+  displayName: string;
+  photoUrl: string;
+  providers: string[];
+  emailVerified: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface MeetingMessage {
+  id: string;
+  title: string;
+  description: string;
+  scheduledAt: string;
+  ownerUid: string;
+  status: string;
+  participants: string[];
+  isPublic: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+function toUserMessage(user: User): UserMessage {
+  return {
+    uid: user.uid,
+    firstName: user.firstName || '',
+    lastName: user.lastName || '',
+    email: user.email || '',
+    displayName: user.displayName || `${user.firstName || ''} ${user.lastName || ''}`.trim(),
+    photoUrl: user.photoURL || '',
+    providers: user.providers || [],
+    emailVerified: user.emailVerified === true,
+    createdAt: user.createdAt || '',
+    updatedAt: user.updatedAt || '',
+  };
+}
+
+function toMeetingMessage(meeting: Meeting): MeetingMessage {
+  return {
+    id: meeting.id,
+    title: meeting.title || '',
+    description: meeting.description || '',
+    scheduledAt: meeting.scheduledAt || '',
+    ownerUid: meeting.ownerUid || '',
+    status: meeting.status || '',
+    participants: meeting.participants || [],
+    isPublic: meeting.isPublic === true,
+    createdAt: meeting.createdAt || '',
+    updatedAt: meeting.updatedAt || '',
+  };
+}
+
+function required(value: string | undefined, name: string): string {
+  if (!value) {
+    throw new BadRequestError(`${name} is required`, 'VALIDATION_ERROR');
+  }
+  return value;
+}
+
+async function loadMeeting(id: string): Promise<Meeting> {
+  const meeting = await meetingDAO.getOne(id);
+  if (!meeting) {
+    throw new NotFoundError('Meeting not found', 'MEETING_NOT_FOUND');
+  }
+  return meeting;
+}
+
+/**
+ * UsersService.GetUser
+ * @param request - `{ uid }`
+ */
+export async function getUser(request: { uid?: string }): Promise<UserMessage> {
+  const user = await userDAO.getOne(required(request.uid, 'uid'));
+  if (!user) {
+    throw new NotFoundError('User not found', 'USER_NOT_FOUND');
+  }
+  return toUserMessage(user);
+}
+
+/**
+ * UsersService.BatchGetUsers: unknown UIDs are reported instead of failing the call
+ * @param request - `{ uids }`
+ */
+export async function batchGetUsers(
+  request: { uids?: string[] }
+): Promise<{ users: UserMessage[]; missingUids: string[] }> {
+  const uids = [...new Set((request.uids || []).filter(Boolean))];
+  if (uids.length > MAX_BATCH_SIZE) {
+    throw new BadRequestError(`At most ${MAX_BATCH_SIZE} users can be requested at once`, 'VALIDATION_ERROR');
+  }
+
+  const users = await Promise.all(uids.map((uid) => userDAO.getOne(uid)));
+
+  return {
+    users: users.filter((user): user is User => Boolean(user)).map(toUserMessage),
+    missingUids: uids.filter((_uid, index) => !users[index]),
+  };
+}
+
+/**
+ * MeetingsService.GetMeeting
+ * @param request - `{ id }`
+ */
+export async function getMeeting(request: { id?: string }): Promise<MeetingMessage> {
+  return toMeetingMessage(await loadMeeting(required(request.id, 'id')));
+}
+
+/**
+ * MeetingsService.IsParticipant
+ * @param request - `{ meetingId, uid }`
+ */
+export async function isParticipant(
+  request: { meetingId?: string; uid?: string }
+): Promise<{ participant: boolean; owner: boolean }> {
+  const uid = required(request.uid, 'uid');
+  const meeting = await loadMeeting(required(request.meetingId, 'meetingId'));
+  const owner = meeting.ownerUid === uid;
+
+  return {
+    participant: owner || (meeting.participants || []).includes(uid),
+    owner,
+  };
+}
@@ -0,0 +1,191 @@
+/**
+ * gRPC server for other LinkUp backend services, on its own port (GRPC_PORT).
+ * Callers authenticate with the shared service token and/or a client certificate (mTLS).
+ * @module GrpcServer
+ */
+import { readFileSync } from 'fs';
+import path from 'path';
+import { randomUUID, timingSafeEqual } from 'crypto';
+import * as grpc from '@grpc/grpc-js';
+import * as protoLoader from '@grpc/proto-loader';
+import { Config, getConfig } from '../config';
+import { mapError } from '../middleware/errorHandler';
+import { log, runWithRequestContext } from '../log';
+import { getUser, batchGetUsers, getMeeting, isParticipant } from './handlers';
+
+/**
+ * The proto file ships next to `src/` and `dist/`
+ */
+const PROTO_PATH = path.resolve(__dirname, '../../proto/linkup.proto');
+
+/**
+ * HTTP statuses of mapped errors, as gRPC status codes
+ */
+const GRPC_STATUS: Record<number, grpc.status> = {
+  400: grpc.status.INVALID_ARGUMENT,
+  401: grpc.status.UNAUTHENTICATED,
+  403: grpc.status.PERMISSION_DENIED,
+  404: grpc.status.NOT_FOUND,
+  409: grpc.status.ALREADY_EXISTS,
+  429: grpc.status.RESOURCE_EXHAUSTED,
+  503: grpc.status.UNAVAILABLE,
+};
+
+function loadServices() {
+  const definition = protoLoader.loadSync(PROTO_PATH, {
+    keepCase: false,
+    longs: String,
+    defaults: true,
+    arrays: true,
+  });
+  const linkup = (grpc.loadPackageDefinition(definition).linkup as grpc.GrpcObject).v1 as grpc.GrpcObject;
+
+  return {
+    UsersService: linkup.UsersService as grpc.ServiceClientConstructor,
+    MeetingsService: linkup.MeetingsService as grpc.ServiceClientConstructor,
+  };
+}
+
+/**
+ * Whether the call carries the shared service token
+ */
+function hasServiceToken(metadata: grpc.Metadata, serviceToken: string): boolean {
+  const [header] = metadata.get('authorization');
+  if (typeof header !== 'string' || !header.startsWith('Bearer ')) return false;
+
+  const given = Buffer.from(header.substring(7));
+  const expected = Buffer.from(serviceToken);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+/**
+ * Wraps a handler with authentication, a request ID for the logs, and error mapping
+ * @param {string} method - Full method name, for the logs
+ * @param handler - Resolves the response message
+ */
+function unary<Req, Res>(
+  method: string,
+  handler: (request: Req) => Promise<Res>
+): grpc.handleUnaryCall<Req, Res> {
+  return (call, callback) => {
+    const [header] = call.metadata.get('x-request-id');
+    const requestId = typeof header === 'string' && /^[\w.:-]{1,128}$/.test(header) ? header : randomUUID();
+    const start = Date.now();
+
+    runWithRequestContext({ requestId }, async () => {
+      try {
+        const { serviceToken } = getConfig().grpc;
+        if (serviceToken && !hasServiceToken(call.metadata, serviceToken)) {
+          callback({ code: grpc.status.UNAUTHENTICATED, details: 'Invalid or missing service token' });
+          log.warn('gRPC call refused', { method, peer: call.getPeer() });
+          return;
+        }
+
+        callback(null, await handler(call.request));
+        log.info('gRPC call completed', { method, code: 'OK', durationMs: Date.now() - start });
+      } catch (error: any) {
+        const { statusCode, code, message } = mapError(error || {});
+        const grpcStatus = GRPC_STATUS[statusCode] || grpc.status.INTERNAL;
+
+        if (statusCode >= 500) {
+          log.error('Unhandled gRPC error', { method, error });
+        }
+
+        callback({ code: grpcStatus, details: message, metadata: errorMetadata(code) });
+        log.info('gRPC call completed', {
+          method,
+          code: grpc.status[grpcStatus],
+          durationMs: Date.now() - start,
+        });
+      }
+    });
+  };
+}
+
+/**
+ * Error code of the REST API (e.g. USER_NOT_FOUND), sent as `error-code` trailing metadata
+ */
+function errorMetadata(code: string): grpc.Metadata {
+  const metadata = new grpc.Metadata();
+  metadata.set('error-code', code);
+  return metadata;
+}
+
+/**
+ * Builds the gRPC server with the UsersService and MeetingsService
+ * @returns {grpc.Server} Server, not bound to a port yet
+ */
+export function createGrpcServer(): grpc.Server {
+  const { UsersService, MeetingsService } = loadServices();
+  const server = new grpc.Server();
+
+  server.addService(UsersService.service, {
+    GetUser: unary('UsersService/GetUser', getUser),
+    BatchGetUsers: unary('UsersService/BatchGetUsers', batchGetUsers),
+  });
+  server.addService(MeetingsService.service, {
+    GetMeeting: unary('MeetingsService/GetMeeting', getMeeting),
+    IsParticipant: unary('MeetingsService/IsParticipant', isParticipant),
+  });
+
+  return server;
+}
+
+/**
+ * TLS when a certificate is configured, requiring client certificates when a CA is
+ * configured too; plaintext otherwise (private network with the service token only)
+ */
+function serverCredentials({ certFile, keyFile, caFile }: Config['grpc']['tls']): grpc.ServerCredentials {
+  if (!certFile || !keyFile) {
+    return grpc.ServerCredentials.createInsecure();
+  }
+
+  return grpc.ServerCredentials.createSsl(
+    caFile ? readFileSync(caFile) : null,
+    [{ cert_chain: readFileSync(certFile), private_key: readFileSync(keyFile) }],
+    Boolean(caFile)
+  );
+}
+
+/**
+ * Starts the gRPC server on `config.grpc.port`
+ * @param {Config} config - Validated configuration
+ * @returns {Promise<grpc.Server>} The listening server
+ */
+export function startGrpcServer(config: Config): Promise<grpc.Server> {
+  const server = createGrpcServer();
+
+  return new Promise((resolve, reject) => {
+    server.bindAsync(`0.0.0.0:${config.grpc.port}`, serverCredentials(config.grpc.tls), (error, port) => {
+      if (error) return reject(error);
+
+      log.info('LinkUp gRPC API listening', {
+        port,
+        tls: Boolean(config.grpc.tls.certFile),
+        mtls: Boolean(config.grpc.tls.caFile),
+      });
+      resolve(server);
+    });
+  });
+}
+
+/**
+ * Stops accepting calls and waits for the ones in flight, cancelling them once the timeout expires
+ * @param {grpc.Server} server - Listening gRPC server
+ * @param {number} timeoutMs - Maximum wait for calls in flight
+ * @returns {Promise<boolean>} True when every call finished in time
+ */
+export function stopGrpcServer(server: grpc.Server, timeoutMs: number): Promise<boolean> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(() => {
+      server.forceShutdown();
+      resolve(false);
+    }, timeoutMs);
+    timer.unref();
+
+    server.tryShutdown(() => {
+      clearTimeout(timer);
+      resolve(true);
+    });
+  });
+}
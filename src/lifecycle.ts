@@ -0,0 +1,100 @@
+/**
+ * Process lifecycle: graceful shutdown and connection draining
+ * @module Lifecycle
+ */
+import type { Server } from 'http';
+import type { Request, Response, NextFunction } from 'express';
+import { log } from './log';
+import { getConfig } from './config';
+
+const DEFAULT_SHUTDOWN_TIMEOUT_MS = 10 * 1000;
+
+let shuttingDown = false;
+
+/**
+ * Work finished alongside the HTTP drain, resolving true when it completed in time
+ */
+export type ShutdownTask = (timeoutMs: number) => Promise<boolean>;
+
+const shutdownTasks: ShutdownTask[] = [];
+
+/**
+ * Whether a shutdown has started (the server no longer accepts connections)
+ */
+export function isShuttingDown(): boolean {
+  return shuttingDown;
+}
+
+/**
+ * Asks clients to close keep-alive connections once a shutdown has started,
+ * so requests in flight finish and no new request reuses the socket
+ */
+export function drainConnections(_req: Request, res: Response, next: NextFunction): void {
+  if (shuttingDown) {
+    res.set('Connection', 'close');
+  }
+  next();
+}
+
+/**
+ * Stops accepting connections and waits for the requests in flight.
+ * Idle keep-alive sockets are closed right away; the remaining ones are
+ * destroyed once the timeout expires.
+ * @param {Server} server - Listening HTTP server
+ * @param {number} timeoutMs - Maximum wait for requests in flight
+ * @returns {Promise<boolean>} True when every connection drained in time
+ */
+export function shutdown(server: Server, timeoutMs = DEFAULT_SHUTDOWN_TIMEOUT_MS): Promise<boolean> {
+  shuttingDown = true;
+
+  return new Promise((resolve) => {
+    const timer = setTimeout(() => {
+      server.closeAllConnections();
+      resolve(false);
+    }, timeoutMs);
+    timer.unref();
+
+    server.close(() => {
+      clearTimeout(timer);
+      resolve(true);
+    });
+    server.closeIdleConnections();
+  });
+}
+
+/**
+ * Registers work to run on graceful shutdown, e.g. stopping another server
+ * @param {ShutdownTask} task - Called with the shutdown timeout
+ */
+export function onShutdown(task: ShutdownTask): void {
+  shutdownTasks.push(task);
+}
+
+/**
+ * Shuts the server down gracefully on SIGTERM and SIGINT, then exits
+ * @param {Server} server - Listening HTTP server
+ * @param {number} timeoutMs - Maximum wait for requests in flight (SHUTDOWN_TIMEOUT_MS)
+ */
+export function handleShutdownSignals(
+  server: Server,
+  timeoutMs = getConfig().shutdownTimeoutMs
+): void {
+  const onSignal = async (signal: NodeJS.Signals) => {
+    if (shuttingDown) return;
+    log.info('Shutdown signal received, draining connections', { signal });
+
+    const results = await Promise.all([
+      shutdown(server, timeoutMs),
+      ...shutdownTasks.map((task) => task(timeoutMs))
+    ]);
+    const drained = results.every(Boolean);
+    if (!drained) {
+      log.warn('Shutdown timeout, closing remaining connections', { timeoutMs });
+    }
+    log.info('Server stopped');
+    process.exit(drained ? 0 : 1);
+  };
+
+  process.on('SIGTERM', onSignal);
+  process.on('SIGINT', onSignal);
+}
@@ -0,0 +1,155 @@
+/**
+ * Structured JSON logger: one line per entry, with the request ID of the current
+ * request and sensitive values (emails, tokens, passwords) redacted
+ * @module Log
+ */
+import { AsyncLocalStorage } from 'async_hooks';
+import { getConfig } from './config';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+/**
+ * Extra fields of a log entry
+ */
+export type LogFields = Record<string, unknown>;
+
+/**
+ * Context shared by everything running on behalf of one request
+ */
+export interface RequestContext {
+  requestId: string;
+}
+
+const LEVELS: Record<LogLevel | 'silent', number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+  silent: 100
+};
+
+const REDACTED = '[REDACTED]';
+const MAX_DEPTH = 6;
+
+/**
+ * Keys whose values are never logged
+ */
+const SENSITIVE_KEY = /pass(word)?$|token|secret|authorization|cookie|oobcode|^code$|recoverycodes?|privatekey|apikey/i;
+
+/**
+ * Sensitive values found inside strings (messages, URLs, error messages)
+ */
+const EMAIL = /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi;
+const BEARER = /\bBearer\s+[\w.~+/-]+=*/gi;
+const JWT = /\beyJ[\w-]+\.[\w-]+\.[\w-]*/g;
+const SECRET_PARAM = /([?&](?:oobCode|token|idToken|code|apiKey|key)=)[^&\s#]+/gi;
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Runs a function within a request context, so every log line it produces
+ * (including from async continuations) carries the request ID
+ * @param {RequestContext} context - Request context
+ * @param fn - Function to run
+ */
+export function runWithRequestContext<R>(context: RequestContext, fn: () => R): R {
+  return storage.run(context, fn);
+}
+
+/**
+ * Returns the ID of the request being handled, if any
+ */
+export function getRequestId(): string | undefined {
+  return storage.getStore()?.requestId;
+}
+
+/**
+ * Masks emails, bearer tokens, JWTs and secret URL parameters inside a string
+ * @param {string} value - Text to redact
+ */
+export function redactString(value: string): string {
+  return value
+    .replace(EMAIL, REDACTED)
+    .replace(BEARER, `Bearer ${REDACTED}`)
+    .replace(JWT, REDACTED)
+    .replace(SECRET_PARAM, `$1${REDACTED}`);
+}
+
+/**
+ * Returns a copy of a value that is safe to log
+ * @param value - Any value (objects, arrays and errors are walked)
+ */
+export function redact(value: unknown, depth = 0, seen = new WeakSet<object>()): unknown {
+  if (typeof value === 'string') return redactString(value);
+  if (value === null || typeof value !== 'object') return value;
+  if (value instanceof Date) return value.toISOString();
+  if (seen.has(value)) return '[Circular]';
+  if (depth >= MAX_DEPTH) return '[Truncated]';
+  seen.add(value);
+
+  if (value instanceof Error) {
+    const error = value as Error & { code?: unknown; statusCode?: unknown };
+    return {
+      name: error.name,
+      message: redactString(error.message),
+      ...(error.code !== undefined && { code: error.code }),
+      ...(error.statusCode !== undefined && { statusCode: error.statusCode }),
+      ...(error.stack && { stack: redactString(error.stack) })
+    };
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item) => redact(item, depth + 1, seen));
+  }
+
+  const copy: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    copy[key] = SENSITIVE_KEY.test(key) ? REDACTED : redact(item, depth + 1, seen);
+  }
+  return copy;
+}
+
+/**
+ * Minimum level written (LOG_LEVEL: debug, info, warn, error or silent; default info).
+ * Falls back to the raw environment while the configuration is invalid, so its errors can still be logged.
+ */
+function threshold(): number {
+  let level: string;
+  try {
+    level = getConfig().logLevel;
+  } catch {
+    level = (process.env.LOG_LEVEL || 'info').toLowerCase();
+  }
+  return LEVELS[level as LogLevel] ?? LEVELS.info;
+}
+
+function write(level: LogLevel, message: string, fields?: LogFields): void {
+  if (LEVELS[level] < threshold()) return;
+
+  const requestId = getRequestId();
+  const entry = {
+    time: new Date().toISOString(),
+    level,
+    msg: redactString(message),
+    ...(requestId && { requestId }),
+    ...(fields && (redact(fields) as LogFields))
+  };
+
+  const line = `${JSON.stringify(entry)}\n`;
+  if (LEVELS[level] >= LEVELS.warn) {
+    process.stderr.write(line);
+  } else {
+    process.stdout.write(line);
+  }
+}
+
+/**
+ * Application logger
+ * @example log.error('Login error', { error });
+ */
+export const log = {
+  debug: (message: string, fields?: LogFields) => write('debug', message, fields),
+  info: (message: string, fields?: LogFields) => write('info', message, fields),
+  warn: (message: string, fields?: LogFields) => write('warn', message, fields),
+  error: (message: string, fields?: LogFields) => write('error', message, fields)
+};
@@ -0,0 +1,242 @@
+/**
+ * Prometheus metrics: HTTP traffic and latency plus business counters,
+ * exposed in the text exposition format on `/metrics`
+ * @module Metrics
+ */
+
+type Labels = Record<string, string>;
+
+/**
+ * Content type of the Prometheus text exposition format
+ */
+export const METRICS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+/**
+ * Latency buckets in seconds
+ */
+const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabel(value)}"`);
+  return pairs.length ? `{${pairs.join(',')}}` : '';
+}
+
+function formatValue(value: number): string {
+  if (value === Infinity) return '+Inf';
+  return String(value);
+}
+
+/**
+ * A metric family rendered by the registry
+ */
+interface Metric {
+  name: string;
+  render(): string[];
+}
+
+const registry: Metric[] = [];
+
+/**
+ * Base of labelled metrics: one series per distinct label set
+ */
+abstract class LabelledMetric<S> implements Metric {
+  protected series = new Map<string, { labels: Labels; state: S }>();
+
+  constructor(readonly name: string, readonly help: string, readonly labelNames: readonly string[] = []) {
+    registry.push(this);
+  }
+
+  protected abstract initial(): S;
+
+  protected abstract renderSeries(labels: Labels, state: S): string[];
+
+  protected abstract get type(): string;
+
+  /**
+   * Returns the state of a label set, creating it on first use
+   */
+  protected get(labels: Labels = {}): S {
+    const normalized: Labels = {};
+    for (const labelName of this.labelNames) {
+      normalized[labelName] = String(labels[labelName] ?? '');
+    }
+
+    const key = JSON.stringify(normalized);
+    let entry = this.series.get(key);
+    if (!entry) {
+      entry = { labels: normalized, state: this.initial() };
+      this.series.set(key, entry);
+    }
+    return entry.state;
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} ${this.type}`];
+    for (const { labels, state } of this.series.values()) {
+      lines.push(...this.renderSeries(labels, state));
+    }
+    return lines;
+  }
+}
+
+/**
+ * Monotonic counter
+ * @class
+ */
+export class Counter extends LabelledMetric<{ value: number }> {
+  constructor(name: string, help: string, labelNames: readonly string[] = []) {
+    super(name, help, labelNames);
+    // Counters without labels are exported at zero from the start
+    if (!labelNames.length) this.get();
+  }
+
+  protected get type() {
+    return 'counter';
+  }
+
+  protected initial() {
+    return { value: 0 };
+  }
+
+  protected renderSeries(labels: Labels, state: { value: number }) {
+    return [`${this.name}${formatLabels(labels)} ${formatValue(state.value)}`];
+  }
+
+  /**
+   * Increments the counter of a label set
+   * @param {Labels} labels - Label values
+   * @param {number} value - Increment (default 1)
+   */
+  inc(labels: Labels = {}, value = 1): void {
+    this.get(labels).value += value;
+  }
+}
+
+interface HistogramState {
+  counts: number[];
+  sum: number;
+  count: number;
+}
+
+/**
+ * Histogram with cumulative buckets
+ * @class
+ */
+export class Histogram extends LabelledMetric<HistogramState> {
+  private buckets: number[];
+
+  constructor(name: string, help: string, labelNames: readonly string[] = [], buckets = DEFAULT_BUCKETS) {
+    super(name, help, labelNames);
+    this.buckets = [...buckets].sort((a, b) => a - b);
+  }
+
+  protected get type() {
+    return 'histogram';
+  }
+
+  protected initial(): HistogramState {
+    return { counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+  }
+
+  protected renderSeries(labels: Labels, state: HistogramState) {
+    const lines = this.buckets.map((bound, index) =>
+      `${this.name}_bucket${formatLabels({ ...labels, le: formatValue(bound) })} ${state.counts[index]}`
+    );
+    lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${state.count}`);
+    lines.push(`${this.name}_sum${formatLabels(labels)} ${state.sum}`);
+    lines.push(`${this.name}_count${formatLabels(labels)} ${state.count}`);
+    return lines;
+  }
+
+  /**
+   * Records an observation for a label set
+   * @param {Labels} labels - Label values
+   * @param {number} value - Observed value
+   */
+  observe(labels: Labels, value: number): void {
+    const state = this.get(labels);
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) state.counts[index] += 1;
+    });
+    state.sum += value;
+    state.count += 1;
+  }
+}
+
+/**
+ * HTTP METRICS
+ * `route` is the route template (e.g. `/api/users/:uid`), `unmatched` for unknown paths
+ */
+export const httpRequestsTotal = new Counter(
+  'http_requests_total',
+  'HTTP requests handled',
+  ['method', 'route', 'status']
+);
+
+export const httpRequestDuration = new Histogram(
+  'http_request_duration_seconds',
+  'HTTP request latency in seconds',
+  ['method', 'route', 'status']
+);
+
+/**
+ * BUSINESS METRICS
+ */
+export const registrationsTotal = new Counter(
+  'linkup_registrations_total',
+  'Accounts created, by sign-in provider',
+  ['provider']
+);
+
+export const loginFailuresTotal = new Counter(
+  'linkup_login_failures_total',
+  'Failed sign-in attempts, by error code',
+  ['reason']
+);
+
+export const meetingsCreatedTotal = new Counter(
+  'linkup_meetings_created_total',
+  'Meetings created'
+);
+
+export const meetingJoinsTotal = new Counter(
+  'linkup_meeting_joins_total',
+  'Users added as participants of a meeting'
+);
+
+/**
+ * Records a handled HTTP request
+ * @param {string} method - HTTP method
+ * @param {string} route - Route template
+ * @param {number} status - Response status code
+ * @param {number} durationSeconds - Time to the response, in seconds
+ */
+export function recordHttpRequest(method: string, route: string, status: number, durationSeconds: number): void {
+  const labels = { method, route, status: String(status) };
+  httpRequestsTotal.inc(labels);
+  httpRequestDuration.observe(labels, durationSeconds);
+}
+
+/**
+ * Renders every metric in the Prometheus text format
+ */
+export function renderMetrics(): string {
+  const lines: string[] = [
+    '# HELP process_uptime_seconds Time since the process started',
+    '# TYPE process_uptime_seconds gauge',
+    `process_uptime_seconds ${process.uptime()}`,
+    '# HELP process_resident_memory_bytes Resident memory size in bytes',
+    '# TYPE process_resident_memory_bytes gauge',
+    `process_resident_memory_bytes ${process.memoryUsage().rss}`
+  ];
+
+  for (const metric of registry) {
+    lines.push(...metric.render());
+  }
+
+  return `${lines.join('\n')}\n`;
+}
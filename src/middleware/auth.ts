@@ -1,88 +1,164 @@
 /**
- * Authentication middleware for verifying Firebase ID tokens
+ * Authentication middleware for verifying Firebase ID tokens and session cookies
  * @module AuthMiddleware
  */
-import { Request, Response, NextFunction } from 'express';
-import { auth } from '../config/firebase';
-import rateLimit from 'express-rate-limit';
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { getAuthService } from '../services/authService';
+import { hasValidCsrfToken } from './csrf';
+import { isSessionActive } from '../services/sessions';
+import { satisfiesTwoFactor } from '../services/twoFactor';
+import { AuthUser, rolesFromClaims } from '../services/roles';
+import { ForbiddenError, HttpError, UnauthorizedError } from '../errors';
+import { log } from '../log';
 
 /**
- * Extended Request interface to include UID
+ * Name of the httpOnly session cookie set by POST /api/auth/session
+ */
+export const SESSION_COOKIE_NAME = '__session';
+
+/**
+ * Extended Request interface to include UID and roles
  */
 interface AuthenticatedRequest extends Request {
   uid?: string;
+  user?: AuthUser;
+  authTime?: number;
+  emailVerified?: boolean;
+  sessionId?: string;
 }
 
 /**
- * Verifies Firebase ID token from Authorization header
- * @param req - Express request object
- * @param res - Express response object  
- * @param next - Express next function
+ * Options for verifyIdToken
  */
-async function verifyIdToken(
-  req: AuthenticatedRequest, 
-  res: Response, 
-  next: NextFunction
-): Promise<void> {
-  try {
-    const authHeader = req.headers.authorization;
-    
-    if (!authHeader) {
-      res.status(401).json({ 
-        success: false,
-        error: 'Authorization header is required' 
-      });
-      return;
-    }
+interface VerifyIdTokenOptions {
+  /**
+   * Refuse accounts whose email is not verified (403 EMAIL_NOT_VERIFIED).
+   * A function is called on each request, e.g. to follow the configuration.
+   */
+  requireVerifiedEmail?: boolean | (() => boolean);
+}
+
+/**
+ * Builds the token verification middleware for the given options
+ * @param options - Verification options
+ */
+function createTokenVerifier(options: VerifyIdTokenOptions = {}) {
+  return async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const authHeader = req.headers.authorization;
+      const sessionCookie: string | undefined = req.cookies?.[SESSION_COOKIE_NAME];
+      let decodedToken;
+
+      if (!authHeader && sessionCookie) {
+        // Cookies are sent by the browser automatically, so unsafe methods need a CSRF token
+        if (!hasValidCsrfToken(req)) {
+          throw new ForbiddenError('Invalid or missing CSRF token', 'CSRF_TOKEN_INVALID');
+        }
+
+        decodedToken = await getAuthService().verifySessionCookie(sessionCookie, true);
+      } else {
+        if (!authHeader) {
+          throw new UnauthorizedError('Authorization header or session cookie is required');
+        }
+
+        if (!authHeader.startsWith('Bearer ')) {
+          throw new UnauthorizedError('Authorization header must start with Bearer');
+        }
+
+        const token = authHeader.substring(7);
+        
+        if (!token) {
+          throw new UnauthorizedError('Token is required');
+        }
+
+        // Verify the Firebase ID token, refusing tokens revoked by a sign-out
+        decodedToken = await getAuthService().verifyIdToken(token, true);
+      }
 
-    if (!authHeader.startsWith('Bearer ')) {
-      res.status(401).json({ 
-        success: false,
-        error: 'Authorization header must start with Bearer' 
-      });
+      req.uid = decodedToken.uid;
+      req.user = {
+        uid: decodedToken.uid,
+        roles: rolesFromClaims(decodedToken),
+        impersonatedBy: decodedToken.impersonatedBy
+      };
+      req.authTime = decodedToken.auth_time;
+      req.emailVerified = decodedToken.email_verified === true;
+      req.sessionId = decodedToken.sid;
+
+      // Sessions can be revoked one by one (see services/sessions)
+      if (req.sessionId && !(await isSessionActive(req.uid, req.sessionId))) {
+        throw new UnauthorizedError('Session has been revoked', 'TOKEN_REVOKED');
+      }
+
+      // Impersonation tokens come from an admin, every other token must have passed two-factor
+      if (!req.user.impersonatedBy && !(await satisfiesTwoFactor(decodedToken))) {
+        throw new UnauthorizedError('Two-factor verification required', 'TWO_FACTOR_REQUIRED');
+      }
+
+      // Impersonation tokens (admin API) are read-only and short-lived
+      if (req.user.impersonatedBy) {
+        const expired = Date.now() > (decodedToken.impersonationExpiresAt || 0);
+        const readOnly = ['GET', 'HEAD', 'OPTIONS'].includes(req.method);
+
+        if (expired || !readOnly) {
+          throw new ForbiddenError(
+            expired ? 'Impersonation has expired' : 'Impersonation is read-only',
+            'IMPERSONATION_READ_ONLY'
+          );
+        }
+      }
+    } catch (error: any) {
+      if (error instanceof HttpError) {
+        next(error);
+        return;
+      }
+
+      log.warn('Token verification error', { error });
+
+      if (error.code === 'auth/id-token-revoked' || error.code === 'auth/session-cookie-revoked') {
+        next(new UnauthorizedError('Session has been revoked', 'TOKEN_REVOKED'));
+        return;
+      }
+      
+      next(new UnauthorizedError('Invalid or expired token', 'INVALID_TOKEN'));
       return;
     }
 
-    const token = authHeader.substring(7);
-    
-    if (!token) {
-      res.status(401).json({ 
-        success: false,
-        error: 'Token is required' 
-      });
+    const { requireVerifiedEmail } = options;
+    const verifiedEmailRequired =
+      typeof requireVerifiedEmail === 'function' ? requireVerifiedEmail() : requireVerifiedEmail;
+
+    if (verifiedEmailRequired && !req.emailVerified) {
+      next(new ForbiddenError('Please verify your email address first', 'EMAIL_NOT_VERIFIED'));
       return;
     }
 
-    // Verify the Firebase ID token
-    const decodedToken = await auth.verifyIdToken(token);
-    req.uid = decodedToken.uid;
-    
     next();
-  } catch (error: any) {
-    console.error('Token verification error:', error);
-    
-    res.status(401).json({ 
-      success: false,
-      error: 'Invalid or expired token' 
-    });
-  }
+  };
 }
 
-const rateLimiter = rateLimit({
-    windowMs: 5 * 60 * 1000, // 5 minutos
-    max: 5, // More restrictive in production
-    message: {
-      success: false,
-      message: "Too many requests. Please try again later."
-    },
-    standardHeaders: true,
-    legacyHeaders: false,
-    // Use the default generator that handles IPv6 correctly
-    skip: (req: Request) => {
-      // Skip rate limiting in development with environment variable
-      return process.env.NODE_ENV === 'development';
-    }
-  });
+const defaultTokenVerifier = createTokenVerifier();
 
+/**
+ * Verifies the Firebase ID token from the Authorization header, or the session
+ * cookie (with CSRF check) when no header is sent.
+ * Use it directly as middleware, or call it with options to get a configured one:
+ * `verifyIdToken({ requireVerifiedEmail: true })`
+ * @param req - Express request object, or verification options
+ * @param res - Express response object  
+ * @param next - Express next function
+ */
+function verifyIdToken(options: VerifyIdTokenOptions): RequestHandler;
+function verifyIdToken(req: Request, res: Response, next: NextFunction): Promise<void>;
+function verifyIdToken(
+  reqOrOptions: Request | VerifyIdTokenOptions,
+  res?: Response,
+  next?: NextFunction
+): RequestHandler | Promise<void> {
+  if (!res) {
+    return createTokenVerifier(reqOrOptions as VerifyIdTokenOptions);
+  }
+  return defaultTokenVerifier(reqOrOptions as Request, res, next);
+}
 
-export { rateLimiter, verifyIdToken };
\ No newline at end of file
+export { verifyIdToken };
\ No newline at end of file
@@ -0,0 +1,72 @@
+/**
+ * CSRF protection for cookie-authenticated requests (double-submit cookie)
+ * @module CsrfMiddleware
+ */
+import { randomBytes, timingSafeEqual } from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import { ForbiddenError } from '../errors';
+import { getConfig } from '../config';
+
+export const CSRF_COOKIE_NAME = 'csrfToken';
+export const CSRF_HEADER_NAME = 'X-CSRF-Token';
+
+const SAFE_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+/**
+ * Cookie options shared by the session and CSRF cookies.
+ * The frontend is on another site in production, so cookies must be SameSite=None; Secure.
+ */
+export function crossSiteCookieOptions() {
+  const production = getConfig().env === 'production';
+  return {
+    secure: production,
+    sameSite: production ? ('none' as const) : ('lax' as const),
+    path: '/'
+  };
+}
+
+/**
+ * Generates a CSRF token and sets it as a readable cookie
+ * @param res - Express response object
+ * @returns {string} The new token
+ */
+export function issueCsrfToken(res: Response): string {
+  const token = randomBytes(32).toString('hex');
+  res.cookie(CSRF_COOKIE_NAME, token, { ...crossSiteCookieOptions(), httpOnly: false });
+  return token;
+}
+
+/**
+ * Checks that the CSRF header matches the CSRF cookie.
+ * Safe methods (GET, HEAD, OPTIONS) are always accepted.
+ * @param req - Express request object
+ */
+export function hasValidCsrfToken(req: Request): boolean {
+  if (SAFE_METHODS.includes(req.method)) return true;
+
+  const cookieToken: unknown = req.cookies?.[CSRF_COOKIE_NAME];
+  const headerToken = req.get(CSRF_HEADER_NAME);
+
+  if (typeof cookieToken !== 'string' || !cookieToken || !headerToken) {
+    return false;
+  }
+
+  // Compared as bytes: non-ASCII values of the same string length differ in byte length
+  const given = Buffer.from(headerToken);
+  const expected = Buffer.from(cookieToken);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+/**
+ * Middleware that rejects unsafe requests without a matching CSRF token
+ * @param req - Express request object
+ * @param res - Express response object
+ * @param next - Express next function
+ */
+export function csrfProtection(req: Request, res: Response, next: NextFunction): void {
+  if (!hasValidCsrfToken(req)) {
+    next(new ForbiddenError('Invalid or missing CSRF token', 'CSRF_TOKEN_INVALID'));
+    return;
+  }
+  next();
+}
@@ -1,95 +1,145 @@
 import type { Request, Response, NextFunction } from "express";
+import { log } from "../log";
+import { getConfig } from "../config";
+import { HttpError } from "../errors";
 
 /**
- * Standardized error interface
+ * Error envelope of every API error
  */
-export interface AppError extends Error {
-  statusCode?: number;
-  code?: string | number;
-  details?: string;
+export interface ErrorBody {
+  success: false;
+  /** Human readable message */
+  error: string;
+  /** Stable, machine-readable code */
+  code: string;
+  details?: unknown;
+}
+
+export interface MappedError {
+  statusCode: number;
+  code: string;
+  message: string;
 }
 
 /**
- * Global Error Handler Middleware
+ * FIREBASE AUTH ERRORS (Admin SDK codes)
  */
-export function errorHandler(
-  err: AppError,
-  req: Request,
-  res: Response,
-  next: NextFunction
-): void {
-  
-  // Normalize error object
-  const error: AppError = {
-    name: err.name || "InternalError",
-    message: err.message || "Internal server error",
-    statusCode: err.statusCode || 500,
-    code: err.code,
-    stack: err.stack,
-    details: err.details,
-  };
+const FIREBASE_AUTH_ERRORS: Record<string, MappedError> = {
+  "auth/user-not-found": { statusCode: 404, code: "USER_NOT_FOUND", message: "User not found" },
+  "auth/email-already-exists": { statusCode: 409, code: "EMAIL_IN_USE", message: "Email already in use" },
+  "auth/uid-already-exists": { statusCode: 409, code: "CONFLICT", message: "User already exists" },
+  "auth/invalid-email": { statusCode: 400, code: "INVALID_EMAIL", message: "Email format is invalid" },
+  "auth/invalid-password": { statusCode: 400, code: "WEAK_PASSWORD", message: "Password is too weak" },
+  "auth/user-disabled": { statusCode: 403, code: "ACCOUNT_DISABLED", message: "This account has been disabled" },
+  "auth/id-token-expired": { statusCode: 401, code: "TOKEN_EXPIRED", message: "Token expired" },
+  "auth/session-cookie-expired": { statusCode: 401, code: "TOKEN_EXPIRED", message: "Token expired" },
+  "auth/id-token-revoked": { statusCode: 401, code: "TOKEN_REVOKED", message: "Session has been revoked" },
+  "auth/session-cookie-revoked": { statusCode: 401, code: "TOKEN_REVOKED", message: "Session has been revoked" },
+};
 
+/**
+ * FIRESTORE ERRORS (gRPC status codes)
+ */
+const FIRESTORE_ERRORS: Record<number, MappedError> = {
+  5: { statusCode: 404, code: "NOT_FOUND", message: "Not found" },
+  6: { statusCode: 409, code: "CONFLICT", message: "Already exists" },
+  10: { statusCode: 409, code: "CONFLICT", message: "Concurrent update, please retry" },
+  14: { statusCode: 503, code: "SERVICE_UNAVAILABLE", message: "Database unavailable, please retry" },
+};
+
+/**
+ * Maps any thrown value to a status, code and message (also used by the gRPC API)
+ * @param err - Error passed to `next`
+ */
+export function mapError(err: any): MappedError {
   /**
-   *  FIREBASE AUTH ERRORS
+   * APP ERRORS (HttpError and its subclasses): status and code are set by the thrower
    */
-  if (err.code?.toString().startsWith("auth/")) {
-    error.statusCode = 401;
-    error.message = "Authentication failed";
-    error.name = "FirebaseAuthError";
+  if (err instanceof HttpError) {
+    return { statusCode: err.statusCode, code: err.code, message: err.message };
   }
 
-  /**
-   * FIRESTORE ERRORS
-   */
-  if (err.code?.toString().startsWith("firestore/")) {
-    error.statusCode = 500;
-    error.message = "Firestore database error";
-    error.name = "FirestoreError";
+  if (typeof err.code === "string" && err.code.startsWith("auth/")) {
+    return (
+      FIREBASE_AUTH_ERRORS[err.code] || {
+        statusCode: 401,
+        code: "AUTHENTICATION_FAILED",
+        message: "Authentication failed",
+      }
+    );
+  }
+
+  if (typeof err.code === "number" && FIRESTORE_ERRORS[err.code]) {
+    return FIRESTORE_ERRORS[err.code];
   }
 
   /**
    * JWT ERRORS
    */
   if (err.name === "JsonWebTokenError") {
-    error.statusCode = 401;
-    error.message = "Invalid token";
+    return { statusCode: 401, code: "INVALID_TOKEN", message: "Invalid token" };
   }
 
   if (err.name === "TokenExpiredError") {
-    error.statusCode = 401;
-    error.message = "Token expired";
+    return { statusCode: 401, code: "TOKEN_EXPIRED", message: "Token expired" };
   }
 
   /**
-   * JSON PARSE ERRORS
+   * JSON BODY ERRORS (body-parser)
    */
-  if (err instanceof SyntaxError && "body" in err) {
-    error.statusCode = 400;
-    error.message = "Invalid JSON body";
+  if (err.type === "entity.parse.failed") {
+    return { statusCode: 400, code: "INVALID_JSON", message: "Invalid JSON body" };
+  }
+
+  if (err.type === "entity.too.large") {
+    return { statusCode: 413, code: "PAYLOAD_TOO_LARGE", message: "Request body is too large" };
   }
 
   /**
    *  RATE LIMIT ERRORS
    */
   if (err.name === "RateLimitError") {
-    error.statusCode = 429;
-    error.message = "Too many requests";
+    return { statusCode: 429, code: "RATE_LIMITED", message: "Too many requests" };
   }
 
   /**
    *  DEFAULT FALLBACK
    */
-  const status = error.statusCode;
+  return { statusCode: 500, code: "INTERNAL_ERROR", message: "Internal server error" };
+}
 
-  res.status(status).json({
+/**
+ * Global Error Handler Middleware.
+ * Every error answers with the same envelope: `{ success: false, error, code, details? }`.
+ */
+export function errorHandler(
+  err: any,
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void {
+  if (res.headersSent) {
+    next(err);
+    return;
+  }
+
+  const { statusCode, code, message } = mapError(err || {});
+
+  if (statusCode >= 500) {
+    log.error("Unhandled error", { method: req.method, path: req.originalUrl, error: err });
+  }
+
+  const body: ErrorBody = {
     success: false,
-    error: {
-      message: error.message,
-      code: error.code,
-      name: error.name,
-    },
-    ...(process.env.NODE_ENV === "development" && {
-      stack: err.stack,
+    error: message,
+    code,
+    ...(err instanceof HttpError && err.details !== undefined && statusCode < 500 && { details: err.details }),
+  };
+
+  res.status(statusCode).json({
+    ...body,
+    ...(getConfig().env === "development" && {
+      stack: err?.stack,
       timestamp: new Date().toISOString(),
       path: req.originalUrl,
       method: req.method,
@@ -0,0 +1,124 @@
+/**
+ * Idempotency-Key support: a retried POST, PUT or DELETE replays the first
+ * response instead of running again (e.g. creating a second meeting)
+ * @module IdempotencyMiddleware
+ */
+import { AsyncResource } from 'async_hooks';
+import { createHash } from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import { BadRequestError } from '../errors';
+import { log } from '../log';
+import { canonicalJson } from '../services/etag';
+import {
+  claimIdempotencyKey,
+  completeIdempotencyKey,
+  releaseIdempotencyKey
+} from '../services/idempotency';
+
+export const IDEMPOTENCY_HEADER_NAME = 'Idempotency-Key';
+
+/**
+ * Set on replayed responses
+ */
+export const IDEMPOTENT_REPLAYED_HEADER_NAME = 'Idempotent-Replayed';
+
+/**
+ * Response headers stored with the body, so a replay is the same response
+ */
+const REPLAYED_HEADERS = ['ETag', 'Location'];
+
+const UNSAFE_METHODS = ['POST', 'PUT', 'DELETE'];
+const KEY_FORMAT = /^[\x21-\x7e]{1,255}$/;
+
+/**
+ * Hash of what makes two requests the same: method, path and body
+ */
+function fingerprint(req: Request): string {
+  return createHash('sha256')
+    .update(`${req.method} ${req.baseUrl}${req.path}\n${canonicalJson(req.body ?? {})}`)
+    .digest('hex');
+}
+
+/**
+ * Caller the keys belong to: the signed-in user, or on public routes the client address,
+ * so anonymous clients that pick the same key do not collide
+ */
+function scopeOf(req: Request): string {
+  const uid = (req as any).uid as string | undefined;
+  return uid || `anonymous:${req.ip || ''}`;
+}
+
+/**
+ * Values of the replayed headers set on the response
+ */
+function replayedHeaders(res: Response): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const name of REPLAYED_HEADERS) {
+    const value = res.getHeader(name);
+    if (value !== undefined) headers[name] = String(value);
+  }
+  return headers;
+}
+
+/**
+ * Replays the stored response when the Idempotency-Key was already used by the caller.
+ * Mount it after authentication: keys are scoped to the user (the client IP on public routes).
+ * Only successful responses are stored; after an error the key can be retried.
+ * @param req - Express request object
+ * @param res - Express response object
+ * @param next - Express next function
+ */
+export async function idempotency(req: Request, res: Response, next: NextFunction): Promise<void> {
+  const key = req.get(IDEMPOTENCY_HEADER_NAME);
+
+  if (key === undefined || !UNSAFE_METHODS.includes(req.method)) {
+    next();
+    return;
+  }
+
+  try {
+    if (!KEY_FORMAT.test(key)) {
+      throw new BadRequestError(
+        `${IDEMPOTENCY_HEADER_NAME} must be 1 to 255 printable characters`,
+        'INVALID_IDEMPOTENCY_KEY'
+      );
+    }
+
+    const scope = scopeOf(req);
+    const stored = await claimIdempotencyKey(scope, key, fingerprint(req));
+
+    if (stored) {
+      res.set(stored.headers ?? {});
+      res.set(IDEMPOTENT_REPLAYED_HEADER_NAME, 'true');
+      res.status(stored.statusCode).json(stored.body);
+      return;
+    }
+
+    // Keep the body sent by the handler, and store it once the response is out
+    let body: unknown;
+    const json = res.json.bind(res);
+    res.json = (value: unknown) => {
+      body = value;
+      return json(value);
+    };
+
+    // Bound, so the record is written with the storage of the app handling the request
+    res.on('finish', AsyncResource.bind(() => {
+      const done = res.statusCode < 300
+        ? completeIdempotencyKey(scope, key, {
+          statusCode: res.statusCode,
+          body: body ?? null,
+          headers: replayedHeaders(res)
+        })
+        : releaseIdempotencyKey(scope, key);
+
+      done.catch((error) => {
+        log.warn('Failed to store idempotent response', { path: req.originalUrl, error });
+      });
+    }));
+
+    next();
+  } catch (error: any) {
+    next(error);
+  }
+}
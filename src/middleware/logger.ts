@@ -1,40 +1,82 @@
+import { randomUUID } from "crypto";
 import { NextFunction, Request, Response } from "express";
+import { log, runWithRequestContext } from "../log";
+import { recordHttpRequest } from "../metrics";
 
 /**
- * Express middleware for logging incoming requests and responses.
+ * Header carrying the request ID, accepted from the client or a proxy and echoed back
+ */
+export const REQUEST_ID_HEADER = "X-Request-Id";
+
+/**
+ * Propagated IDs are kept only when short and made of safe characters
+ */
+const VALID_REQUEST_ID = /^[\w.:-]{1,128}$/;
+
+/**
+ * Records the template of the route handling a request (e.g. `/api/users/:uid`).
+ * Express sets `req.route` when a route matches, while `req.baseUrl` still holds the
+ * router mount path; both are read at that moment since `baseUrl` is reset when an
+ * error leaves the router.
+ * @returns Getter of the template, `unmatched` when no route handled the request
+ */
+function captureRouteTemplate(req: Request): () => string {
+    let template = "unmatched";
+    let route: any;
+
+    Object.defineProperty(req, "route", {
+        configurable: true,
+        enumerable: true,
+        get: () => route,
+        set: (value) => {
+            route = value;
+            if (value?.path) template = value.path === "/" && req.baseUrl ? req.baseUrl : `${req.baseUrl}${value.path}`;
+        },
+    });
+
+    return () => template;
+}
+
+/**
+ * Express middleware assigning a request ID, logging each response and
+ * recording request metrics.
  *
- * Provides detailed logs including method, URL, IP, User-Agent, Origin, and execution time.
- * Useful for debugging, especially in mobile environments.
+ * The ID is propagated from `X-Request-Id` (or generated), returned in the same header,
+ * exposed as `req.requestId` and carried through async context, so every log line
+ * written while handling the request includes it.
  * @function logger
  * @param {import("express").Request} req - Express request object.
  * @param {import("express").Response} res - Express response object.
  * @param {import("express").NextFunction} next - Callback to pass control to the next middleware.
  */
 const logger = (req: Request, res: Response, next: NextFunction) => {
-    const start = Date.now();
-
-    // Detailed log for debugging (mobile-friendly)
-    console.log("\nLOGS:")
-    console.log(`📥 ${req.method} ${req.originalUrl}`);
-    console.log(`   IP: ${req.ip}`);
-    console.log(`   User-Agent: ${req.get('User-Agent')?.substring(0, 100)}...`);
-    console.log(`   Origin: ${req.get('Origin') || 'No origin'}`);
-    console.log(`   Time: ${new Date().toISOString()}`);
-
-    const originalEnd = res.end;
-    res.end = function(chunk?: any, encoding?: BufferEncoding | (() => void), cb?: () => void): Response {
-        const duration = Date.now() - start;
-        const statusColor = res.statusCode >= 400 ? '❌' : '✅';
-
-        console.log(`${statusColor} ${req.method} ${req.originalUrl} - ${res.statusCode} - ${duration}ms`);
-
-        if (typeof encoding === 'function') {
-            return originalEnd.call(this, chunk, encoding as any) as any;
-        }
-        return originalEnd.call(this, chunk, encoding as any, cb) as any;
-    };
-
-    next();
+    const start = process.hrtime.bigint();
+    const incomingId = req.get(REQUEST_ID_HEADER);
+    const requestId = incomingId && VALID_REQUEST_ID.test(incomingId) ? incomingId : randomUUID();
+
+    (req as any).requestId = requestId;
+    res.set(REQUEST_ID_HEADER, requestId);
+    const routeTemplate = captureRouteTemplate(req);
+
+    res.on("finish", () => {
+        const durationMs = Number(process.hrtime.bigint() - start) / 1e6;
+        recordHttpRequest(req.method, routeTemplate(), res.statusCode, durationMs / 1000);
+
+        const level = res.statusCode >= 500 ? "error" : res.statusCode >= 400 ? "warn" : "info";
+
+        log[level]("Request completed", {
+            requestId,
+            method: req.method,
+            path: req.originalUrl,
+            status: res.statusCode,
+            durationMs: Math.round(durationMs * 10) / 10,
+            ip: req.ip,
+            userAgent: req.get("User-Agent"),
+            uid: (req as any).uid,
+        });
+    });
+
+    runWithRequestContext({ requestId }, next);
 };
 
 export default logger;
@@ -0,0 +1,44 @@
+/**
+ * Access control of the Prometheus endpoint (bearer token shared with the scraper)
+ * @module MetricsAuthMiddleware
+ */
+import { timingSafeEqual } from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import { NotFoundError, UnauthorizedError } from '../errors';
+import { getConfig } from '../config';
+
+/**
+ * Whether the request carries the metrics token as `Authorization: Bearer <token>`
+ * @param req - Express request object
+ * @param {string} token - Expected token
+ */
+function hasMetricsToken(req: Request, token: string): boolean {
+  const header = req.get('Authorization');
+  if (!header?.startsWith('Bearer ')) return false;
+
+  const given = Buffer.from(header.substring(7));
+  const expected = Buffer.from(token);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+/**
+ * Serves the metrics only to callers sending METRICS_TOKEN; without it, the endpoint
+ * answers 404 as if it did not exist
+ * @param req - Express request object
+ * @param res - Express response object
+ * @param next - Express next function
+ */
+export function requireMetricsToken(req: Request, res: Response, next: NextFunction): void {
+  const { metricsToken } = getConfig();
+
+  if (!metricsToken) {
+    next(new NotFoundError('Metrics are disabled (METRICS_TOKEN is not set)', 'METRICS_DISABLED'));
+    return;
+  }
+  if (!hasMetricsToken(req, metricsToken)) {
+    res.set('WWW-Authenticate', 'Bearer realm="metrics"');
+    next(new UnauthorizedError('Invalid or missing metrics token', 'INVALID_METRICS_TOKEN'));
+    return;
+  }
+  next();
+}
@@ -0,0 +1,144 @@
+/**
+ * Per-IP rate limiting policies with a pluggable store
+ * @module RateLimitMiddleware
+ */
+import { Request, RequestHandler } from 'express';
+import rateLimit, { Store, Options, IncrementResponse, ClientRateLimitInfo } from 'express-rate-limit';
+import { baseDAO } from '../dao/baseDAO';
+import { TooManyRequestsError } from '../errors';
+import { getConfig, RateLimitPolicy, RateLimitPolicyName } from '../config';
+
+export type { RateLimitPolicy, RateLimitPolicyName } from '../config';
+
+/**
+ * Resolves a policy (defaults overridden by RATE_LIMIT_<NAME>_MAX and RATE_LIMIT_<NAME>_WINDOW_MS)
+ * @param {RateLimitPolicyName} name - Policy name
+ */
+export function getRateLimitPolicy(name: RateLimitPolicyName): RateLimitPolicy {
+  return getConfig().rateLimit.policies[name];
+}
+
+/**
+ * Counter of one client, stored by RepositoryRateLimitStore
+ */
+interface RateLimitRecord {
+  totalHits: number;
+  resetTime: number;
+}
+
+/**
+ * express-rate-limit store backed by the repositories (Firestore unless replaced, e.g. with
+ * createApp({ repositories })), so limits are shared by every instance
+ */
+export class RepositoryRateLimitStore implements Store {
+  localKeys = false;
+  prefix: string;
+  private windowMs = 60 * 1000;
+  private dao: baseDAO<RateLimitRecord>;
+
+  constructor(prefix: string, collection = 'rateLimits') {
+    this.prefix = prefix;
+    this.dao = new baseDAO<RateLimitRecord>(collection);
+  }
+
+  init(options: Options): void {
+    this.windowMs = options.windowMs;
+  }
+
+  private id(key: string) {
+    // Firestore IDs cannot contain "/" (IPv6 addresses are fine, but keep it safe)
+    return `${this.prefix}${key}`.replace(/\//g, '_');
+  }
+
+  async get(key: string): Promise<ClientRateLimitInfo | undefined> {
+    const data = await this.dao.getOne(this.id(key));
+    if (!data || data.resetTime < Date.now()) return undefined;
+    return { totalHits: data.totalHits, resetTime: new Date(data.resetTime) };
+  }
+
+  increment(key: string): Promise<IncrementResponse> {
+    const id = this.id(key);
+
+    return this.dao.runTransaction(async (tx) => {
+      const now = Date.now();
+      const data = await tx.get(id);
+
+      const expired = !data || data.resetTime < now;
+      const totalHits = expired ? 1 : data.totalHits + 1;
+      const resetTime = expired ? now + this.windowMs : data.resetTime;
+
+      tx.set(id, { totalHits, resetTime }, false);
+      return { totalHits, resetTime: new Date(resetTime) };
+    });
+  }
+
+  async decrement(key: string): Promise<void> {
+    const id = this.id(key);
+    await this.dao.runTransaction(async (tx) => {
+      const data = await tx.get(id);
+      if (data && data.totalHits > 0) {
+        tx.update(id, { totalHits: data.totalHits - 1 });
+      }
+    });
+  }
+
+  async resetKey(key: string): Promise<void> {
+    await this.dao.delete(this.id(key));
+  }
+}
+
+/**
+ * Whether limits should be shared through Firestore (RATE_LIMIT_STORE=firestore)
+ */
+export function useFirestoreStore(): boolean {
+  return getConfig().rateLimit.store === 'firestore';
+}
+
+/**
+ * Builds the express-rate-limit middleware for the current settings of a policy
+ * @param {RateLimitPolicyName} name - Policy name
+ * @param {RateLimitPolicy} policy - Limit and window
+ */
+function buildRateLimiter(name: RateLimitPolicyName, policy: RateLimitPolicy): RequestHandler {
+  return rateLimit({
+    windowMs: policy.windowMs,
+    limit: policy.max,
+    // Memory store (the default) when not shared through Firestore
+    ...(useFirestoreStore() && { store: new RepositoryRateLimitStore(`${name}:`) }),
+    handler: (_req, _res, next) => next(new TooManyRequestsError()),
+    standardHeaders: true,
+    legacyHeaders: false,
+    // Built on the first request, on purpose (see createRateLimiter)
+    validate: { creationStack: false },
+    // Only disabled explicitly, never implied by NODE_ENV
+    skip: (_req: Request) => getConfig().features.rateLimitDisabled
+  });
+}
+
+/**
+ * Creates the rate limiter middleware for a policy.
+ * The policy and store are read from the configuration on each request, and the
+ * limiter is rebuilt (with fresh counters) when they change.
+ * @param {RateLimitPolicyName} name - Policy name
+ */
+export function createRateLimiter(name: RateLimitPolicyName): RequestHandler {
+  let limiter: RequestHandler | undefined;
+  let settings = '';
+
+  return (req, res, next) => {
+    const policy = getRateLimitPolicy(name);
+    const current = `${policy.max}/${policy.windowMs}/${getConfig().rateLimit.store}`;
+
+    if (!limiter || current !== settings) {
+      limiter = buildRateLimiter(name, policy);
+      settings = current;
+    }
+    limiter(req, res, next);
+  };
+}
+
+export const registerLimiter = createRateLimiter('register');
+export const loginLimiter = createRateLimiter('login');
+export const passwordResetLimiter = createRateLimiter('passwordReset');
+export const oauthLimiter = createRateLimiter('oauth');
+export const twoFactorLimiter = createRateLimiter('twoFactor');
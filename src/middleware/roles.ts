@@ -0,0 +1,39 @@
+/**
+ * Role and permission guards, to use after verifyIdToken
+ * @module RolesMiddleware
+ */
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { AuthUser, Permission, Role, hasPermission } from '../services/roles';
+import { ForbiddenError } from '../errors';
+
+/**
+ * Allows the request when the user has at least one of the roles
+ * @param roles - Accepted roles
+ */
+export function requireRole(...roles: Role[]): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const user = (req as any).user as AuthUser | undefined;
+
+    if (!user || !user.roles.some((role) => roles.includes(role))) {
+      next(new ForbiddenError('Insufficient role'));
+      return;
+    }
+    next();
+  };
+}
+
+/**
+ * Allows the request when the user has every listed permission
+ * @param permissions - Required permissions
+ */
+export function requirePermission(...permissions: Permission[]): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const user = (req as any).user as AuthUser | undefined;
+
+    if (!permissions.every((permission) => hasPermission(user, permission))) {
+      next(new ForbiddenError('Insufficient permissions'));
+      return;
+    }
+    next();
+  };
+}
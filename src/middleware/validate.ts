@@ -0,0 +1,47 @@
+/**
+ * Request validation against runtime schemas
+ * @module ValidateMiddleware
+ */
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { ZodTypeAny } from 'zod';
+import { ValidationError } from '../errors';
+
+/**
+ * Field-level validation error
+ */
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+/**
+ * Validates (and normalizes) a request part with a schema.
+ * On success the parsed value replaces the original, so handlers get trimmed,
+ * typed data with unknown fields stripped. On failure it answers 400 with
+ * the list of field errors (ValidationError).
+ * @param schema - Zod schema
+ * @param source - Request part to validate
+ */
+export function validate(schema: ZodTypeAny, source: 'body' | 'query' | 'params' = 'body'): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const result = schema.safeParse(req[source] ?? {});
+
+    if (!result.success) {
+      const details: FieldError[] = result.error.issues.map((issue) => ({
+        field: issue.path.join('.'),
+        message: issue.message
+      }));
+
+      next(new ValidationError(details));
+      return;
+    }
+
+    if (source === 'query') {
+      // req.query is a getter in some Express versions, so copy the parsed values in place
+      Object.assign(req.query, result.data);
+    } else {
+      req[source] = result.data;
+    }
+    next();
+  };
+}
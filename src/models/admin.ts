@@ -0,0 +1,41 @@
+/**
+ * Request schemas for admin routes
+ * @module AdminModels
+ */
+import { z } from 'zod';
+import { ROLES } from '../services/roles';
+
+export const SEARCH_FIELDS = ['email', 'firstName', 'lastName'] as const;
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+/**
+ * Query of GET /api/admin/users
+ */
+export const UserSearchQuerySchema = z.object({
+  q: z.string().trim().optional().describe('Prefix to search for'),
+  by: z
+    .enum(SEARCH_FIELDS, { errorMap: () => ({ message: `Search field must be one of: ${SEARCH_FIELDS.join(', ')}` }) })
+    .default('email')
+    .describe('Field to search'),
+  limit: z.coerce
+    .number({ invalid_type_error: 'Limit must be a number' })
+    .int('Limit must be an integer')
+    .min(1, `Limit must be between 1 and ${MAX_PAGE_SIZE}`)
+    .max(MAX_PAGE_SIZE, `Limit must be between 1 and ${MAX_PAGE_SIZE}`)
+    .default(DEFAULT_PAGE_SIZE)
+    .describe('Page size'),
+  cursor: z.string().optional().describe('`nextCursor` from the previous page'),
+});
+export type UserSearchQuery = z.infer<typeof UserSearchQuerySchema>;
+
+/**
+ * Body of PUT /api/admin/users/:uid/roles
+ */
+export const UpdateRolesBodySchema = z.object({
+  roles: z.array(
+    z.enum(ROLES, { errorMap: () => ({ message: `Roles must be a list of: ${ROLES.join(', ')}` }) }),
+    { required_error: 'Roles are required', invalid_type_error: `Roles must be a list of: ${ROLES.join(', ')}` }
+  ),
+});
+export type UpdateRolesBody = z.infer<typeof UpdateRolesBodySchema>;
@@ -0,0 +1,59 @@
+/**
+ * Request schemas for authentication routes
+ * @module AuthModels
+ */
+import { z } from 'zod';
+import { passwordRule, passwordRuleMessage } from '../services/passwordAuth';
+
+const requiredString = (name: string) =>
+  z.string({ required_error: `${name} is required` }).min(1, `${name} is required`);
+
+const newPasswordField = z
+  .string({ required_error: 'New password is required' })
+  .regex(passwordRule, passwordRuleMessage);
+
+export const LoginBodySchema = z.object({
+  email: z.string({ required_error: 'Email is required' }).trim().min(1, 'Email is required'),
+  password: requiredString('Password'),
+});
+export type LoginBody = z.infer<typeof LoginBodySchema>;
+
+export const ForgotPasswordBodySchema = z.object({
+  email: z.string({ required_error: 'Email is required' }).trim().email('A valid email is required'),
+});
+
+export const ResetPasswordBodySchema = z.object({
+  oobCode: requiredString('Reset code'),
+  newPassword: newPasswordField,
+});
+
+export const ChangePasswordBodySchema = z
+  .object({
+    currentPassword: requiredString('Current password'),
+    newPassword: newPasswordField,
+  })
+  .refine((body) => body.currentPassword !== body.newPassword, {
+    message: 'New password must be different from the current one',
+    path: ['newPassword'],
+  });
+
+export const VerifyEmailBodySchema = z.object({
+  oobCode: requiredString('Verification code'),
+});
+
+export const SessionBodySchema = z.object({
+  idToken: requiredString('ID token'),
+});
+
+export const ProviderTokenBodySchema = z.object({
+  token: requiredString('Provider token'),
+});
+
+export const TwoFactorCodeBodySchema = z.object({
+  code: requiredString('Verification code'),
+});
+
+export const TwoFactorVerifyBodySchema = z.object({
+  challengeId: requiredString('Challenge ID'),
+  code: requiredString('Verification code'),
+});
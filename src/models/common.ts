@@ -0,0 +1,24 @@
+/**
+ * Shared schema helpers
+ * @module CommonModels
+ */
+import { z } from 'zod';
+
+/**
+ * Treats empty or blank strings as "not sent", so they never overwrite stored values
+ * @param schema - Schema for the non-empty value
+ */
+export function optionalNonEmpty<T extends z.ZodTypeAny>(schema: T) {
+  return z.preprocess(
+    (value) => (typeof value === 'string' && value.trim() === '' ? undefined : value),
+    schema.optional()
+  );
+}
+
+/**
+ * ISO 8601 date-time string, as stored in `createdAt`/`updatedAt`
+ */
+export const isoDateTime = z
+  .string()
+  .refine((value) => !Number.isNaN(Date.parse(value)), { message: 'Invalid date' })
+  .describe('ISO 8601 date-time');
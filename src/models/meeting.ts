@@ -0,0 +1,52 @@
+/**
+ * Meeting domain model and request schemas
+ * @module MeetingModel
+ */
+import { z } from 'zod';
+import { isoDateTime } from './common';
+
+export const MEETING_STATUSES = ['scheduled', 'live', 'ended', 'cancelled'] as const;
+export type MeetingStatus = (typeof MEETING_STATUSES)[number];
+
+const titleField = z.string().trim().max(200);
+const descriptionField = z.string().trim().max(2000);
+
+/**
+ * Meeting document stored in the `meetings` collection (`id` is the document ID)
+ */
+export const MeetingSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  description: z.string(),
+  scheduledAt: isoDateTime.nullable(),
+  ownerUid: z.string(),
+  status: z.enum(MEETING_STATUSES),
+  participants: z.array(z.string()),
+  isPublic: z.boolean(),
+  createdAt: isoDateTime,
+  updatedAt: isoDateTime,
+});
+export type Meeting = z.infer<typeof MeetingSchema>;
+
+/**
+ * Body of POST /api/meetings
+ */
+export const CreateMeetingBodySchema = z.object({
+  title: titleField.optional(),
+  description: descriptionField.optional(),
+  scheduledAt: isoDateTime.nullable().optional(),
+  isPublic: z.boolean().optional(),
+});
+export type CreateMeetingBody = z.infer<typeof CreateMeetingBodySchema>;
+
+/**
+ * Body of PUT /api/meetings/:id
+ */
+export const UpdateMeetingBodySchema = z.object({
+  title: titleField.optional(),
+  description: descriptionField.optional(),
+  scheduledAt: isoDateTime.nullable().optional(),
+  status: z.enum(MEETING_STATUSES).optional(),
+  isPublic: z.boolean().optional(),
+});
+export type UpdateMeetingBody = z.infer<typeof UpdateMeetingBodySchema>;
@@ -0,0 +1,95 @@
+/**
+ * User domain model and request schemas
+ * @module UserModel
+ */
+import { z } from 'zod';
+import { passwordRule, passwordRuleMessage } from '../services/passwordAuth';
+import { isoDateTime, optionalNonEmpty } from './common';
+
+const emailField = z
+  .string({ required_error: 'Email is required' })
+  .trim()
+  .email('Email format is invalid. Please enter a valid email address.');
+
+const nameField = z.string().trim().max(100);
+
+/**
+ * Age is optional; empty values mean "not provided"
+ */
+const ageField = z.preprocess(
+  (value) => (value === '' || value === null || value === undefined ? null : Number(value)),
+  z
+    .number({ invalid_type_error: 'Age must be a number' })
+    .int('Age must be a whole number')
+    .min(13, 'Age must be at least 13 years old.')
+    .max(120, 'Age is not valid')
+    .nullable()
+);
+
+/**
+ * User document stored in the `users` collection
+ */
+export const UserSchema = z.object({
+  uid: z.string(),
+  firstName: z.string(),
+  lastName: z.string(),
+  age: z.number().int().nullable().optional(),
+  email: z.string().email(),
+  displayName: z.string().optional(),
+  photoURL: z.string().nullable().optional(),
+  providers: z.array(z.string()),
+  providerIds: z.record(z.string()).optional(),
+  emailVerified: z.boolean().optional(),
+  lastLogin: isoDateTime.optional(),
+  createdAt: isoDateTime,
+  updatedAt: isoDateTime,
+});
+export type User = z.infer<typeof UserSchema>;
+
+/**
+ * Body of POST /api/auth/register
+ */
+export const RegisterBodySchema = z.object({
+  firstName: nameField.optional().default(''),
+  lastName: nameField.optional().default(''),
+  age: ageField.optional().default(null),
+  email: emailField,
+  password: z
+    .string({ required_error: 'Password is required' })
+    .regex(passwordRule, passwordRuleMessage),
+});
+export type RegisterBody = z.infer<typeof RegisterBodySchema>;
+
+/**
+ * Body of PUT /api/users/:uid. Unknown fields are dropped and blank strings ignored.
+ */
+export const UpdateUserBodySchema = z
+  .object({
+    firstName: optionalNonEmpty(nameField),
+    lastName: optionalNonEmpty(nameField),
+    age: optionalNonEmpty(ageField),
+    email: optionalNonEmpty(emailField),
+  })
+  .refine((body) => Object.values(body).some((value) => value !== undefined), {
+    message: 'No valid fields to update',
+  });
+export type UpdateUserBody = z.infer<typeof UpdateUserBodySchema>;
+
+/**
+ * Body of POST /api/users/:uid/providers/:provider: a provider token, or the new
+ * password for `manual` (which of the two is required depends on the provider)
+ */
+export const LinkProviderBodySchema = z.object({
+  token: z.string().min(1, 'Provider token is required').optional().describe('Provider token (OAuth providers)'),
+  password: z
+    .string()
+    .regex(passwordRule, passwordRuleMessage)
+    .optional()
+    .describe('New password (provider `manual`)'),
+});
+export type LinkProviderBody = z.infer<typeof LinkProviderBodySchema>;
+
+/**
+ * Public part of a user returned after registration
+ */
+export type PublicUser = Pick<User, 'uid' | 'firstName' | 'lastName' | 'age' | 'email'>;
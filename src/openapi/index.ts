@@ -0,0 +1,260 @@
+/**
+ * OpenAPI 3 document of the API, built from the operations table and the zod
+ * schemas, and a check that every route of the app is documented
+ * @module OpenApi
+ */
+import { STATUS_CODES } from 'http';
+import type { Express } from 'express';
+import { OPERATIONS, SCHEMAS, Operation, HttpMethod } from './operations';
+import { SchemaObject, toJsonSchema } from './schema';
+import { getBuildInfo } from '../services/health';
+import { CSRF_HEADER_NAME } from '../middleware/csrf';
+import { SESSION_COOKIE_NAME } from '../middleware/auth';
+import { IDEMPOTENCY_HEADER_NAME } from '../middleware/idempotency';
+
+const ERROR_SCHEMA: SchemaObject = { $ref: '#/components/schemas/Error' };
+
+/**
+ * Descriptions of path parameters, unless an operation overrides them
+ */
+const PARAM_DESCRIPTIONS: Record<string, string> = {
+  uid: 'User ID',
+  id: 'Meeting ID',
+  provider: 'Sign-in provider, e.g. google, github, facebook or manual',
+};
+
+/**
+ * Express path to OpenAPI path: `/users/:uid` becomes `/users/{uid}`
+ */
+function toOpenApiPath(path: string): string {
+  return path.replace(/:(\w+)/g, '{$1}');
+}
+
+function jsonContent(schema: SchemaObject) {
+  return { 'application/json': { schema } };
+}
+
+function errorResponse(status: number) {
+  return { description: STATUS_CODES[status] || 'Error', content: jsonContent(ERROR_SCHEMA) };
+}
+
+function successResponse(operation: Operation) {
+  const description = STATUS_CODES[operation.status || 200] as string;
+  const headers = operation.etag
+    ? { headers: { ETag: { description: 'Version of the resource', schema: { type: 'string' } } } }
+    : {};
+
+  if (operation.content) {
+    return { description, ...headers, content: { [operation.content.type]: { schema: operation.content.schema } } };
+  }
+
+  return {
+    description,
+    ...headers,
+    content: jsonContent({
+      type: 'object',
+      properties: { success: { type: 'boolean', enum: [true] }, ...operation.response },
+      required: ['success'],
+    }),
+  };
+}
+
+function buildOperation(operation: Operation) {
+  const access = operation.access || 'user';
+  const pathParams = [...operation.path.matchAll(/:(\w+)/g)].map(([, name]) => ({
+    name,
+    in: 'path',
+    required: true,
+    description: operation.params?.[name] || PARAM_DESCRIPTIONS[name],
+    schema: { type: 'string' },
+  }));
+
+  const queryParams = operation.query
+    ? Object.entries(operation.query.shape).map(([name, schema]) => {
+        const { description, ...rest } = toJsonSchema(schema as any);
+        return {
+          name,
+          in: 'query',
+          required: !(schema as any).isOptional(),
+          ...(description && { description }),
+          schema: rest,
+        };
+      })
+    : [];
+
+  const headerParams: Record<string, unknown>[] = [];
+  if (operation.idempotent) {
+    headerParams.push({
+      name: IDEMPOTENCY_HEADER_NAME,
+      in: 'header',
+      required: false,
+      description: 'Unique key of the request; retries with the same key replay the first successful response',
+      schema: { type: 'string', maxLength: 255 },
+    });
+  }
+  if (operation.etag) {
+    headerParams.push(operation.method === 'get'
+      ? {
+          name: 'If-None-Match',
+          in: 'header',
+          required: false,
+          description: 'ETag of a previous response; answers 304 while the resource is unchanged',
+          schema: { type: 'string' },
+        }
+      : {
+          name: 'If-Match',
+          in: 'header',
+          required: false,
+          description: 'ETag read before editing; answers 412 when the resource changed since',
+          schema: { type: 'string' },
+        });
+  }
+
+  // Error statuses implied by the request, the access level, the rate limit and idempotency
+  const errors = new Set(operation.errors);
+  if (operation.body || operation.query) errors.add(400);
+  if (access !== 'public') {
+    errors.add(401);
+    errors.add(403);
+  }
+  if (operation.rateLimited) errors.add(429);
+  if (operation.idempotent) {
+    errors.add(409);
+    errors.add(422);
+  }
+  if (operation.etag && operation.method !== 'get') errors.add(412);
+
+  const responses: Record<string, unknown> = {
+    [operation.status || 200]: successResponse(operation),
+    ...(operation.etag && operation.method === 'get' && { 304: { description: STATUS_CODES[304] } }),
+  };
+  for (const status of [...errors].sort((a, b) => a - b)) {
+    responses[status] = errorResponse(status);
+  }
+  responses.default = { description: 'Unexpected error', content: jsonContent(ERROR_SCHEMA) };
+
+  const description = [
+    operation.description,
+    access === 'admin' && 'Requires the `admin` role.',
+  ].filter(Boolean).join(' ');
+
+  return {
+    tags: [operation.tag],
+    summary: operation.summary,
+    ...(description && { description }),
+    operationId: `${operation.method}${toOpenApiPath(operation.path)}`,
+    ...(access === 'public' && { security: [] }),
+    ...((pathParams.length || queryParams.length || headerParams.length) && {
+      parameters: [...pathParams, ...queryParams, ...headerParams],
+    }),
+    ...(operation.body && {
+      requestBody: { required: true, content: jsonContent(toJsonSchema(operation.body)) },
+    }),
+    responses,
+  };
+}
+
+let document: Record<string, unknown> | undefined;
+
+/**
+ * Builds the OpenAPI document (once; the routes do not change at runtime)
+ * @returns {Object} OpenAPI 3.0 document
+ */
+export function buildOpenApiDocument(): Record<string, unknown> {
+  if (document) return document;
+
+  const { service, version } = getBuildInfo();
+  const paths: Record<string, Record<string, unknown>> = {};
+
+  for (const operation of OPERATIONS) {
+    const path = toOpenApiPath(operation.path);
+    paths[path] = { ...paths[path], [operation.method]: buildOperation(operation) };
+  }
+
+  const schemas: Record<string, SchemaObject> = {};
+  for (const [name, schema] of Object.entries(SCHEMAS)) {
+    schemas[name] = toJsonSchema(schema);
+  }
+
+  document = {
+    openapi: '3.0.3',
+    info: {
+      title: 'LinkUp Video Platform API',
+      version,
+      description:
+        `Backend of ${service}. Errors share one envelope: \`{ success: false, error, code, details? }\`. ` +
+        `Cookie-authenticated requests other than GET need the \`${CSRF_HEADER_NAME}\` header (see GET /api/auth/csrf).`,
+    },
+    tags: [...new Set(OPERATIONS.map((operation) => operation.tag))].map((name) => ({ name })),
+    security: [{ bearerAuth: [] }, { sessionCookie: [] }],
+    paths,
+    components: {
+      securitySchemes: {
+        bearerAuth: { type: 'http', scheme: 'bearer', bearerFormat: 'Firebase ID token' },
+        sessionCookie: { type: 'apiKey', in: 'cookie', name: SESSION_COOKIE_NAME },
+      },
+      schemas,
+    },
+  };
+  return document;
+}
+
+/**
+ * A route registered on the app
+ */
+export interface RouteInfo {
+  method: HttpMethod;
+  /** Express path, e.g. `/api/users/:uid` */
+  path: string;
+}
+
+/**
+ * Mount path of a router, read back from the regular expression Express built for it
+ */
+function mountPath(layer: any): string {
+  return layer.regexp.source
+    .replace(/^\^/, '')
+    .replace(/\\\/\?\(\?=\\\/\|\$\)$/, '')
+    .replace(/\\\//g, '/');
+}
+
+function collectRoutes(stack: any[], prefix: string, routes: RouteInfo[]): RouteInfo[] {
+  for (const layer of stack) {
+    if (layer.route) {
+      const path = `${prefix}${layer.route.path === '/' && prefix ? '' : layer.route.path}`;
+      for (const method of Object.keys(layer.route.methods)) {
+        if (method !== '_all') routes.push({ method: method as HttpMethod, path });
+      }
+    } else if (layer.name === 'router' && layer.handle.stack) {
+      collectRoutes(layer.handle.stack, prefix + mountPath(layer), routes);
+    }
+  }
+  return routes;
+}
+
+/**
+ * Lists every route registered on an app, including those of mounted routers
+ * @param {Express} app - The app, e.g. from `createApp()`
+ * @returns {RouteInfo[]} Method and path of each route
+ */
+export function listRoutes(app: Express): RouteInfo[] {
+  return collectRoutes((app as any)._router.stack, '', []);
+}
+
+/**
+ * Compares the routes of an app with the OpenAPI document
+ * @param {Express} app - The app, e.g. from `createApp()`
+ * @returns Routes missing from the document, and documented operations with no route
+ */
+export function checkOpenApiCoverage(app: Express): { undocumented: RouteInfo[]; stale: RouteInfo[] } {
+  const key = ({ method, path }: RouteInfo) => `${method.toUpperCase()} ${path}`;
+  const routes = listRoutes(app);
+  const routeKeys = new Set(routes.map(key));
+  const documentedKeys = new Set(OPERATIONS.map(key));
+
+  return {
+    undocumented: routes.filter((route) => !documentedKeys.has(key(route))),
+    stale: OPERATIONS.filter((operation) => !routeKeys.has(key(operation)))
+      .map(({ method, path }) => ({ method, path })),
+  };
+}
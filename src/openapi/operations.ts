@@ -0,0 +1,568 @@
+/**
+ * Every operation of the API, described for the OpenAPI document.
+ * Request bodies are the zod schemas the routes validate with.
+ * @module OpenApiOperations
+ */
+import { z } from 'zod';
+import { SchemaObject } from './schema';
+import { UserSchema, RegisterBodySchema, UpdateUserBodySchema, LinkProviderBodySchema } from '../models/user';
+import { UpdateRolesBodySchema, UserSearchQuerySchema } from '../models/admin';
+import { MeetingSchema, CreateMeetingBodySchema, UpdateMeetingBodySchema } from '../models/meeting';
+import {
+  LoginBodySchema,
+  ForgotPasswordBodySchema,
+  ResetPasswordBodySchema,
+  ChangePasswordBodySchema,
+  VerifyEmailBodySchema,
+  SessionBodySchema,
+  ProviderTokenBodySchema,
+  TwoFactorCodeBodySchema,
+  TwoFactorVerifyBodySchema,
+} from '../models/auth';
+import { isoDateTime } from '../models/common';
+
+export type HttpMethod = 'get' | 'post' | 'put' | 'delete';
+
+/**
+ * Who may call an operation: anyone, any signed-in user, or admins only
+ */
+export type Access = 'public' | 'user' | 'admin';
+
+/**
+ * Documentation of one route
+ */
+export interface Operation {
+  method: HttpMethod;
+  /** Express path, e.g. `/api/users/:uid` */
+  path: string;
+  tag: string;
+  summary: string;
+  description?: string;
+  /** Defaults to `user` */
+  access?: Access;
+  /** Answers 429 once its rate limit policy is exceeded */
+  rateLimited?: boolean;
+  /** Accepts an Idempotency-Key header and replays the first response on retries */
+  idempotent?: boolean;
+  /** Answers with an ETag, honoring If-None-Match (reads) or If-Match (writes) */
+  etag?: boolean;
+  body?: z.ZodTypeAny;
+  query?: z.AnyZodObject;
+  /** Descriptions of path parameters that differ from the defaults */
+  params?: Record<string, string>;
+  /** Success status, 200 by default */
+  status?: number;
+  /** Fields of the success envelope besides `success: true` */
+  response?: Record<string, SchemaObject>;
+  /** Non-envelope success body, e.g. plain text or HTML */
+  content?: { type: string; schema: SchemaObject };
+  /** Error statuses besides the ones implied by the body, access, rate limit, idempotency and ETag */
+  errors?: number[];
+}
+
+/**
+ * Models shared by several operations, published under `components.schemas`
+ */
+export const SCHEMAS: Record<string, z.ZodTypeAny> = {
+  User: UserSchema,
+  PublicUser: UserSchema.pick({ uid: true, firstName: true, lastName: true, age: true, email: true }),
+  Meeting: MeetingSchema,
+  Session: z.object({
+    id: z.string(),
+    provider: z.string(),
+    device: z.string(),
+    userAgent: z.string(),
+    ip: z.string(),
+    createdAt: isoDateTime,
+    revokedAt: isoDateTime.nullable(),
+  }),
+  AuditEntry: z.object({
+    actorUid: z.string(),
+    action: z.string(),
+    targetUid: z.string().nullable(),
+    details: z.record(z.any()),
+    ip: z.string(),
+    createdAt: isoDateTime,
+  }),
+  Error: z.object({
+    success: z.literal(false),
+    error: z.string().describe('Human readable message'),
+    code: z.string().describe('Stable machine readable code, e.g. USER_NOT_FOUND'),
+    details: z.any().optional().describe('Extra context, e.g. the failing fields of a validation error'),
+  }),
+};
+
+const ref = (name: string): SchemaObject => ({ $ref: `#/components/schemas/${name}` });
+const arrayOf = (items: SchemaObject): SchemaObject => ({ type: 'array', items });
+const string: SchemaObject = { type: 'string' };
+const integer: SchemaObject = { type: 'integer' };
+const boolean: SchemaObject = { type: 'boolean' };
+const dateTime: SchemaObject = { type: 'string', format: 'date-time' };
+const message = { message: string };
+const providers = { providers: arrayOf(string) };
+const signedIn = {
+  user: ref('User'),
+  token: { ...string, description: 'Firebase custom token, exchanged for an ID token by the client SDK' },
+};
+const buildInfo = { service: string, version: string, commit: string, timestamp: dateTime };
+
+const health = (path: string, summary: string, description: string): Operation => ({
+  method: 'get',
+  path,
+  tag: 'Health',
+  summary,
+  description,
+  access: 'public',
+  content: {
+    type: 'application/json',
+    schema: { type: 'object', properties: { status: string, ...buildInfo } },
+  },
+});
+
+export const OPERATIONS: Operation[] = [
+  // Health, metrics and documentation
+  health('/api/health', 'Basic health check', 'Kept for existing monitors, same as `/api/health/live`.'),
+  health('/api/health/live', 'Liveness', 'The process is up. Never touches Firestore or Auth.'),
+  {
+    ...health('/api/health/ready', 'Readiness', 'Configuration is valid and Firestore and Auth answer in time.'),
+    errors: [503],
+  },
+  {
+    method: 'get',
+    path: '/metrics',
+    tag: 'Health',
+    summary: 'Prometheus metrics',
+    description:
+      'Requires `Authorization: Bearer <METRICS_TOKEN>` (the scraper token, not an ID token). ' +
+      'Answers 404 when METRICS_TOKEN is not set.',
+    access: 'public',
+    content: { type: 'text/plain', schema: string },
+    errors: [401, 404],
+  },
+  {
+    method: 'get',
+    path: '/api/openapi.json',
+    tag: 'Docs',
+    summary: 'This OpenAPI document',
+    access: 'public',
+    content: { type: 'application/json', schema: { type: 'object' } },
+  },
+  {
+    method: 'get',
+    path: '/api/docs',
+    tag: 'Docs',
+    summary: 'Interactive API documentation',
+    access: 'public',
+    content: { type: 'text/html', schema: string },
+  },
+
+  // Authentication
+  {
+    method: 'post',
+    path: '/api/auth/register',
+    tag: 'Auth',
+    summary: 'Register with email and password',
+    access: 'public',
+    rateLimited: true,
+    idempotent: true,
+    body: RegisterBodySchema,
+    status: 201,
+    response: { user: ref('PublicUser') },
+    errors: [409],
+  },
+  {
+    method: 'post',
+    path: '/api/auth/login',
+    tag: 'Auth',
+    summary: 'Sign in with email and password',
+    description:
+      'When two-factor authentication is enabled, answers `twoFactorRequired` with a challenge ' +
+      'to complete at `/api/auth/2fa/verify` instead of a token. ' +
+      'Repeated failures lock the account (429 ACCOUNT_LOCKED with Retry-After).',
+    access: 'public',
+    rateLimited: true,
+    body: LoginBodySchema,
+    response: { ...signedIn, twoFactorRequired: boolean, challengeId: string, expiresAt: dateTime },
+    errors: [401, 404],
+  },
+  {
+    method: 'post',
+    path: '/api/auth/password/forgot',
+    tag: 'Auth',
+    summary: 'Send a password reset email',
+    description: 'Answers the same whether or not the email is registered.',
+    access: 'public',
+    rateLimited: true,
+    body: ForgotPasswordBodySchema,
+    response: message,
+  },
+  {
+    method: 'post',
+    path: '/api/auth/password/reset',
+    tag: 'Auth',
+    summary: 'Set a new password with the code from the reset email',
+    access: 'public',
+    rateLimited: true,
+    body: ResetPasswordBodySchema,
+    response: message,
+  },
+  {
+    method: 'post',
+    path: '/api/auth/password/change',
+    tag: 'Auth',
+    summary: 'Change the password of the signed-in user',
+    description:
+      'Revokes every session; the user signs in again with the new password. ' +
+      'Wrong current passwords count towards the sign-in lockout (429 ACCOUNT_LOCKED with Retry-After).',
+    rateLimited: true,
+    body: ChangePasswordBodySchema,
+    response: message,
+  },
+  {
+    method: 'post',
+    path: '/api/auth/email/verification',
+    tag: 'Auth',
+    summary: 'Send an email verification link',
+    response: message,
+  },
+  {
+    method: 'post',
+    path: '/api/auth/email/verify',
+    tag: 'Auth',
+    summary: 'Verify the email with the code from the verification link',
+    access: 'public',
+    body: VerifyEmailBodySchema,
+    response: message,
+  },
+  {
+    method: 'get',
+    path: '/api/auth/csrf',
+    tag: 'Auth',
+    summary: 'Issue a CSRF token',
+    description: 'Also set as the `csrfToken` cookie. Send it in the `X-CSRF-Token` header on cookie-authenticated requests.',
+    access: 'public',
+    response: { csrfToken: string },
+  },
+  {
+    method: 'post',
+    path: '/api/auth/session',
+    tag: 'Auth',
+    summary: 'Exchange an ID token for a session cookie',
+    description: 'Users with two-factor authentication enabled need an ID token from `/api/auth/2fa/verify`.',
+    access: 'public',
+    body: SessionBodySchema,
+    response: { csrfToken: string, expiresIn: { ...integer, description: 'Lifetime in milliseconds' } },
+    errors: [401, 403],
+  },
+  {
+    method: 'delete',
+    path: '/api/auth/session',
+    tag: 'Auth',
+    summary: 'Sign out: clear and revoke the session cookie',
+    access: 'public',
+    response: message,
+    errors: [403],
+  },
+
+  // Two-factor authentication
+  {
+    method: 'post',
+    path: '/api/auth/2fa/enroll',
+    tag: 'Two-factor',
+    summary: 'Start TOTP enrollment',
+    response: { secret: string, otpauthUri: string },
+    errors: [400, 409],
+  },
+  {
+    method: 'post',
+    path: '/api/auth/2fa/confirm',
+    tag: 'Two-factor',
+    summary: 'Confirm enrollment with a code from the authenticator app',
+    description: 'Returns the recovery codes, shown only once.',
+    body: TwoFactorCodeBodySchema,
+    response: { recoveryCodes: arrayOf(string) },
+  },
+  {
+    method: 'delete',
+    path: '/api/auth/2fa',
+    tag: 'Two-factor',
+    summary: 'Disable two-factor authentication',
+    body: TwoFactorCodeBodySchema,
+    response: message,
+  },
+  {
+    method: 'post',
+    path: '/api/auth/2fa/verify',
+    tag: 'Two-factor',
+    summary: 'Complete a login challenge with a TOTP or recovery code',
+    access: 'public',
+    rateLimited: true,
+    body: TwoFactorVerifyBodySchema,
+    response: signedIn,
+  },
+
+  // OAuth
+  {
+    method: 'post',
+    path: '/api/oauth/:provider',
+    tag: 'OAuth',
+    summary: 'Sign in or register with a provider token',
+    description:
+      'When two-factor authentication is enabled, answers `twoFactorRequired` with a challenge ' +
+      'to complete at `/api/auth/2fa/verify` instead of a token.',
+    access: 'public',
+    rateLimited: true,
+    body: ProviderTokenBodySchema,
+    response: { ...signedIn, twoFactorRequired: boolean, challengeId: string, expiresAt: dateTime },
+    errors: [401, 404, 409, 503],
+  },
+
+  // Users
+  {
+    method: 'get',
+    path: '/api/users/:uid',
+    tag: 'Users',
+    summary: 'Get a user profile',
+    etag: true,
+    response: { user: ref('User') },
+    errors: [404],
+  },
+  {
+    method: 'put',
+    path: '/api/users/:uid',
+    tag: 'Users',
+    summary: 'Update a user profile',
+    description: 'Unknown fields are dropped and blank strings ignored. Changing the email unverifies it.',
+    idempotent: true,
+    etag: true,
+    body: UpdateUserBodySchema,
+    response: { ...message, updatedFields: arrayOf(string) },
+    errors: [409],
+  },
+  {
+    method: 'delete',
+    path: '/api/users/:uid',
+    tag: 'Users',
+    summary: 'Delete a user account',
+    idempotent: true,
+    response: message,
+  },
+  {
+    method: 'post',
+    path: '/api/users/:uid/providers/:provider',
+    tag: 'Users',
+    summary: 'Link a sign-in method',
+    description: 'Requires a recent sign-in. The `manual` provider sets a password on a verified email.',
+    idempotent: true,
+    body: LinkProviderBodySchema,
+    response: providers,
+    errors: [404, 409, 503],
+  },
+  {
+    method: 'delete',
+    path: '/api/users/:uid/providers/:provider',
+    tag: 'Users',
+    summary: 'Unlink a sign-in method',
+    description: 'The last sign-in method cannot be removed.',
+    idempotent: true,
+    response: providers,
+    errors: [409],
+  },
+  {
+    method: 'get',
+    path: '/api/users/:uid/sessions',
+    tag: 'Users',
+    summary: 'List sessions, newest first',
+    response: { sessions: arrayOf({ allOf: [ref('Session'), { type: 'object', properties: { current: boolean } }] }) },
+  },
+  {
+    method: 'delete',
+    path: '/api/users/:uid/sessions',
+    tag: 'Users',
+    summary: 'Sign out from all devices',
+    idempotent: true,
+    response: message,
+  },
+  {
+    method: 'delete',
+    path: '/api/users/:uid/sessions/:id',
+    tag: 'Users',
+    summary: 'Revoke one session',
+    idempotent: true,
+    params: { id: 'Session ID' },
+    response: message,
+    errors: [404],
+  },
+
+  // Meetings
+  {
+    method: 'post',
+    path: '/api/meetings',
+    tag: 'Meetings',
+    summary: 'Create a meeting',
+    idempotent: true,
+    body: CreateMeetingBodySchema,
+    status: 201,
+    response: { meeting: ref('Meeting') },
+  },
+  {
+    method: 'get',
+    path: '/api/meetings',
+    tag: 'Meetings',
+    summary: 'List meetings of the signed-in user',
+    response: { meetings: arrayOf(ref('Meeting')), count: integer },
+  },
+  {
+    method: 'get',
+    path: '/api/meetings/:id',
+    tag: 'Meetings',
+    summary: 'Get a meeting',
+    etag: true,
+    response: { meeting: ref('Meeting') },
+    errors: [404],
+  },
+  {
+    method: 'post',
+    path: '/api/meetings/:id/join',
+    tag: 'Meetings',
+    summary: 'Join a meeting as a participant',
+    response: { meeting: ref('Meeting') },
+    errors: [404],
+  },
+  {
+    method: 'put',
+    path: '/api/meetings/:id',
+    tag: 'Meetings',
+    summary: 'Update a meeting',
+    idempotent: true,
+    etag: true,
+    body: UpdateMeetingBodySchema,
+    response: { meeting: ref('Meeting') },
+    errors: [404],
+  },
+  {
+    method: 'delete',
+    path: '/api/meetings/:id',
+    tag: 'Meetings',
+    summary: 'Delete a meeting',
+    idempotent: true,
+    errors: [404],
+  },
+  {
+    method: 'get',
+    path: '/api/meetings/:id/participants',
+    tag: 'Meetings',
+    summary: 'List the participants of a meeting',
+    response: { participants: arrayOf(string), count: integer },
+    errors: [404],
+  },
+
+  // Administration
+  {
+    method: 'get',
+    path: '/api/admin/users',
+    tag: 'Admin',
+    summary: 'List or search users, paginated by cursor',
+    access: 'admin',
+    query: UserSearchQuerySchema,
+    response: { users: arrayOf(ref('User')), nextCursor: { ...string, nullable: true } },
+  },
+  {
+    method: 'get',
+    path: '/api/admin/users/:uid',
+    tag: 'Admin',
+    summary: 'Get a user profile with its account status and roles',
+    access: 'admin',
+    response: { user: { type: 'object' } },
+    errors: [404],
+  },
+  {
+    method: 'get',
+    path: '/api/admin/users/:uid/providers',
+    tag: 'Admin',
+    summary: 'Get the sign-in methods linked to a user',
+    access: 'admin',
+    response: {
+      ...providers,
+      providerIds: { type: 'object', additionalProperties: string },
+      firebaseProviders: arrayOf(string),
+    },
+    errors: [404],
+  },
+  {
+    method: 'post',
+    path: '/api/admin/users/:uid/disable',
+    tag: 'Admin',
+    summary: 'Disable a user account and revoke its sessions',
+    access: 'admin',
+    idempotent: true,
+    response: message,
+    errors: [404],
+  },
+  {
+    method: 'post',
+    path: '/api/admin/users/:uid/enable',
+    tag: 'Admin',
+    summary: 'Enable a user account',
+    access: 'admin',
+    idempotent: true,
+    response: message,
+    errors: [404],
+  },
+  {
+    method: 'post',
+    path: '/api/admin/users/:uid/password-reset',
+    tag: 'Admin',
+    summary: 'Send a password reset email and revoke the sessions of a user',
+    access: 'admin',
+    idempotent: true,
+    response: message,
+    errors: [404],
+  },
+  {
+    method: 'get',
+    path: '/api/admin/users/:uid/sessions',
+    tag: 'Admin',
+    summary: 'List the sessions of a user',
+    access: 'admin',
+    response: { sessions: arrayOf(ref('Session')) },
+  },
+  {
+    method: 'delete',
+    path: '/api/admin/users/:uid/sessions',
+    tag: 'Admin',
+    summary: 'Revoke every session of a user',
+    access: 'admin',
+    idempotent: true,
+    response: message,
+  },
+  {
+    method: 'put',
+    path: '/api/admin/users/:uid/roles',
+    tag: 'Admin',
+    summary: 'Replace the roles of a user',
+    access: 'admin',
+    idempotent: true,
+    body: UpdateRolesBodySchema,
+    response: { roles: arrayOf(string) },
+    errors: [404],
+  },
+  {
+    method: 'post',
+    path: '/api/admin/users/:uid/impersonate',
+    tag: 'Admin',
+    summary: 'Impersonate a user for read-only inspection',
+    description: 'The resulting session is refused on anything but GET requests and expires after 15 minutes.',
+    access: 'admin',
+    response: { token: string, expiresAt: dateTime, readOnly: boolean },
+    errors: [404],
+  },
+  {
+    method: 'get',
+    path: '/api/admin/users/:uid/audit',
+    tag: 'Admin',
+    summary: 'Audit trail of actions on a user',
+    access: 'admin',
+    response: { entries: arrayOf(ref('AuditEntry')) },
+  },
+];
@@ -0,0 +1,132 @@
+/**
+ * Converts the zod request and model schemas to OpenAPI 3.0 schema objects,
+ * so the documented bodies are the ones the routes validate
+ * @module OpenApiSchema
+ */
+import { z } from 'zod';
+
+/**
+ * OpenAPI 3.0 schema object (the subset produced here)
+ */
+export interface SchemaObject {
+  type?: 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array';
+  format?: string;
+  pattern?: string;
+  minLength?: number;
+  maxLength?: number;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: boolean;
+  exclusiveMaximum?: boolean;
+  enum?: unknown[];
+  items?: SchemaObject;
+  properties?: Record<string, SchemaObject>;
+  required?: string[];
+  additionalProperties?: boolean | SchemaObject;
+  nullable?: boolean;
+  default?: unknown;
+  description?: string;
+  oneOf?: SchemaObject[];
+  allOf?: SchemaObject[];
+  $ref?: string;
+}
+
+const STRING_FORMATS: Record<string, string> = {
+  email: 'email',
+  url: 'uri',
+  uuid: 'uuid',
+  datetime: 'date-time'
+};
+
+function stringSchema(def: z.ZodStringDef): SchemaObject {
+  const schema: SchemaObject = { type: 'string' };
+  for (const check of def.checks) {
+    if (check.kind === 'min') schema.minLength = check.value;
+    else if (check.kind === 'max') schema.maxLength = check.value;
+    else if (check.kind === 'length') schema.minLength = schema.maxLength = check.value;
+    else if (check.kind === 'regex') schema.pattern = check.regex.source;
+    else if (STRING_FORMATS[check.kind]) schema.format = STRING_FORMATS[check.kind];
+  }
+  return schema;
+}
+
+function numberSchema(def: z.ZodNumberDef): SchemaObject {
+  const schema: SchemaObject = { type: 'number' };
+  for (const check of def.checks) {
+    if (check.kind === 'int') {
+      schema.type = 'integer';
+    } else if (check.kind === 'min') {
+      schema.minimum = check.value;
+      if (!check.inclusive) schema.exclusiveMinimum = true;
+    } else if (check.kind === 'max') {
+      schema.maximum = check.value;
+      if (!check.inclusive) schema.exclusiveMaximum = true;
+    }
+  }
+  return schema;
+}
+
+function objectSchema(schema: z.AnyZodObject): SchemaObject {
+  const properties: Record<string, SchemaObject> = {};
+  const required: string[] = [];
+
+  for (const [key, field] of Object.entries(schema.shape as z.ZodRawShape)) {
+    properties[key] = toJsonSchema(field);
+    if (!field.isOptional()) required.push(key);
+  }
+
+  return {
+    type: 'object',
+    properties,
+    ...(required.length && { required })
+  };
+}
+
+/**
+ * Converts a zod schema to an OpenAPI schema. Refinements, transforms and
+ * preprocessing are documented as the schema they wrap.
+ * @param {z.ZodTypeAny} schema - Zod schema
+ * @returns {SchemaObject} OpenAPI schema
+ */
+export function toJsonSchema(schema: z.ZodTypeAny): SchemaObject {
+  const converted = convert(schema);
+  return schema.description ? { ...converted, description: schema.description } : converted;
+}
+
+function convert(schema: z.ZodTypeAny): SchemaObject {
+  const def = schema._def;
+
+  switch (def.typeName as z.ZodFirstPartyTypeKind) {
+    case z.ZodFirstPartyTypeKind.ZodString:
+      return stringSchema(def);
+    case z.ZodFirstPartyTypeKind.ZodNumber:
+      return numberSchema(def);
+    case z.ZodFirstPartyTypeKind.ZodBoolean:
+      return { type: 'boolean' };
+    case z.ZodFirstPartyTypeKind.ZodLiteral:
+      return { type: typeof def.value as SchemaObject['type'], enum: [def.value] };
+    case z.ZodFirstPartyTypeKind.ZodEnum:
+      return { type: 'string', enum: [...def.values] };
+    case z.ZodFirstPartyTypeKind.ZodArray:
+      return { type: 'array', items: toJsonSchema(def.type) };
+    case z.ZodFirstPartyTypeKind.ZodRecord:
+      return { type: 'object', additionalProperties: toJsonSchema(def.valueType) };
+    case z.ZodFirstPartyTypeKind.ZodObject:
+      return objectSchema(schema as z.AnyZodObject);
+    case z.ZodFirstPartyTypeKind.ZodOptional:
+      return toJsonSchema(def.innerType);
+    case z.ZodFirstPartyTypeKind.ZodNullable:
+      return { ...toJsonSchema(def.innerType), nullable: true };
+    case z.ZodFirstPartyTypeKind.ZodDefault:
+      return { ...toJsonSchema(def.innerType), default: def.defaultValue() };
+    case z.ZodFirstPartyTypeKind.ZodEffects:
+      return toJsonSchema(def.schema);
+    case z.ZodFirstPartyTypeKind.ZodUnion:
+      return { oneOf: def.options.map((option: z.ZodTypeAny) => toJsonSchema(option)) };
+    case z.ZodFirstPartyTypeKind.ZodIntersection:
+      return { allOf: [toJsonSchema(def.left), toJsonSchema(def.right)] };
+    default:
+      // Any, unknown and types without an OpenAPI counterpart accept any value
+      return {};
+  }
+}
@@ -0,0 +1,30 @@
+/**
+ * Facebook sign-in adapter
+ * @module FacebookProvider
+ */
+import { getProviderVerifier } from '../services/providerVerifiers';
+import { SignInProvider, splitDisplayName } from './signInProvider';
+
+export const facebookProvider: SignInProvider = {
+  id: 'facebook',
+  label: 'Facebook',
+
+  verify(token) {
+    return getProviderVerifier('facebook').verify(token);
+  },
+
+  normalize({ providerUid, email, emailVerified, claims }) {
+    const displayName = claims.name || '';
+    const split = splitDisplayName(displayName);
+
+    return {
+      providerUid,
+      email,
+      emailVerified,
+      firstName: claims.first_name || split.firstName,
+      lastName: claims.last_name || split.lastName,
+      displayName,
+      photoURL: claims.picture?.data?.url ?? null,
+    };
+  },
+};
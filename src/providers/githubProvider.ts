@@ -0,0 +1,31 @@
+/**
+ * GitHub sign-in adapter
+ * @module GithubProvider
+ */
+import { getProviderVerifier } from '../services/providerVerifiers';
+import { SignInProvider, splitDisplayName } from './signInProvider';
+
+export const githubProvider: SignInProvider = {
+  id: 'github',
+  label: 'Github',
+
+  verify(token) {
+    return getProviderVerifier('github').verify(token);
+  },
+
+  normalize({ providerUid, email, emailVerified, claims }) {
+    // Many GitHub accounts have no display name, fall back to the login
+    const displayName = claims.name || claims.login || '';
+    const { firstName, lastName } = splitDisplayName(displayName);
+
+    return {
+      providerUid,
+      email,
+      emailVerified,
+      firstName,
+      lastName,
+      displayName,
+      photoURL: claims.avatar_url ?? null,
+    };
+  },
+};
@@ -0,0 +1,35 @@
+/**
+ * Google sign-in adapter
+ * @module GoogleProvider
+ */
+import { getProviderVerifier } from '../services/providerVerifiers';
+import type { SignInProvider } from './signInProvider';
+
+export const googleProvider: SignInProvider = {
+  id: 'google',
+  label: 'Google',
+
+  verify(token) {
+    return getProviderVerifier('google').verify(token);
+  },
+
+  normalize({ providerUid, email, emailVerified, claims }) {
+    const displayName = claims.name || '';
+
+    // Google names are usually "First [Second] Last [SecondLast]": the first two words
+    // are the first name when there are at least three words
+    const parts = displayName.trim().split(/\s+/).filter(Boolean);
+    const firstName = parts.length >= 3 ? parts.slice(0, 2).join(' ') : parts[0] || '';
+    const lastName = parts.length >= 3 ? parts.slice(2).join(' ') : parts.slice(1).join(' ');
+
+    return {
+      providerUid,
+      email,
+      emailVerified,
+      firstName,
+      lastName,
+      displayName,
+      photoURL: claims.picture ?? null,
+    };
+  },
+};
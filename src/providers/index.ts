@@ -0,0 +1,14 @@
+/**
+ * Built-in sign-in providers
+ * @module Providers
+ */
+import { registerSignInProvider } from './signInProvider';
+import { googleProvider } from './googleProvider';
+import { githubProvider } from './githubProvider';
+import { facebookProvider } from './facebookProvider';
+
+registerSignInProvider(googleProvider);
+registerSignInProvider(githubProvider);
+registerSignInProvider(facebookProvider);
+
+export * from './signInProvider';
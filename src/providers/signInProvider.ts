@@ -0,0 +1,70 @@
+/**
+ * Sign-in provider abstraction and registry
+ * @module SignInProvider
+ */
+import type { VerifiedIdentity } from '../services/providerVerifiers';
+
+/**
+ * Provider-independent profile used to create or update our user records
+ */
+export interface NormalizedProfile {
+  providerUid: string;
+  email: string | null;
+  emailVerified: boolean;
+  firstName: string;
+  lastName: string;
+  displayName: string;
+  photoURL: string | null;
+}
+
+/**
+ * Adapter for an external identity provider.
+ * - `verify` checks the client token and resolves the raw identity
+ * - `normalize` maps the raw provider claims into a NormalizedProfile
+ */
+export interface SignInProvider {
+  /** Provider ID, used in the route (`/api/oauth/:provider`) and in `providers` */
+  readonly id: string;
+  /** Human readable name for error messages */
+  readonly label: string;
+  verify(token: string): Promise<VerifiedIdentity>;
+  normalize(identity: VerifiedIdentity): NormalizedProfile;
+}
+
+/**
+ * Splits a display name into first name (first word) and last name (the rest)
+ * @param {string} name - Full display name
+ */
+export function splitDisplayName(name: string): { firstName: string; lastName: string } {
+  const parts = (name || '').trim().split(/\s+/).filter(Boolean);
+  return {
+    firstName: parts[0] || '',
+    lastName: parts.slice(1).join(' '),
+  };
+}
+
+const registry = new Map<string, SignInProvider>();
+
+/**
+ * Registers (or replaces) a sign-in provider
+ * @param {SignInProvider} provider - Provider adapter
+ */
+export function registerSignInProvider(provider: SignInProvider): void {
+  registry.set(provider.id, provider);
+}
+
+/**
+ * Looks up a sign-in provider by ID
+ * @param {string} id - Provider ID
+ * @returns {SignInProvider | undefined} The adapter, if registered
+ */
+export function getSignInProvider(id: string): SignInProvider | undefined {
+  return registry.get(id);
+}
+
+/**
+ * Lists the IDs of all registered sign-in providers
+ */
+export function listSignInProviders(): string[] {
+  return Array.from(registry.keys());
+}
@@ -0,0 +1,339 @@
+/**
+ * Admin routes for user management. Every action is written to the audit trail.
+ * @module AdminRoutes
+ */
+import { Router } from "express";
+import { getAuthService } from "../services/authService";
+import { userDAO } from "../dao/userDAO";
+import { WhereClause } from "../dao/baseDAO";
+import { BadRequestError, NotFoundError } from "../errors";
+import { verifyIdToken } from "../middleware/auth";
+import { requireRole } from "../middleware/roles";
+import { idempotency } from "../middleware/idempotency";
+import { validate } from "../middleware/validate";
+import { rolesFromClaims, setUserRoles } from "../services/roles";
+import { listSessions, revokeAllSessions } from "../services/sessions";
+import { recordAudit, listAuditForUser } from "../services/audit";
+import { sendMail } from "../services/mailer";
+import { UpdateRolesBody, UpdateRolesBodySchema, UserSearchQuery, UserSearchQuerySchema } from "../models/admin";
+
+const router = Router();
+router.use(verifyIdToken, requireRole("admin"));
+
+const IMPERSONATION_TTL_MS = 15 * 60 * 1000;
+
+/**
+ * Loads the Firestore profile and Firebase Auth record of a user
+ * @param {string} uid - User UID
+ * @returns Combined view, or null when the user does not exist
+ */
+async function loadUser(uid: string) {
+  try {
+    const [userRecord, profile] = await Promise.all([
+      getAuthService().getUser(uid),
+      userDAO.getOne(uid),
+    ]);
+
+    return {
+      profile: profile || null,
+      account: {
+        uid: userRecord.uid,
+        email: userRecord.email,
+        emailVerified: userRecord.emailVerified,
+        disabled: userRecord.disabled,
+        roles: rolesFromClaims(userRecord.customClaims || {}),
+        createdAt: userRecord.metadata.creationTime,
+        lastSignInAt: userRecord.metadata.lastSignInTime,
+      },
+      providerLinks: {
+        providers: profile?.providers || [],
+        providerIds: profile?.providerIds || {},
+        firebaseProviders: userRecord.providerData.map((p) => p.providerId),
+      },
+    };
+  } catch (error: any) {
+    if (error.code === "auth/user-not-found") return null;
+    throw error;
+  }
+}
+
+/**
+ * List or search users, paginated by cursor
+ * @route GET /api/admin/users
+ * @param {string} q - Prefix to search for (optional)
+ * @param {string} by - Field to search: email (default), firstName or lastName
+ * @param {number} limit - Page size (default 20, max 100)
+ * @param {string} cursor - `nextCursor` from the previous page
+ * @returns {Object} Users and the cursor of the next page
+ */
+router.get("/users", validate(UserSearchQuerySchema, "query"), async (req, res, next) => {
+  try {
+    const { q = "", by, limit, cursor = "" } = req.query as unknown as UserSearchQuery;
+
+    // Prefix match: every value between "q" and "q" followed by the highest code point
+    const where: WhereClause[] = q
+      ? [
+          [by, ">=", q],
+          [by, "<=", `${q}\uf8ff`],
+        ]
+      : [];
+
+    const page = await userDAO.findPage({
+      where,
+      orderBy: [[by]],
+      limit,
+      cursor,
+    });
+
+    await recordAudit(req, "users.search", null, { q, by, limit, cursor });
+
+    return res.json({
+      success: true,
+      users: page.items,
+      nextCursor: page.nextCursor,
+    });
+  } catch (error: any) {
+    next(error);
+  }
+});
+
+/**
+ * Get a user: profile, account status, roles and provider links
+ * @route GET /api/admin/users/:uid
+ */
+router.get("/users/:uid", async (req, res, next) => {
+  try {
+    const { uid } = req.params;
+    const user = await loadUser(uid);
+
+    if (!user) {
+      throw new NotFoundError("User not found", "USER_NOT_FOUND");
+    }
+
+    await recordAudit(req, "user.view", uid);
+
+    return res.json({
+      success: true,
+      user,
+    });
+  } catch (error: any) {
+    next(error);
+  }
+});
+
+/**
+ * View the sign-in methods linked to a user
+ * @route GET /api/admin/users/:uid/providers
+ */
+router.get("/users/:uid/providers", async (req, res, next) => {
+  try {
+    const { uid } = req.params;
+    const user = await loadUser(uid);
+
+    if (!user) {
+      throw new NotFoundError("User not found", "USER_NOT_FOUND");
+    }
+
+    await recordAudit(req, "user.providers.view", uid);
+
+    return res.json({
+      success: true,
+      ...user.providerLinks,
+    });
+  } catch (error: any) {
+    next(error);
+  }
+});
+
+/**
+ * Disable a user account and revoke its sessions
+ * @route POST /api/admin/users/:uid/disable
+ */
+router.post("/users/:uid/disable", idempotency, async (req, res, next) => {
+  try {
+    const { uid } = req.params;
+
+    if (uid === (req as any).uid) {
+      throw new BadRequestError("You cannot disable your own account", "CANNOT_DISABLE_SELF");
+    }
+
+    await getAuthService().updateUser(uid, { disabled: true });
+    await revokeAllSessions(uid);
+    await recordAudit(req, "user.disable", uid);
+
+    return res.json({
+      success: true,
+      message: "User account disabled",
+    });
+  } catch (error: any) {
+    next(error);
+  }
+});
+
+/**
+ * Re-enable a disabled user account
+ * @route POST /api/admin/users/:uid/enable
+ */
+router.post("/users/:uid/enable", idempotency, async (req, res, next) => {
+  try {
+    const { uid } = req.params;
+
+    await getAuthService().updateUser(uid, { disabled: false });
+    await recordAudit(req, "user.enable", uid);
+
+    return res.json({
+      success: true,
+      message: "User account enabled",
+    });
+  } catch (error: any) {
+    next(error);
+  }
+});
+
+/**
+ * Force a password reset: revoke all sessions and email a reset link
+ * @route POST /api/admin/users/:uid/password-reset
+ */
+router.post("/users/:uid/password-reset", idempotency, async (req, res, next) => {
+  try {
+    const { uid } = req.params;
+    const userRecord = await getAuthService().getUser(uid);
+
+    if (!userRecord.email) {
+      throw new BadRequestError("The account has no email address", "EMAIL_REQUIRED");
+    }
+
+    await revokeAllSessions(uid);
+
+    const link = await getAuthService().generatePasswordResetLink(userRecord.email);
+    await sendMail({
+      to: userRecord.email,
+      subject: "Reset your LinkUp password",
+      text: `An administrator requested a password reset for your LinkUp account.\n\nOpen this link to choose a new password:\n${link}`,
+    });
+
+    await recordAudit(req, "user.passwordReset", uid);
+
+    return res.json({
+      success: true,
+      message: "Password reset email sent and sessions revoked",
+    });
+  } catch (error: any) {
+    next(error);
+  }
+});
+
+/**
+ * List the sessions of a user
+ * @route GET /api/admin/users/:uid/sessions
+ */
+router.get("/users/:uid/sessions", async (req, res, next) => {
+  try {
+    const { uid } = req.params;
+    const sessions = await listSessions(uid);
+
+    await recordAudit(req, "user.sessions.view", uid);
+
+    return res.json({
+      success: true,
+      sessions,
+    });
+  } catch (error: any) {
+    next(error);
+  }
+});
+
+/**
+ * Revoke every session of a user
+ * @route DELETE /api/admin/users/:uid/sessions
+ */
+router.delete("/users/:uid/sessions", idempotency, async (req, res, next) => {
+  try {
+    const { uid } = req.params;
+
+    await revokeAllSessions(uid);
+    await recordAudit(req, "user.sessions.revoke", uid);
+
+    return res.json({
+      success: true,
+      message: "All sessions revoked",
+    });
+  } catch (error: any) {
+    next(error);
+  }
+});
+
+/**
+ * Replace the roles of a user
+ * @route PUT /api/admin/users/:uid/roles
+ * @param {string[]} roles - New roles (user, moderator, admin)
+ */
+router.put("/users/:uid/roles", idempotency, validate(UpdateRolesBodySchema), async (req, res, next) => {
+  try {
+    const { uid } = req.params;
+    const { roles } = req.body as UpdateRolesBody;
+
+    const updatedRoles = await setUserRoles(uid, roles);
+    await recordAudit(req, "user.roles.update", uid, { roles: updatedRoles });
+
+    return res.json({
+      success: true,
+      roles: updatedRoles,
+    });
+  } catch (error: any) {
+    next(error);
+  }
+});
+
+/**
+ * Impersonate a user for read-only inspection.
+ * Returns a custom token for the user; the resulting session is refused on
+ * anything but GET requests and expires after 15 minutes.
+ * @route POST /api/admin/users/:uid/impersonate
+ * @returns {Object} Custom token and its expiry
+ */
+router.post("/users/:uid/impersonate", async (req, res, next) => {
+  try {
+    const { uid } = req.params;
+    const adminUid = (req as any).uid as string;
+    const expiresAt = Date.now() + IMPERSONATION_TTL_MS;
+
+    await getAuthService().getUser(uid);
+
+    const token = await getAuthService().createCustomToken(uid, {
+      impersonatedBy: adminUid,
+      impersonationExpiresAt: expiresAt,
+    });
+
+    await recordAudit(req, "user.impersonate", uid, { expiresAt });
+
+    return res.json({
+      success: true,
+      token,
+      expiresAt: new Date(expiresAt).toISOString(),
+      readOnly: true,
+    });
+  } catch (error: any) {
+    next(error);
+  }
+});
+
+/**
+ * Audit trail of actions on a user
+ * @route GET /api/admin/users/:uid/audit
+ */
+router.get("/users/:uid/audit", async (req, res, next) => {
+  try {
+    const { uid } = req.params;
+    const entries = await listAuditForUser(uid);
+
+    return res.json({
+      success: true,
+      entries,
+    });
+  } catch (error: any) {
+    next(error);
+  }
+});
+
+export default router;
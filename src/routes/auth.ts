@@ -2,13 +2,52 @@
  * Authentication routes for user registration and login
  * @module AuthRoutes
  */
-import { Router } from 'express';
-import { auth, db } from '../config/firebase';
+import { Response, Router } from 'express';
+import { getAuthService } from '../services/authService';
+import { log } from '../log';
+import { getConfig } from '../config';
+import { loginFailuresTotal, registrationsTotal } from '../metrics';
 import { userDAO } from '../dao/userDAO';
-import { rateLimiter } from '../middleware/auth';
+import { verifyIdToken, SESSION_COOKIE_NAME } from '../middleware/auth';
+import { registerLimiter, loginLimiter, passwordResetLimiter } from '../middleware/rateLimit';
+import {
+  csrfProtection,
+  issueCsrfToken,
+  crossSiteCookieOptions,
+  CSRF_COOKIE_NAME
+} from '../middleware/csrf';
+import { isRecentSignIn } from '../services/accountLinking';
+import { recordSession, revokeSession, revokeAllSessions } from '../services/sessions';
+import { isTwoFactorEnabled, createLoginChallenge, satisfiesTwoFactor } from '../services/twoFactor';
+import {
+  getLockoutRemaining,
+  registerFailedAttempt,
+  clearFailedAttempts
+} from '../services/accountLockout';
+import { PasswordAuthError } from '../services/passwordAuth';
+import { sendMail } from '../services/mailer';
+import { sendVerificationEmail } from '../services/emailVerification';
+import { validate } from '../middleware/validate';
+import { idempotency } from '../middleware/idempotency';
+import { BadRequestError, ConflictError, TooManyRequestsError, UnauthorizedError } from '../errors';
+import { RegisterBodySchema, RegisterBody, PublicUser } from '../models/user';
+import {
+  LoginBodySchema,
+  LoginBody,
+  ForgotPasswordBodySchema,
+  ResetPasswordBodySchema,
+  ChangePasswordBodySchema,
+  VerifyEmailBodySchema,
+  SessionBodySchema
+} from '../models/auth';
 
 const router = Router();
 
+/**
+ * Session cookie lifetime (5 days, Firebase allows up to 14)
+ */
+const SESSION_EXPIRES_IN = 5 * 24 * 60 * 60 * 1000;
+
 
 /**
  * Register a new user
@@ -20,70 +59,27 @@ const router = Router();
  * @param {string} password - User's password
  * @returns {Object} Created user data
  */
-router.post('/register', async (req, res) => {
+router.post('/register', registerLimiter, idempotency, validate(RegisterBodySchema), async (req, res, next) => {
   try {
-    const { firstName, lastName, age, email, password } = req.body ;
-    
-    // Validation
-    if (!email || !password) {
-      return res.status(400).json({ 
-        success: false,
-        error: 'Email and password are required' 
-      });
-    }
-    
-    // Validate email format
-    const emailRule: RegExp = /^\S+@\S+\.\S+$/;
-    if(!emailRule.test(email)) {
-        return res.status(400).json({ message: "Email format is invalid. Please enter a valid email address." });
-    }
-
-    // Validate password format, this expression accepts chars like ñ, á etc.
-    const passwordRule: RegExp =  /^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)(?=.*[@$!%*?&#])[A-Za-z\d@$!%*?&#]{8,}$/;
-
-    if(!passwordRule.test(password)) {
-        return res.status(400).json({ message: "Password must have at least 8 characters, one uppercase, one lowercase, one number and one special character." });
-    }
-
-    // Validate age if it exists with manual register
-    const ageExists = age ? Number(age) : null;
-    if (ageExists < 13 && ageExists != null) {
-        return res.status(400).json({ message: "Age must be at least 13 years old." });
-    }
+    const { firstName, lastName, age, email, password } = req.body as RegisterBody;
 
     // Check if user already exists in Firebase Auth
     try {
-      const existingUser = await auth.getUserByEmail(email);
+      const existingUser = await getAuthService().getUserByEmail(email);
       
       // User exists, check if they have manual provider
-      const userDoc = await db.collection('users').doc(existingUser.uid).get();
+      const existingData = await userDAO.getOne(existingUser.uid);
       
-      if (userDoc.exists) {
-        const userData = userDoc.data();
-        const providers = userData?.providers || [];
+      if (existingData) {
+        const providers = existingData.providers || [];
         
         if (providers.includes('manual')) {
-          return res.status(400).json({ 
-            success: false,
-            error: 'Email already registered with manual login' 
-          });
-        } else {
-          // Update password for existing user
-          await auth.updateUser(existingUser.uid, { password });
-
-          // User exists with OAuth, add manual provider
-          const user = await userDAO.update(existingUser.uid, { providers: [...providers, 'manual'], updatedAt: new Date().toISOString() });
-          return res.json({
-            success: true,
-            user: {
-              uid: existingUser.uid,
-              firstName: userData?.firstName || '',
-              lastName: userData?.lastName || '',
-              age: userData?.age || null,
-              email: existingUser.email
-            }
-          });
+          throw new ConflictError('Email already registered with manual login', 'EMAIL_IN_USE');
         }
+
+        // The email belongs to an OAuth account. Registering a password does not prove
+        // ownership of the email, so it is never merged here: link it from the account instead
+        throw new ConflictError('Email already registered with another sign-in method. Sign in and link a password from your profile.', 'ACCOUNT_EXISTS');
       }
     } catch (error: any) {
       // User doesn't exist in Firebase Auth, proceed with creation
@@ -93,19 +89,19 @@ router.post('/register', async (req, res) => {
     }
 
     // Create new user in Firebase Auth
-    const userRecord = await auth.createUser({
+    const userRecord = await getAuthService().createUser({
       email,
       password,
-      displayName: `${firstName || ''} ${lastName || ''}`.trim(),
+      displayName: `${firstName} ${lastName}`.trim(),
       emailVerified: false,
     });
 
     // Store user data in Firestore
     const userData = {
       uid: userRecord.uid,
-      firstName: firstName || '',
-      lastName: lastName || '',
-      age: age ? Number(age) : null,
+      firstName,
+      lastName,
+      age,
       email,
       createdAt: new Date().toISOString(),
       updatedAt: new Date().toISOString(),
@@ -113,80 +109,102 @@ router.post('/register', async (req, res) => {
     };
 
     // Store user data in Firestore using userDAO
-    const user = await userDAO.create(userData);
+    await userDAO.create(userData);
+    registrationsTotal.inc({ provider: 'manual' });
+
+    // Verification email is best-effort, registration succeeds without it
+    try {
+      await sendVerificationEmail(email);
+    } catch (error: any) {
+      log.error('Verification email error', { error });
+    }
+
+    const publicUser: PublicUser = {
+      uid: userData.uid,
+      firstName: userData.firstName,
+      lastName: userData.lastName,
+      age: userData.age,
+      email: userData.email
+    };
 
     res.status(201).json({
       success: true,
-      user: {
-        uid: userData.uid,
-        firstName: userData.firstName,
-        lastName: userData.lastName,
-        age: userData.age,
-        email: userData.email
-      }
+      user: publicUser
     });
 
   } catch (error: any) {
-    console.error('Registration error:', error);
-    
     if (error.code === 'auth/email-already-exists') {
-      return res.status(400).json({ 
-        success: false,
-        error: 'Email already registered. Try logging in instead.' 
-      });
+      return next(new ConflictError('Email already registered. Try logging in instead.', 'EMAIL_IN_USE'));
     }
-    
-    res.status(400).json({ 
-      success: false,
-      error: error.message || 'Failed to register user'
-    });
+
+    next(error);
   }
 });
 
+/**
+ * Throws 429 ACCOUNT_LOCKED (with Retry-After) while the account is locked by repeated
+ * password failures
+ * @param {string} email - Account email
+ * @param {Response} res - Response receiving the Retry-After header
+ */
+async function refuseWhileLocked(email: string, res: Response): Promise<void> {
+  const lockedForMs = await getLockoutRemaining(email);
+  if (lockedForMs > 0) {
+    const retryAfter = Math.ceil(lockedForMs / 1000);
+    res.set('Retry-After', String(retryAfter));
+    throw new TooManyRequestsError(
+      'Too many failed attempts. The account is temporarily locked.',
+      'ACCOUNT_LOCKED',
+      { retryAfter }
+    );
+  }
+}
+
 /**
  * Manual login endpoint
- * @route POST /api/auth/register
+ * @route POST /api/auth/login
  * @param {string} email - User's email
  * @param {string} password - User's password
- * @returns {Object} User data and token
+ * @returns {Object} User data and token, or a two-factor challenge
  */
 
-router.post('/login', rateLimiter, async (req, res) => {
-  try {
-    const { email, password } = req.body;
+router.post('/login', loginLimiter, validate(LoginBodySchema), async (req, res, next) => {
+  const { email, password } = req.body as LoginBody;
 
-    if (!email || !password) {
-      return res.status(400).json({ 
-        success: false,
-        error: 'Email and password are required' 
-      });
-    }
+  try {
+    // Refuse early while the account is locked by repeated failures
+    await refuseWhileLocked(email, res);
 
-    // Get user by email
-    const userRecord = await auth.getUserByEmail(email);
+    // Verify the password with Firebase Identity Toolkit
+    const { uid } = await getAuthService().verifyPassword(email, password);
+    await clearFailedAttempts(email);
     
     // Verify the user has manual provider
-    const userDoc = await db.collection('users').doc(userRecord.uid).get();
+    const userData = await userDAO.getOne(uid);
     
-    if (!userDoc.exists) {
-      return res.status(401).json({ 
-        success: false,
-        error: 'User not found' 
-      });
+    if (!userData) {
+      throw new UnauthorizedError('User not found', 'USER_NOT_FOUND');
     }
 
-    const userData = userDoc.data();
-    const providers = userData?.providers || [];
+    const providers = userData.providers || [];
     
     if (!providers.includes('manual')) {
-      return res.status(401).json({ 
-        success: false,
-        error: 'Please use your original sign-in method' 
+      throw new UnauthorizedError('Please use your original sign-in method', 'PROVIDER_MISMATCH');
+    }
+
+    // With two-factor enabled, the password alone only earns a challenge
+    if (await isTwoFactorEnabled(uid)) {
+      const challenge = await createLoginChallenge(uid);
+      return res.json({
+        success: true,
+        twoFactorRequired: true,
+        ...challenge
       });
     }
 
-    // Generate custom token for the user
-    const customToken = await auth.createCustomToken(userRecord.uid);
+    // Record the session and generate custom token for the user
+    const sessionId = await recordSession(uid, req, 'manual');
+    const customToken = await getAuthService().createCustomToken(uid, { sid: sessionId });
 
     res.json({
       success: true,
@@ -195,20 +213,265 @@ router.post('/login', rateLimiter, async (req, res) => {
     });
 
   } catch (error: any) {
-    console.error('Login error:', error);
-    
-    if (error.code === 'auth/user-not-found') {
-      return res.status(401).json({ 
-        success: false,
-        error: 'Invalid email or password' 
+    loginFailuresTotal.inc({ reason: typeof error.code === 'string' ? error.code : 'INTERNAL_ERROR' });
+
+    if (error instanceof PasswordAuthError && error.code === 'INVALID_CREDENTIALS') {
+      await registerFailedAttempt(email).catch((err) => log.error('Lockout tracking error', { error: err }));
+    }
+
+    next(error);
+  }
+});
+
+/**
+ * Request a password reset link by email.
+ * Always answers the same way, so it cannot be used to find registered emails.
+ * @route POST /api/auth/password/forgot
+ * @param {string} email - User's email
+ * @returns {Object} Generic confirmation message
+ */
+router.post('/password/forgot', passwordResetLimiter, validate(ForgotPasswordBodySchema), async (req, res, next) => {
+  try {
+    const { email } = req.body;
+
+    try {
+      const continueUrl = getConfig().links.passwordResetUrl;
+      const link = await getAuthService().generatePasswordResetLink(
+        email,
+        continueUrl ? { url: continueUrl } : undefined
+      );
+
+      await sendMail({
+        to: email,
+        subject: 'Reset your LinkUp password',
+        text: `We received a request to reset your LinkUp password.\n\nOpen this link to choose a new one:\n${link}\n\nIf you did not ask for this, you can ignore this email.`
       });
+    } catch (error: any) {
+      if (error.code !== 'auth/user-not-found' && error.code !== 'auth/email-not-found') {
+        throw error;
+      }
     }
-    
-    res.status(401).json({ 
-      success: false,
-      error: 'Invalid credentials' 
+
+    res.json({
+      success: true,
+      message: 'If the email is registered, a password reset link has been sent'
+    });
+
+  } catch (error: any) {
+    next(error);
+  }
+});
+
+/**
+ * Set a new password using the code from a reset link.
+ * Existing sessions of the account are revoked.
+ * @route POST /api/auth/password/reset
+ * @param {string} oobCode - Code from the password reset link
+ * @param {string} newPassword - New password
+ * @returns {Object} Confirmation message
+ */
+router.post('/password/reset', passwordResetLimiter, validate(ResetPasswordBodySchema), async (req, res, next) => {
+  try {
+    const { oobCode, newPassword } = req.body;
+
+    const email = await getAuthService().confirmPasswordReset(oobCode, newPassword);
+    const userRecord = await getAuthService().getUserByEmail(email);
+    await revokeAllSessions(userRecord.uid);
+
+    res.json({
+      success: true,
+      message: 'Password has been reset. Please sign in again.'
     });
+
+  } catch (error: any) {
+    next(error);
   }
 });
 
+/**
+ * Change the password of the signed-in user.
+ * Requires the current password and revokes existing refresh tokens.
+ * Rate limited, and wrong current passwords count towards the account lockout.
+ * @route POST /api/auth/password/change
+ * @param {string} currentPassword - Current password
+ * @param {string} newPassword - New password
+ * @returns {Object} Confirmation message
+ */
+router.post('/password/change', passwordResetLimiter, verifyIdToken, validate(ChangePasswordBodySchema), async (req, res, next) => {
+  let email: string | undefined;
+
+  try {
+    const uid = (req as any).uid as string;
+    const { currentPassword, newPassword } = req.body;
+
+    const userRecord = await getAuthService().getUser(uid);
+    email = userRecord.email;
+
+    // Same lockout as sign-in, so a stolen session cannot guess the current password
+    await refuseWhileLocked(email, res);
+    await getAuthService().verifyPassword(email, currentPassword);
+    await clearFailedAttempts(email);
+
+    await getAuthService().updateUser(uid, { password: newPassword });
+    await revokeAllSessions(uid);
+
+    res.json({
+      success: true,
+      message: 'Password changed. Please sign in again.'
+    });
+
+  } catch (error: any) {
+    if (email && error instanceof PasswordAuthError && error.code === 'INVALID_CREDENTIALS') {
+      await registerFailedAttempt(email).catch((err) => log.error('Lockout tracking error', { error: err }));
+    }
+
+    next(error);
+  }
+});
+
+/**
+ * Send (or resend) the email verification link to the signed-in user
+ * @route POST /api/auth/email/verification
+ * @returns {Object} Confirmation message
+ */
+router.post('/email/verification', verifyIdToken, async (req, res, next) => {
+  try {
+    const uid = (req as any).uid as string;
+    const userRecord = await getAuthService().getUser(uid);
+
+    if (!userRecord.email) {
+      throw new BadRequestError('The account has no email address', 'EMAIL_REQUIRED');
+    }
+
+    if (userRecord.emailVerified) {
+      throw new BadRequestError('Email is already verified', 'EMAIL_ALREADY_VERIFIED');
+    }
+
+    await sendVerificationEmail(userRecord.email);
+
+    res.json({
+      success: true,
+      message: 'Verification email sent'
+    });
+
+  } catch (error: any) {
+    next(error);
+  }
+});
+
+/**
+ * Confirm an email address using the code from a verification link
+ * @route POST /api/auth/email/verify
+ * @param {string} oobCode - Code from the verification link
+ * @returns {Object} Confirmation message
+ */
+router.post('/email/verify', validate(VerifyEmailBodySchema), async (req, res, next) => {
+  try {
+    const { oobCode } = req.body;
+
+    const email = await getAuthService().confirmEmailVerification(oobCode);
+    const userRecord = await getAuthService().getUserByEmail(email);
+
+    await userDAO.set(userRecord.uid, {
+      emailVerified: true,
+      updatedAt: new Date().toISOString()
+    });
+
+    res.json({
+      success: true,
+      message: 'Email verified successfully'
+    });
+
+  } catch (error: any) {
+    next(error);
+  }
+});
+
+/**
+ * Issue a CSRF token (also set as the `csrfToken` cookie).
+ * Send it back in the `X-CSRF-Token` header on cookie-authenticated requests.
+ * @route GET /api/auth/csrf
+ * @returns {Object} CSRF token
+ */
+router.get('/csrf', (_req, res) => {
+  const csrfToken = issueCsrfToken(res);
+  res.json({
+    success: true,
+    csrfToken
+  });
+});
+
+/**
+ * Exchange a fresh ID token for an httpOnly session cookie
+ * @route POST /api/auth/session
+ * @param {string} idToken - Firebase ID token from a recent sign-in
+ * @returns {Object} New CSRF token and cookie lifetime
+ */
+router.post('/session', csrfProtection, validate(SessionBodySchema), async (req, res, next) => {
+  try {
+    const { idToken } = req.body;
+
+    const decodedToken = await getAuthService().verifyIdToken(idToken, true);
+
+    // Only mint session cookies for recent sign-ins, not for long-lived refreshed tokens
+    if (!isRecentSignIn(decodedToken.auth_time)) {
+      throw new UnauthorizedError('Recent sign-in required', 'REAUTHENTICATION_REQUIRED');
+    }
+
+    if (!(await satisfiesTwoFactor(decodedToken))) {
+      throw new UnauthorizedError('Two-factor verification required', 'TWO_FACTOR_REQUIRED');
+    }
+
+    const sessionCookie = await getAuthService().createSessionCookie(idToken, { expiresIn: SESSION_EXPIRES_IN });
+
+    res.cookie(SESSION_COOKIE_NAME, sessionCookie, {
+      ...crossSiteCookieOptions(),
+      httpOnly: true,
+      maxAge: SESSION_EXPIRES_IN
+    });
+    const csrfToken = issueCsrfToken(res);
+
+    res.json({
+      success: true,
+      csrfToken,
+      expiresIn: SESSION_EXPIRES_IN
+    });
+
+  } catch (error: any) {
+    next(error);
+  }
+});
+
+/**
+ * Log out: clear the session cookie and revoke the session it belongs to
+ * @route DELETE /api/auth/session
+ * @returns {Object} Confirmation message
+ */
+router.delete('/session', csrfProtection, async (req, res) => {
+  const sessionCookie: string | undefined = req.cookies?.[SESSION_COOKIE_NAME];
+
+  res.clearCookie(SESSION_COOKIE_NAME, crossSiteCookieOptions());
+  res.clearCookie(CSRF_COOKIE_NAME, crossSiteCookieOptions());
+
+  if (sessionCookie) {
+    try {
+      const decodedClaims = await getAuthService().verifySessionCookie(sessionCookie);
+
+      if (decodedClaims.sid) {
+        await revokeSession(decodedClaims.sub, decodedClaims.sid);
+      } else {
+        await revokeAllSessions(decodedClaims.sub);
+      }
+    } catch (error: any) {
+      // An invalid or expired cookie is already logged out
+      log.warn('Revoke session error', { error });
+    }
+  }
+
+  res.json({
+    success: true,
+    message: 'Logged out'
+  });
+});
+
 export default router;
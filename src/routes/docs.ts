@@ -0,0 +1,49 @@
+/**
+ * API documentation routes: the OpenAPI document and an interactive viewer
+ * @module DocsRoutes
+ */
+import { Router } from 'express';
+import { buildOpenApiDocument } from '../openapi';
+
+const router = Router();
+
+/**
+ * Swagger UI, loaded from a CDN so no assets are bundled with the backend
+ */
+const SWAGGER_UI_VERSION = '5';
+const DOCS_PAGE = `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>LinkUp API</title>
+  <link rel="stylesheet" href="https://cdn.jsdelivr.net/npm/swagger-ui-dist@${SWAGGER_UI_VERSION}/swagger-ui.css">
+</head>
+<body>
+  <div id="swagger-ui"></div>
+  <script src="https://cdn.jsdelivr.net/npm/swagger-ui-dist@${SWAGGER_UI_VERSION}/swagger-ui-bundle.js"></script>
+  <script>
+    SwaggerUIBundle({ url: 'openapi.json', dom_id: '#swagger-ui', withCredentials: true });
+  </script>
+</body>
+</html>
+`;
+
+/**
+ * OpenAPI 3 document of the whole API
+ * @route GET /api/openapi.json
+ * @returns {Object} OpenAPI document
+ */
+router.get('/openapi.json', (_req, res) => {
+  res.json(buildOpenApiDocument());
+});
+
+/**
+ * Interactive documentation of the API
+ * @route GET /api/docs
+ * @returns {string} HTML page
+ */
+router.get('/docs', (_req, res) => {
+  res.type('html').send(DOCS_PAGE);
+});
+
+export default router;
@@ -0,0 +1,59 @@
+/**
+ * Health check routes for load balancers and orchestrators
+ * @module HealthRoutes
+ */
+import { Router } from 'express';
+import { getBuildInfo, checkReadiness } from '../services/health';
+
+const router = Router();
+
+/**
+ * Basic health check (kept for existing monitors, same as /live)
+ * @route GET /api/health
+ * @returns {Object} Health status and build information
+ */
+router.get('/', (_req, res) => {
+  res.json({
+    status: 'OK',
+    timestamp: new Date().toISOString(),
+    ...getBuildInfo()
+  });
+});
+
+/**
+ * Liveness: the process is up and serving requests.
+ * Does not touch dependencies, so a Firebase outage never restarts the server.
+ * @route GET /api/health/live
+ * @returns {Object} Liveness status and build information
+ */
+router.get('/live', (_req, res) => {
+  res.json({
+    status: 'OK',
+    timestamp: new Date().toISOString(),
+    uptime: process.uptime(),
+    ...getBuildInfo()
+  });
+});
+
+/**
+ * Readiness: configuration is valid and Firestore and Auth answer in time.
+ * Answers 503 when a check fails or once a graceful shutdown has started.
+ * @route GET /api/health/ready
+ * @returns {Object} Readiness status, checks and build information
+ */
+router.get('/ready', async (_req, res, next) => {
+  try {
+    const { ready, status, checks } = await checkReadiness();
+
+    res.status(ready ? 200 : 503).json({
+      status,
+      timestamp: new Date().toISOString(),
+      ...getBuildInfo(),
+      checks
+    });
+  } catch (error: any) {
+    next(error);
+  }
+});
+
+export default router;
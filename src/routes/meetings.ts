@@ -3,23 +3,39 @@
  * @module MeetingRoutes
  */
 import { Router } from "express";
-import { db } from "../config/firebase";
+import { meetingDAO } from "../dao/meetingDAO";
 import { verifyIdToken } from "../middleware/auth";
+import { hasPermission } from "../services/roles";
+import { validate } from "../middleware/validate";
+import { idempotency } from "../middleware/idempotency";
+import { etagOf, ifMatchSatisfied } from "../services/etag";
+import { ForbiddenError, NotFoundError, PreconditionFailedError } from "../errors";
+import { log } from "../log";
+import { getConfig } from "../config";
+import { meetingJoinsTotal, meetingsCreatedTotal } from "../metrics";
+import {
+  CreateMeetingBodySchema,
+  CreateMeetingBody,
+  UpdateMeetingBodySchema,
+  UpdateMeetingBody,
+  Meeting,
+} from "../models/meeting";
 
 const router = Router();
 
 /**
- * Create a new meeting
+ * Create a new meeting.
+ * With REQUIRE_VERIFIED_EMAIL=true, accounts with an unverified email are refused.
  * @route POST /api/meetings
  */
-router.post("/", verifyIdToken, async (req, res, next) => {
+router.post("/", verifyIdToken({ requireVerifiedEmail: () => getConfig().features.requireVerifiedEmail }), idempotency, validate(CreateMeetingBodySchema), async (req, res, next) => {
   try {
     const ownerUid = (req as any).uid as string;
-    const { title, scheduledAt, description } = req.body;
+    const { title, scheduledAt, description, isPublic } = req.body as CreateMeetingBody;
 
     const now = new Date().toISOString();
 
-    const meetingData = {
+    const meetingData: Omit<Meeting, "id"> = {
       title: title || "Untitled Meeting",
       scheduledAt: scheduledAt || null,
       description: description || "",
@@ -28,15 +44,16 @@ router.post("/", verifyIdToken, async (req, res, next) => {
       updatedAt: now,
       status: "scheduled",
       participants: [ownerUid],
-      isPublic: true, // ✅ Permitir acceso público por defecto
+      isPublic: isPublic ?? true, // ✅ Permitir acceso público por defecto
     };
 
-    const ref = await db.collection("meetings").add(meetingData);
+    const id = await meetingDAO.create(meetingData);
+    meetingsCreatedTotal.inc();
 
     res.status(201).json({
       success: true,
       meeting: {
-        id: ref.id,
+        id,
         ...meetingData,
       },
     });
@@ -53,16 +70,7 @@ router.get("/", verifyIdToken, async (req, res, next) => {
   try {
     const ownerUid = (req as any).uid as string;
 
-    const snapshot = await db
-      .collection("meetings")
-      .where("ownerUid", "==", ownerUid)
-      .orderBy("createdAt", "desc")
-      .get();
-
-    const meetings = snapshot.docs.map((doc) => ({
-      id: doc.id,
-      ...doc.data(),
-    }));
+    const meetings = await meetingDAO.findByOwner(ownerUid);
 
     res.json({
       success: true,
@@ -77,46 +85,27 @@ router.get("/", verifyIdToken, async (req, res, next) => {
 /**
  * ✅ MEJORADO: Get a specific meeting by ID
  * Permite acceso a CUALQUIER usuario autenticado (acceso público)
+ * Read-only: joining is POST /api/meetings/:id/join.
+ * Answers 304 when `If-None-Match` has the current ETag.
  * @route GET /api/meetings/:id
  */
 router.get("/:id", verifyIdToken, async (req, res, next) => {
   try {
-    const currentUserId = (req as any).uid as string;
     const { id } = req.params;
 
-    const docRef = db.collection("meetings").doc(id);
-    const snap = await docRef.get();
+    const meeting = await meetingDAO.getOne(id);
 
-    if (!snap.exists) {
-      return res.status(404).json({
-        success: false,
-        error: "Meeting not found",
-      });
+    if (!meeting) {
+      throw new NotFoundError("Meeting not found", "MEETING_NOT_FOUND");
     }
 
-    const data = snap.data() as any;
-
     // ✅ ACCESO PÚBLICO: Cualquier usuario autenticado puede acceder
     // Solo verificar que el usuario esté autenticado (ya verificado por verifyIdToken)
-    
-    // ✅ Agregar automáticamente como participante si no lo es
-    const isParticipant = data.participants?.includes(currentUserId);
-    
-    if (!isParticipant) {
-      console.log(`➕ Adding user ${currentUserId} to meeting ${id}`);
-      await docRef.update({
-        participants: [...(data.participants || []), currentUserId],
-      });
-      
-      data.participants = [...(data.participants || []), currentUserId];
-    }
-
+    // Reading never joins: that is POST /:id/join, so a cross-site GET cannot add anyone
+    res.set("ETag", etagOf(meeting));
     res.json({
       success: true,
-      meeting: {
-        id: snap.id,
-        ...data,
-      },
+      meeting,
     });
   } catch (error: any) {
     next(error);
@@ -124,94 +113,40 @@ router.get("/:id", verifyIdToken, async (req, res, next) => {
 });
 
 /**
- * Update a meeting
- * @route PUT /api/meetings/:id
+ * Join a meeting as a participant (joining again changes nothing)
+ * @route POST /api/meetings/:id/join
  */
-router.put("/:id", verifyIdToken, async (req, res, next) => {
+router.post("/:id/join", verifyIdToken, async (req, res, next) => {
   try {
-    const ownerUid = (req as any).uid as string;
+    const currentUserId = (req as any).uid as string;
     const { id } = req.params;
-    const { title, description, scheduledAt, status, isPublic } = req.body;
 
-    const docRef = db.collection("meetings").doc(id);
-    const snap = await docRef.get();
+    // In a transaction, so concurrent joins do not drop each other
+    const joined = await meetingDAO.runTransaction(async (tx) => {
+      const data = await tx.get(id);
 
-    if (!snap.exists) {
-      return res.status(404).json({
-        success: false,
-        error: "Meeting not found",
-      });
-    }
-
-    const data = snap.data() as any;
-
-    // Solo el owner puede actualizar
-    if (data.ownerUid && data.ownerUid !== ownerUid) {
-      return res.status(403).json({
-        success: false,
-        error: "Not authorized to update this meeting",
-      });
-    }
-
-    const updates: any = {
-      updatedAt: new Date().toISOString(),
-    };
-
-    if (title !== undefined) updates.title = title || "Untitled Meeting";
-    if (description !== undefined) updates.description = description;
-    if (scheduledAt !== undefined) updates.scheduledAt = scheduledAt || null;
-    if (status !== undefined) updates.status = status;
-    if (isPublic !== undefined) updates.isPublic = isPublic; // ✅ Permitir cambiar privacidad
-
-    await docRef.update(updates);
+      if (!data) {
+        throw new NotFoundError("Meeting not found", "MEETING_NOT_FOUND");
+      }
 
-    const updatedSnap = await docRef.get();
+      const participants = data.participants || [];
+      if (participants.includes(currentUserId)) return false;
 
-    res.json({
-      success: true,
-      meeting: {
-        id: updatedSnap.id,
-        ...updatedSnap.data(),
-      },
+      tx.update(id, { participants: [...participants, currentUserId] });
+      return true;
     });
-  } catch (error: any) {
-    next(error);
-  }
-});
-
-/**
- * Delete / cancel a meeting
- * @route DELETE /api/meetings/:id
- */
-router.delete("/:id", verifyIdToken, async (req, res, next) => {
-  try {
-    const ownerUid = (req as any).uid as string;
-    const { id } = req.params;
-
-    const docRef = db.collection("meetings").doc(id);
-    const snap = await docRef.get();
 
-    if (!snap.exists) {
-      return res.status(404).json({
-        success: false,
-        error: "Meeting not found",
-      });
+    if (joined) {
+      log.info("Adding participant to meeting", { uid: currentUserId, meetingId: id });
+      meetingJoinsTotal.inc();
     }
 
-    const data = snap.data() as any;
-
-    // Solo el owner puede eliminar
-    if (data.ownerUid && data.ownerUid !== ownerUid) {
-      return res.status(403).json({
-        success: false,
-        error: "Not authorized to delete this meeting",
-      });
-    }
-
-    await docRef.delete();
+    const meeting = await meetingDAO.getOne(id);
 
+    res.set("ETag", etagOf(meeting || {}));
     res.json({
       success: true,
+      meeting,
     });
   } catch (error: any) {
     next(error);
@@ -219,180 +154,130 @@ router.delete("/:id", verifyIdToken, async (req, res, next) => {
 });
 
 /**
- * ✅ NUEVO: Get meeting participants in real-time
- * @route GET /api/meetings/:id/participants
+ * Update a meeting.
+ * With `If-Match`, answers 412 when the meeting changed since it was read.
+ * @route PUT /api/meetings/:id
  */
-router.get("/:id/participants", verifyIdToken, async (req, res, next) => {
+router.put("/:id", verifyIdToken, idempotency, validate(UpdateMeetingBodySchema), async (req, res, next) => {
   try {
     const ownerUid = (req as any).uid as string;
     const { id } = req.params;
+    const { title, description, scheduledAt, status, isPublic } = req.body as UpdateMeetingBody;
 
-    const docRef = db.collection("meetings").doc(id);
-    const snap = await docRef.get();
-
-    if (!snap.exists) {
-      return res.status(404).json({
-        success: false,
-        error: "Meeting not found",
-      });
-    }
-
-    const data = snap.data() as any;
-
-    // Verificar acceso
-    const isOwner = data.ownerUid === ownerUid;
-    const isParticipant = data.participants?.includes(ownerUid);
-    const isPublic = data.isPublic === true;
+    const updates: Partial<Meeting> = {
+      updatedAt: new Date().toISOString(),
+    };
 
-    if (!isOwner && !isParticipant && !isPublic) {
-      return res.status(403).json({
-        success: false,
-        error: "Not authorized to access this meeting",
-      });
-    }
+    if (title !== undefined) updates.title = title || "Untitled Meeting";
+    if (description !== undefined) updates.description = description;
+    if (scheduledAt !== undefined) updates.scheduledAt = scheduledAt || null;
+    if (status !== undefined) updates.status = status;
+    if (isPublic !== undefined) updates.isPublic = isPublic; // ✅ Permitir cambiar privacidad
 
-    res.json({
-      success: true,
-      participants: data.participants || [],
-      count: (data.participants || []).length,
-    });
-  } catch (error: any) {
-    next(error);
-  }
-});
+    // Read, check and write in one transaction, so a concurrent edit is never overwritten
+    await meetingDAO.runTransaction(async (tx) => {
+      const data = await tx.get(id);
 
-/**
- * Get a specific meeting by ID
- * @route GET /api/meetings/:id
- * @returns {Object} Meeting data
- */
-router.get('/:id', async (req, res, next) => {
-  try {
-    const ownerUid = (req as any).uid as string;
-    const { id } = req.params;
+      if (!data) {
+        throw new NotFoundError("Meeting not found", "MEETING_NOT_FOUND");
+      }
 
-    const doc = await db.collection('meetings').doc(id).get();
+      // Solo el owner (o un moderador/admin) puede actualizar
+      if (
+        data.ownerUid &&
+        data.ownerUid !== ownerUid &&
+        !hasPermission((req as any).user, "meetings:update")
+      ) {
+        throw new ForbiddenError("Not authorized to update this meeting");
+      }
 
-    if (!doc.exists) {
-      return res.status(404).json({
-        success: false,
-        error: 'Meeting not found'
-      });
-    }
+      if (!ifMatchSatisfied(req.get("If-Match"), data)) {
+        throw new PreconditionFailedError("Meeting was modified since it was read", "MEETING_MODIFIED");
+      }
 
-    const meeting = doc.data();
+      tx.update(id, updates);
+    });
 
-    // Verificar que el usuario es el propietario o participante
-    if (meeting?.ownerUid !== ownerUid && !meeting?.participants?.includes(ownerUid)) {
-      return res.status(403).json({
-        success: false,
-        error: 'Access denied'
-      });
-    }
+    const meeting = await meetingDAO.getOne(id);
 
+    res.set("ETag", etagOf(meeting || {}));
     res.json({
       success: true,
-      meeting: {
-        id: doc.id,
-        ...meeting
-      }
+      meeting,
     });
-
   } catch (error: any) {
     next(error);
   }
 });
 
 /**
- * Update a meeting
- * @route PUT /api/meetings/:id
+ * Delete / cancel a meeting
+ * @route DELETE /api/meetings/:id
  */
-router.put('/:id', async (req, res, next) => {
+router.delete("/:id", verifyIdToken, idempotency, async (req, res, next) => {
   try {
     const ownerUid = (req as any).uid as string;
     const { id } = req.params;
-    const { title, scheduledAt, description, status } = req.body;
 
-    const docRef = db.collection('meetings').doc(id);
-    const doc = await docRef.get();
+    const data = await meetingDAO.getOne(id);
 
-    if (!doc.exists) {
-      return res.status(404).json({
-        success: false,
-        error: 'Meeting not found'
-      });
+    if (!data) {
+      throw new NotFoundError("Meeting not found", "MEETING_NOT_FOUND");
     }
 
-    const meeting = doc.data();
-
-    if (meeting?.ownerUid !== ownerUid) {
-      return res.status(403).json({
-        success: false,
-        error: 'Access denied'
-      });
+    // Solo el owner (o un moderador/admin) puede eliminar
+    if (
+      data.ownerUid &&
+      data.ownerUid !== ownerUid &&
+      !hasPermission((req as any).user, "meetings:delete")
+    ) {
+      throw new ForbiddenError("Not authorized to delete this meeting");
     }
 
-    const updateData = {
-      ...(title !== undefined && { title }),
-      ...(scheduledAt !== undefined && { scheduledAt }),
-      ...(description !== undefined && { description }),
-      ...(status !== undefined && { status }),
-      updatedAt: new Date().toISOString()
-    };
-
-    await docRef.update(updateData);
+    await meetingDAO.delete(id);
 
     res.json({
       success: true,
-      meeting: {
-        id,
-        ...meeting,
-        ...updateData
-      }
     });
-
   } catch (error: any) {
     next(error);
   }
 });
 
 /**
- * Delete a meeting
- * @route DELETE /api/meetings/:id
+ * ✅ NUEVO: Get meeting participants in real-time
+ * @route GET /api/meetings/:id/participants
  */
-router.delete('/:id', async (req, res, next) => {
+router.get("/:id/participants", verifyIdToken, async (req, res, next) => {
   try {
     const ownerUid = (req as any).uid as string;
     const { id } = req.params;
 
-    const doc = await db.collection('meetings').doc(id).get();
+    const data = await meetingDAO.getOne(id);
 
-    if (!doc.exists) {
-      return res.status(404).json({
-        success: false,
-        error: 'Meeting not found'
-      });
+    if (!data) {
+      throw new NotFoundError("Meeting not found", "MEETING_NOT_FOUND");
     }
 
-    const meeting = doc.data();
+    // Verificar acceso
+    const isOwner = data.ownerUid === ownerUid;
+    const isParticipant = data.participants?.includes(ownerUid);
+    const isPublic = data.isPublic === true;
+
+    const canReadAny = hasPermission((req as any).user, "meetings:read");
 
-    if (meeting?.ownerUid !== ownerUid) {
-      return res.status(403).json({
-        success: false,
-        error: 'Access denied'
-      });
+    if (!isOwner && !isParticipant && !isPublic && !canReadAny) {
+      throw new ForbiddenError("Not authorized to access this meeting");
     }
 
-    await db.collection('meetings').doc(id).delete();
-
     res.json({
       success: true,
-      message: 'Meeting deleted successfully'
+      participants: data.participants || [],
+      count: (data.participants || []).length,
     });
-
   } catch (error: any) {
     next(error);
   }
 });
 
-export default router;
\ No newline at end of file
+export default router;
@@ -3,8 +3,23 @@
  * @module OAuthRoutes
  */
 import { Router } from "express";
-import { auth, db } from "../config/firebase";
+import { getAuthService } from "../services/authService";
+import { log } from "../log";
+import { registrationsTotal } from "../metrics";
 import { userDAO } from "../dao/userDAO";
+import { oauthLimiter } from "../middleware/rateLimit";
+import { validate } from "../middleware/validate";
+import { ProviderTokenBodySchema } from "../models/auth";
+import { User } from "../models/user";
+import { getSignInProvider, NormalizedProfile } from "../providers";
+import { recordSession } from "../services/sessions";
+import { BadRequestError, NotFoundError } from "../errors";
+import {
+  AccountLinkError,
+  canAutoLink,
+  findUserByProviderUid,
+} from "../services/accountLinking";
+import { createLoginChallenge, isTwoFactorEnabled } from "../services/twoFactor";
 
 const router = Router();
 
@@ -44,300 +59,140 @@ function mergeProviders(
 }
 
 /**
- * Verify Google OAuth token and create/update user
- * @route POST /api/oauth/google
- * @param {string} token - Google OAuth token
- * @param {Object} userProfile - Google user profile
- * @returns {Object} User data and token
+ * Finds or creates the Firebase Auth user and the Firestore profile for a
+ * verified provider identity.
+ * @param {string} providerId - Provider the user signed in with
+ * @param {NormalizedProfile} profile - Verified, normalized profile
+ * @returns {Promise<User>} Stored user data
  */
-router.post("/google", async (req, res) => {
+async function upsertOAuthUser(
+  providerId: string,
+  profile: NormalizedProfile
+): Promise<User> {
+  // Returning users are found by their provider identity first, then by email
+  const linkedUid = await findUserByProviderUid(providerId, profile.providerUid);
+
+  let userRecord;
+  let isNewUser = false;
   try {
-    const { token, userProfile } = req.body;
-    console.log("Google OAuth: Received user profile", userProfile);
-
-    if (!userProfile?.email) {
-      return res.status(400).json({
-        success: false,
-        error: "User profile with email is required",
+    userRecord = linkedUid
+      ? await getAuthService().getUser(linkedUid)
+      : await getAuthService().getUserByEmail(profile.email);
+    log.info("OAuth sign-in of an existing user", { provider: providerId, uid: userRecord.uid });
+  } catch (error: any) {
+    if (error.code === "auth/user-not-found") {
+      userRecord = await getAuthService().createUser({
+        email: profile.email,
+        displayName: profile.displayName,
+        emailVerified: profile.emailVerified,
       });
-    }
-
-    // Split displayName into parts
-    const parts = (userProfile.displayName || userProfile.name || "")
-      .trim()
-      .split(/\s+/);
-
-    const [name, secondName, firstLastName, secondLastName] = [
-      parts[0] ?? null,
-      parts[1] ?? null,
-      parts[2] ?? null,
-      parts[3] ?? null,
-    ];
-
-    const firstName = name
-      ? name + (secondName ? ` ${secondName}` : "")
-      : "";
-    const lastName = firstLastName
-      ? firstLastName + (secondLastName ? ` ${secondLastName}` : "")
-      : parts.slice(1).join(" ");
-
-    // Find existing user or create new one in Firebase Auth
-    let userRecord;
-    try {
-      userRecord = await auth.getUserByEmail(userProfile.email);
-      console.log("Google OAuth: Existing user found", userRecord.uid);
-    } catch (error: any) {
-      if (error.code === "auth/user-not-found") {
-        userRecord = await auth.createUser({
-          email: userProfile.email,
-          displayName: userProfile.name || userProfile.displayName,
-          emailVerified: true,
-        });
-        console.log("Google OAuth: New user created", userRecord.uid);
-      } else {
-        throw error;
-      }
-    }
-
-    const uid = userRecord.uid;
-    const now = new Date().toISOString();
-
-    // Load existing Firestore user doc (if any)
-    const userRef = db.collection("users").doc(uid);
-    const existingSnap = await userRef.get();
-    const existingData = existingSnap.exists ? existingSnap.data() : undefined;
-
-    const providers = mergeProviders(
-      (existingData?.providers as string[]) || [],
-      "google"
-    );
-
-    const incomingData = {
-      uid,
-      firstName,
-      lastName,
-      email: userProfile.email,
-      displayName: userProfile.name || userProfile.displayName,
-      photoURL: userProfile.picture,
-      providers,
-      lastLogin: now,
-      updatedAt: now,
-      emailVerified: true,
-    };
-
-    const mergedData = mergeUserData(existingData, incomingData);
-
-    let user;
-    if (existingSnap.exists) {
-      user = await userDAO.update(uid, mergedData);
+      isNewUser = true;
+      registrationsTotal.inc({ provider: providerId });
+      log.info("OAuth user created", { provider: providerId, uid: userRecord.uid });
     } else {
-      user = await userDAO.create({
-        ...mergedData,
-        createdAt: now,
-      });
+      throw error;
     }
-
-    const customToken = await auth.createCustomToken(uid);
-
-    res.json({
-      success: true,
-      user,
-      token: customToken,
-    });
-  } catch (error: any) {
-    console.error("Google OAuth error:", error);
-    res.status(400).json({
-      success: false,
-      error: error.message || "Google authentication failed",
-    });
   }
-});
-
-/**
- * Verify Github OAuth token and create/update user
- * @route POST /api/oauth/github
- * @param {string} token - Github OAuth token
- * @param {Object} userProfile - Github user profile
- * @returns {Object} User data and token
- */
-router.post("/github", async (req, res) => {
-  try {
-    const { token, userProfile } = req.body;
-    console.log("Github OAuth: Received user profile", userProfile);
-
-    if (!userProfile?.email) {
-      return res.status(400).json({
-        success: false,
-        error: "User profile with email is required",
-      });
-    }
 
-    // Find existing user or create new one
-    let userRecord;
-    try {
-      if (userProfile.uid) {
-        userRecord = await auth.getUser(userProfile.uid);
-      } else {
-        userRecord = await auth.getUserByEmail(userProfile.email);
-      }
-      console.log("Github OAuth: Existing user found", userRecord.uid);
-    } catch (error: any) {
-      if (error.code === "auth/user-not-found") {
-        userRecord = await auth.createUser({
-          email: userProfile.email,
-          displayName: userProfile.name,
-        });
-        console.log("Github OAuth: New user created", userRecord.uid);
-      } else {
-        throw error;
-      }
-    }
-
-    const uid = userRecord.uid;
-    const now = new Date().toISOString();
-
-    // Load existing Firestore user doc
-    const userRef = db.collection("users").doc(uid);
-    const existingSnap = await userRef.get();
-    const existingData = existingSnap.exists ? existingSnap.data() : undefined;
-
-    const providers = mergeProviders(
-      (existingData?.providers as string[]) || [],
-      "github"
+  const uid = userRecord.uid;
+  const now = new Date().toISOString();
+
+  // Load existing Firestore user doc (if any)
+  const existingData = await userDAO.getOne(uid);
+
+  // Matching by email only: merge only when both sides have a verified email.
+  // This includes accounts that list the provider from before provider IDs were recorded:
+  // the provider name alone does not prove the identity is the same.
+  if (
+    !isNewUser &&
+    !linkedUid &&
+    !canAutoLink(userRecord.emailVerified, profile.emailVerified)
+  ) {
+    throw new AccountLinkError(
+      "ACCOUNT_LINK_REQUIRED",
+      "An account with this email already exists. Sign in with your original method and link this provider from your profile.",
+      409
     );
+  }
 
-    const nameFromProfile =
-      userProfile.name || userProfile.login || userProfile.username || "";
-    const parts = nameFromProfile.trim().split(/\s+/);
-
-    const incomingData = {
-      uid,
-      firstName:
-        userProfile.first_name ||
-        (parts[0] || "") ||
-        (existingData?.firstName ?? ""),
-      lastName:
-        userProfile.last_name ||
-        parts.slice(1).join(" ") ||
-        (existingData?.lastName ?? ""),
-      email: userProfile.email,
-      displayName: nameFromProfile,
-      photoURL:
-        userProfile.avatar_url ??
-        userProfile.picture?.data?.url ??
-        userProfile.picture ??
-        null,
-      providers,
-      lastLogin: now,
-      updatedAt: now,
-      emailVerified: false,
-    };
-
-    const mergedData = mergeUserData(existingData, incomingData);
-
-    const user = existingSnap.exists
-      ? await userDAO.update(uid, mergedData)
-      : await userDAO.create({
-          ...mergedData,
-          createdAt: now,
-        });
-
-    const customToken = await auth.createCustomToken(uid);
-
-    res.json({
-      success: true,
-      user,
-      token: customToken,
-    });
-  } catch (error: any) {
-    console.error("Github OAuth error:", error);
-    res.status(400).json({
-      success: false,
-      error: error.message || "Github authentication failed",
-    });
+  const providers = mergeProviders(
+    (existingData?.providers as string[]) || [],
+    providerId
+  );
+
+  const incomingData = {
+    uid,
+    firstName: profile.firstName,
+    lastName: profile.lastName,
+    email: profile.email,
+    displayName: profile.displayName,
+    photoURL: profile.photoURL,
+    providers,
+    providerIds: {
+      ...(existingData?.providerIds || {}),
+      [providerId]: profile.providerUid,
+    },
+    lastLogin: now,
+    updatedAt: now,
+    emailVerified: profile.emailVerified,
+  };
+
+  const mergedData = mergeUserData(existingData, incomingData);
+
+  if (existingData) {
+    await userDAO.update(uid, mergedData);
+    return mergedData;
   }
-});
+
+  const created = { ...mergedData, createdAt: now };
+  await userDAO.create(created);
+  return created;
+}
 
 /**
- * Verify Facebook OAuth token and create/update user
- * @route POST /api/oauth/facebook
- * @param {string} token - Facebook OAuth token
- * @param {Object} userProfile - Facebook user profile
- * @returns {Object} User data and token
+ * Verify an OAuth provider token and create/update user
+ * @route POST /api/oauth/:provider
+ * @param {string} provider - Registered sign-in provider (google, github, facebook, ...)
+ * @param {string} token - Provider token (ID or access token), verified server-side
+ * @returns {Object} User data and token, or a two-factor challenge
  */
-router.post("/facebook", async (req, res) => {
+router.post("/:provider", oauthLimiter, validate(ProviderTokenBodySchema), async (req, res, next) => {
   try {
-    const { token, userProfile } = req.body;
-    console.log("Facebook OAuth: Received user profile", userProfile);
+    const signInProvider = getSignInProvider(req.params.provider);
 
-    if (!userProfile?.email) {
-      return res.status(400).json({
-        success: false,
-        error: "User profile with email is required",
-      });
-    }
-
-    // Find existing user or create new one
-    let userRecord;
-    try {
-      userRecord = await auth.getUserByEmail(userProfile.email);
-      console.log("Facebook OAuth: Existing user found", userRecord.uid);
-    } catch (error: any) {
-      if (error.code === "auth/user-not-found") {
-        userRecord = await auth.createUser({
-          email: userProfile.email,
-          displayName: userProfile.name,
-          emailVerified: false,
-        });
-        console.log("Facebook OAuth: New user created", userRecord.uid);
-      } else {
-        throw error;
-      }
+    if (!signInProvider) {
+      throw new NotFoundError("Unsupported sign-in provider", "UNSUPPORTED_PROVIDER");
     }
 
-    const uid = userRecord.uid;
-    const now = new Date().toISOString();
+    const { token } = req.body;
 
-    // Load existing Firestore user doc
-    const userRef = db.collection("users").doc(uid);
-    const existingSnap = await userRef.get();
-    const existingData = existingSnap.exists ? existingSnap.data() : undefined;
+    // The profile comes from the verified identity, never from the request body
+    const identity = await signInProvider.verify(token);
+    const profile = signInProvider.normalize(identity);
 
-    const providers = mergeProviders(
-      (existingData?.providers as string[]) || [],
-      "facebook"
-    );
-
-    const nameFromProfile = userProfile.name || "";
-    const parts = nameFromProfile.trim().split(/\s+/);
-
-    const incomingData = {
-      uid,
-      firstName:
-        userProfile.first_name || (parts[0] || "") || existingData?.firstName,
-      lastName:
-        userProfile.last_name ||
-        parts.slice(1).join(" ") ||
-        existingData?.lastName,
-      email: userProfile.email,
-      displayName: nameFromProfile,
-      photoURL: userProfile.picture?.data?.url ?? userProfile.picture ?? null,
-      providers,
-      lastLogin: now,
-      updatedAt: now,
-      emailVerified: false,
-    };
+    if (!profile.email) {
+      throw new BadRequestError(
+        `${signInProvider.label} account has no email address`,
+        "EMAIL_REQUIRED",
+      );
+    }
 
-    const mergedData = mergeUserData(existingData, incomingData);
+    const user = await upsertOAuthUser(signInProvider.id, profile);
 
-    const user = existingSnap.exists
-      ? await userDAO.update(uid, mergedData)
-      : await userDAO.create({
-          ...mergedData,
-          createdAt: now,
-        });
+    // With two-factor enabled, the provider token alone only earns a challenge
+    if (await isTwoFactorEnabled(user.uid)) {
+      const challenge = await createLoginChallenge(user.uid, signInProvider.id);
+      return res.json({
+        success: true,
+        twoFactorRequired: true,
+        ...challenge,
+      });
+    }
 
-    const customToken = await auth.createCustomToken(uid);
+    const sessionId = await recordSession(user.uid, req, signInProvider.id);
+    const customToken = await getAuthService().createCustomToken(user.uid, {
+      sid: sessionId,
+    });
 
     res.json({
       success: true,
@@ -345,11 +200,7 @@ router.post("/facebook", async (req, res) => {
       token: customToken,
     });
   } catch (error: any) {
-    console.error("Facebook OAuth error:", error);
-    res.status(400).json({
-      success: false,
-      error: error.message || "Facebook authentication failed",
-    });
+    next(error);
   }
 });
 
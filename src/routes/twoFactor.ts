@@ -0,0 +1,129 @@
+/**
+ * Two-factor authentication (TOTP) routes
+ * @module TwoFactorRoutes
+ */
+import { Router } from 'express';
+import { getAuthService } from '../services/authService';
+import { userDAO } from '../dao/userDAO';
+import { verifyIdToken } from '../middleware/auth';
+import { twoFactorLimiter } from '../middleware/rateLimit';
+import { validate } from '../middleware/validate';
+import { TwoFactorCodeBodySchema, TwoFactorVerifyBodySchema } from '../models/auth';
+import { recordSession } from '../services/sessions';
+import { BadRequestError } from '../errors';
+import { loginFailuresTotal } from '../metrics';
+import {
+  startEnrollment,
+  confirmEnrollment,
+  disableTwoFactor,
+  completeLoginChallenge
+} from '../services/twoFactor';
+
+const router = Router();
+
+/**
+ * Start TOTP enrollment for a manual account
+ * @route POST /api/auth/2fa/enroll
+ * @returns {Object} Secret and otpauth URI for the authenticator app
+ */
+router.post('/enroll', verifyIdToken, async (req, res, next) => {
+  try {
+    const uid = (req as any).uid as string;
+
+    const userData = await userDAO.getOne(uid);
+    if (!(userData?.providers || []).includes('manual')) {
+      throw new BadRequestError(
+        'Two-factor authentication is only available for email and password accounts',
+        'TWO_FACTOR_MANUAL_ONLY'
+      );
+    }
+
+    const userRecord = await getAuthService().getUser(uid);
+    const enrollment = await startEnrollment(uid, userRecord.email);
+
+    res.json({
+      success: true,
+      ...enrollment
+    });
+
+  } catch (error: any) {
+    next(error);
+  }
+});
+
+/**
+ * Confirm TOTP enrollment with a code from the authenticator app
+ * @route POST /api/auth/2fa/confirm
+ * @param {string} code - TOTP code
+ * @returns {Object} One-time recovery codes (shown only once)
+ */
+router.post('/confirm', verifyIdToken, validate(TwoFactorCodeBodySchema), async (req, res, next) => {
+  try {
+    const uid = (req as any).uid as string;
+    const { code } = req.body;
+
+    const recoveryCodes = await confirmEnrollment(uid, code);
+
+    res.json({
+      success: true,
+      recoveryCodes
+    });
+
+  } catch (error: any) {
+    next(error);
+  }
+});
+
+/**
+ * Disable two-factor authentication
+ * @route DELETE /api/auth/2fa
+ * @param {string} code - TOTP code or recovery code
+ */
+router.delete('/', verifyIdToken, validate(TwoFactorCodeBodySchema), async (req, res, next) => {
+  try {
+    const uid = (req as any).uid as string;
+    const { code } = req.body;
+
+    await disableTwoFactor(uid, code);
+
+    res.json({
+      success: true,
+      message: 'Two-factor authentication disabled'
+    });
+
+  } catch (error: any) {
+    next(error);
+  }
+});
+
+/**
+ * Complete a login that returned `twoFactorRequired`
+ * @route POST /api/auth/2fa/verify
+ * @param {string} challengeId - Challenge ID returned by /api/auth/login
+ * @param {string} code - TOTP code or recovery code
+ * @returns {Object} User data and token
+ */
+router.post('/verify', twoFactorLimiter, validate(TwoFactorVerifyBodySchema), async (req, res, next) => {
+  try {
+    const { challengeId, code } = req.body;
+
+    const { uid, provider } = await completeLoginChallenge(challengeId, code);
+    const userData = await userDAO.getOne(uid);
+
+    // `mfa` marks the token as second-factor verified (see satisfiesTwoFactor)
+    const sessionId = await recordSession(uid, req, provider);
+    const customToken = await getAuthService().createCustomToken(uid, { sid: sessionId, mfa: true });
+
+    res.json({
+      success: true,
+      user: userData,
+      token: customToken
+    });
+
+  } catch (error: any) {
+    loginFailuresTotal.inc({ reason: typeof error.code === 'string' ? error.code : 'INTERNAL_ERROR' });
+    next(error);
+  }
+});
+
+export default router;
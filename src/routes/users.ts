@@ -3,143 +3,163 @@
  * @module UserRoutes
  */
 import { Router } from "express";
-import { auth, db } from "../config/firebase";
+import { getAuthService } from "../services/authService";
+import { log } from "../log";
+import { userDAO } from "../dao/userDAO";
 import { verifyIdToken } from "../middleware/auth";
+import { hasPermission } from "../services/roles";
+import { validate } from "../middleware/validate";
+import { idempotency } from "../middleware/idempotency";
+import { etagOf, ifMatchSatisfied } from "../services/etag";
+import {
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+  PreconditionFailedError,
+  UnauthorizedError,
+  ValidationError,
+} from "../errors";
+import {
+  UpdateUserBodySchema,
+  UpdateUserBody,
+  LinkProviderBodySchema,
+  LinkProviderBody,
+} from "../models/user";
+import { getSignInProvider } from "../providers";
+import { sendVerificationEmail } from "../services/emailVerification";
+import {
+  listSessions,
+  revokeSession,
+  revokeAllSessions,
+} from "../services/sessions";
+import {
+  isRecentSignIn,
+  linkProvider,
+  unlinkProvider,
+} from "../services/accountLinking";
 
 const router = Router();
 router.use(verifyIdToken);
+router.use(idempotency);
 
 /**
- * Get user profile
+ * Get user profile. Answers 304 when `If-None-Match` has the current ETag.
  * @route GET /api/users/:uid
  */
-router.get("/:uid", async (req, res) => {
+router.get("/:uid", async (req, res, next) => {
   try {
     const { uid } = req.params;
     const requestUid = (req as any).uid as string;
 
-    console.log(
-      "GET User Profile - Request UID:",
-      requestUid,
-      "Target UID:",
-      uid
-    );
+    log.debug("Get user profile", { requestUid, targetUid: uid });
 
-    if (uid !== requestUid) {
-      return res.status(403).json({
-        success: false,
-        error:
-          "Acceso denegado. Solo puedes acceder a tu propio perfil.",
-      });
+    if (uid !== requestUid && !hasPermission((req as any).user, "users:read")) {
+      throw new ForbiddenError("Access denied. You can only access your own profile.");
     }
 
-    const docRef = db.collection("users").doc(uid);
-    const doc = await docRef.get();
+    const userData = await userDAO.getOne(uid);
 
-    if (!doc.exists) {
-      console.log("User document does NOT exist in Firestore:", uid);
-      return res.status(404).json({
-        success: false,
-        error: "User not found",
-      });
+    if (!userData) {
+      throw new NotFoundError("User not found", "USER_NOT_FOUND");
     }
 
-    const userData = doc.data();
-    console.log("User data from Firestore:", userData);
-
+    res.set("ETag", etagOf(userData));
     return res.json({
       success: true,
       user: userData,
     });
   } catch (error: any) {
-    console.error("Get user error:", error);
-    return res.status(500).json({
-      success: false,
-      error: "Failed to get user data",
-    });
+    next(error);
   }
 });
 
 /**
- * Update or create user profile (upsert)
+ * Update or create user profile (upsert).
+ * With `If-Match`, answers 412 when the profile changed since it was read.
  * @route PUT /api/users/:uid
  */
-router.put("/:uid", async (req, res) => {
+router.put("/:uid", validate(UpdateUserBodySchema), async (req, res, next) => {
   try {
     const { uid } = req.params;
     const requestUid = (req as any).uid as string;
 
-    if (uid !== requestUid) {
-      return res.status(403).json({
-        success: false,
-        error: "Access denied",
-      });
+    if (uid !== requestUid && !hasPermission((req as any).user, "users:update")) {
+      throw new ForbiddenError("Access denied");
     }
 
-    const allowedFields = ["firstName", "lastName", "age", "email"];
-    const updateData: any = {};
+    // Only known, non-empty fields are left by the schema
+    const updateData: UpdateUserBody & { updatedAt?: string } = {};
+    for (const [field, value] of Object.entries(req.body as UpdateUserBody)) {
+      if (value !== undefined) (updateData as any)[field] = value;
+    }
 
-    // Filtrar solo campos válidos y no vacíos
-    for (const field of allowedFields) {
-      const value = (req.body as any)[field];
+    const now = new Date().toISOString();
+    updateData.updatedAt = now;
 
-      if (value === undefined) continue;
+    // Auth owns the email: change it there first, so a refused email (e.g. already in use)
+    // never reaches the profile, and undo it if the profile write fails
+    const authService = getAuthService();
+    const previous = updateData.email ? await authService.getUser(uid) : undefined;
+    const emailChanged =
+      previous !== undefined && previous.email?.toLowerCase() !== updateData.email.toLowerCase();
 
-      if (typeof value === "string") {
-        const trimmed = value.trim();
-        // No pisar datos existentes con cadenas vacías
-        if (trimmed !== "") {
-          updateData[field] = trimmed;
-        }
-      } else {
-        updateData[field] = value;
-      }
+    if (emailChanged) {
+      await authService.updateUser(uid, {
+        email: updateData.email,
+        emailVerified: false,
+      });
     }
 
-    if (Object.keys(updateData).length === 0) {
-      return res.status(400).json({
-        success: false,
-        error: "No valid fields to update",
+    let created: boolean;
+    try {
+      // Read, check and write in one transaction, so a concurrent edit is never overwritten
+      created = await userDAO.runTransaction(async (tx) => {
+        const existing = await tx.get(uid);
+
+        if (!ifMatchSatisfied(req.get("If-Match"), existing)) {
+          throw new PreconditionFailedError("User was modified since it was read", "USER_MODIFIED");
+        }
+
+        const data = emailChanged ? { ...updateData, emailVerified: false } : updateData;
+        if (!existing) {
+          tx.set(uid, {
+            ...data,
+            createdAt: now,
+          });
+        } else {
+          tx.set(uid, data);
+        }
+        return !existing;
       });
+    } catch (error: any) {
+      if (emailChanged) {
+        await authService
+          .updateUser(uid, { email: previous.email, emailVerified: previous.emailVerified })
+          .catch((rollbackError: any) => log.error("Email rollback error", { uid, error: rollbackError }));
+      }
+      throw error;
     }
 
-    const now = new Date().toISOString();
-    updateData.updatedAt = now;
-
-    const userRef = db.collection("users").doc(uid);
-    const snapshot = await userRef.get();
-
-    if (!snapshot.exists) {
-      console.log("User doc does not exist, creating new one:", uid);
-      await userRef.set(
-        {
-          ...updateData,
-          createdAt: now,
-        },
-        { merge: true }
-      );
-    } else {
-      await userRef.set(updateData, { merge: true });
+    if (created) {
+      log.info("Created missing user document", { uid });
     }
 
-    if (updateData.email) {
-      await auth.updateUser(uid, {
-        email: updateData.email,
-        emailVerified: false,
-      });
+    if (emailChanged) {
+      try {
+        await sendVerificationEmail(updateData.email);
+      } catch (error: any) {
+        log.error("Verification email error", { error });
+      }
     }
 
+    res.set("ETag", etagOf((await userDAO.getOne(uid)) || {}));
     return res.json({
       success: true,
       message: "User updated successfully",
       updatedFields: Object.keys(updateData),
     });
   } catch (error: any) {
-    console.error("Update user error:", error);
-    return res.status(500).json({
-      success: false,
-      error: "Failed to update user",
-    });
+    next(error);
   }
 });
 
@@ -147,31 +167,210 @@ router.put("/:uid", async (req, res) => {
  * Delete user account
  * @route DELETE /api/users/:uid
  */
-router.delete("/:uid", async (req, res) => {
+router.delete("/:uid", async (req, res, next) => {
   try {
     const { uid } = req.params;
     const requestUid = (req as any).uid as string;
 
-    if (uid !== requestUid) {
-      return res.status(403).json({
-        success: false,
-        error: "Access denied",
-      });
+    if (uid !== requestUid && !hasPermission((req as any).user, "users:delete")) {
+      throw new ForbiddenError("Access denied");
     }
 
-    await db.collection("users").doc(uid).delete();
-    await auth.deleteUser(uid);
+    await userDAO.delete(uid);
+    await getAuthService().deleteUser(uid);
 
     return res.json({
       success: true,
       message: "User account deleted successfully",
     });
   } catch (error: any) {
-    console.error("Delete user error:", error);
-    return res.status(500).json({
-      success: false,
-      error: "Failed to delete user",
+    next(error);
+  }
+});
+
+/**
+ * Link a sign-in method to the user account.
+ * Requires a fresh proof of both identities: a recent sign-in on this account
+ * (ID token `auth_time`) and a valid credential for the method being linked.
+ * @route POST /api/users/:uid/providers/:provider
+ * @param {string} token - Provider token (OAuth providers)
+ * @param {string} password - New password (provider `manual`)
+ * @returns {Object} Updated providers list
+ */
+router.post("/:uid/providers/:provider", validate(LinkProviderBodySchema), async (req, res, next) => {
+  try {
+    const { uid, provider } = req.params;
+    const requestUid = (req as any).uid as string;
+
+    if (uid !== requestUid) {
+      throw new ForbiddenError("Access denied");
+    }
+
+    if (!isRecentSignIn((req as any).authTime)) {
+      throw new UnauthorizedError("Please sign in again before linking a sign-in method", "REAUTHENTICATION_REQUIRED");
+    }
+
+    let providers: string[];
+
+    if (provider === "manual") {
+      const { password } = req.body as LinkProviderBody;
+
+      if (!password) {
+        throw new ValidationError([{ field: "password", message: "Password is required" }]);
+      }
+
+      // A password sign-in is tied to the account email, which must be proven
+      const userRecord = await getAuthService().getUser(uid);
+      if (!userRecord.emailVerified) {
+        throw new ForbiddenError("Verify your email before adding a password", "EMAIL_NOT_VERIFIED");
+      }
+
+      await getAuthService().updateUser(uid, { password });
+      providers = await linkProvider(uid, "manual", uid);
+    } else {
+      const signInProvider = getSignInProvider(provider);
+
+      if (!signInProvider) {
+        throw new NotFoundError("Unsupported sign-in provider", "UNSUPPORTED_PROVIDER");
+      }
+
+      const { token } = req.body as LinkProviderBody;
+
+      if (!token) {
+        throw new ValidationError([{ field: "token", message: "Provider token is required" }]);
+      }
+
+      const identity = await signInProvider.verify(token);
+      const profile = signInProvider.normalize(identity);
+
+      // The provider email must not belong to a different account
+      if (profile.email) {
+        try {
+          const emailOwner = await getAuthService().getUserByEmail(profile.email);
+          if (emailOwner.uid !== uid) {
+            throw new ConflictError("This sign-in method belongs to another account", "PROVIDER_IN_USE");
+          }
+        } catch (error: any) {
+          if (error.code !== "auth/user-not-found") throw error;
+        }
+      }
+
+      providers = await linkProvider(uid, signInProvider.id, profile.providerUid);
+    }
+
+    return res.json({
+      success: true,
+      providers,
+    });
+  } catch (error: any) {
+    next(error);
+  }
+});
+
+/**
+ * Unlink a sign-in method from the user account.
+ * Refused when it is the last sign-in method left.
+ * @route DELETE /api/users/:uid/providers/:provider
+ * @returns {Object} Updated providers list
+ */
+router.delete("/:uid/providers/:provider", async (req, res, next) => {
+  try {
+    const { uid, provider } = req.params;
+    const requestUid = (req as any).uid as string;
+
+    if (uid !== requestUid) {
+      throw new ForbiddenError("Access denied");
+    }
+
+    const providers = await unlinkProvider(uid, provider);
+
+    return res.json({
+      success: true,
+      providers,
+    });
+  } catch (error: any) {
+    next(error);
+  }
+});
+
+/**
+ * List the user's sessions (devices)
+ * @route GET /api/users/:uid/sessions
+ * @returns {Object} Sessions, newest first; `current` marks the calling session
+ */
+router.get("/:uid/sessions", async (req, res, next) => {
+  try {
+    const { uid } = req.params;
+    const requestUid = (req as any).uid as string;
+    const currentSessionId = (req as any).sessionId as string | undefined;
+
+    if (uid !== requestUid) {
+      throw new ForbiddenError("Access denied");
+    }
+
+    const sessions = await listSessions(uid);
+
+    return res.json({
+      success: true,
+      sessions: sessions.map((session) => ({
+        ...session,
+        current: session.id === currentSessionId,
+      })),
     });
+  } catch (error: any) {
+    next(error);
+  }
+});
+
+/**
+ * Sign out everywhere: revoke every session of the user
+ * @route DELETE /api/users/:uid/sessions
+ */
+router.delete("/:uid/sessions", async (req, res, next) => {
+  try {
+    const { uid } = req.params;
+    const requestUid = (req as any).uid as string;
+
+    if (uid !== requestUid) {
+      throw new ForbiddenError("Access denied");
+    }
+
+    await revokeAllSessions(uid);
+
+    return res.json({
+      success: true,
+      message: "Signed out from all devices",
+    });
+  } catch (error: any) {
+    next(error);
+  }
+});
+
+/**
+ * Revoke a single session
+ * @route DELETE /api/users/:uid/sessions/:id
+ */
+router.delete("/:uid/sessions/:id", async (req, res, next) => {
+  try {
+    const { uid, id } = req.params;
+    const requestUid = (req as any).uid as string;
+
+    if (uid !== requestUid) {
+      throw new ForbiddenError("Access denied");
+    }
+
+    const found = await revokeSession(uid, id);
+
+    if (!found) {
+      throw new NotFoundError("Session not found", "SESSION_NOT_FOUND");
+    }
+
+    return res.json({
+      success: true,
+      message: "Session revoked",
+    });
+  } catch (error: any) {
+    next(error);
   }
 });
 
@@ -0,0 +1,27 @@
+/**
+ * Fails when a route is missing from the OpenAPI document, or a documented
+ * operation no longer exists: `npm run build && npm run check:openapi`
+ * @module CheckOpenApiScript
+ */
+import { createApp } from '../app';
+import { memoryRepositories } from '../dao/memoryRepository';
+import { FakeAuthService } from '../services/fakeAuth';
+import { checkOpenApiCoverage } from '../openapi';
+
+// Building the app needs no Firebase project, only its routes are inspected
+const app = createApp({ repositories: memoryRepositories(), auth: new FakeAuthService() });
+const { undocumented, stale } = checkOpenApiCoverage(app);
+
+for (const { method, path } of undocumented) {
+  console.error(`Undocumented route: ${method.toUpperCase()} ${path}`);
+}
+for (const { method, path } of stale) {
+  console.error(`Documented operation without a route: ${method.toUpperCase()} ${path}`);
+}
+
+if (undocumented.length || stale.length) {
+  console.error('Describe every route in src/openapi/operations.ts');
+  process.exit(1);
+}
+
+console.log('Every route is documented in the OpenAPI document');
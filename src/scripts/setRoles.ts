@@ -0,0 +1,27 @@
+/**
+ * CLI to assign roles, e.g. to bootstrap the first admin:
+ * `npm run build && npm run set-roles -- admin@example.com admin`
+ * @module SetRolesScript
+ */
+import 'dotenv/config';
+import { getAuthService } from '../services/authService';
+import { setUserRoles, ROLES, Role } from '../services/roles';
+
+async function main(): Promise<void> {
+  const [email, ...roles] = process.argv.slice(2);
+
+  if (!email || !roles.every((role) => (ROLES as readonly string[]).includes(role))) {
+    console.error(`Usage: set-roles <email> [${ROLES.join('|')} ...]`);
+    process.exit(1);
+  }
+
+  const userRecord = await getAuthService().getUserByEmail(email);
+  const updated = await setUserRoles(userRecord.uid, roles as Role[]);
+
+  console.log(`Roles of ${email}: ${updated.join(', ')}`);
+}
+
+main().catch((error) => {
+  console.error('Failed to set roles:', error);
+  process.exit(1);
+});
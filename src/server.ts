@@ -1,85 +1,59 @@
 /**
- * Main server file for LinkUp Video Platform Backend
+ * Main server file for LinkUp Video Platform Backend:
+ * validates the configuration, listens on PORT (and GRPC_PORT) and shuts down gracefully on SIGTERM
  * @module Server
  */
 import 'dotenv/config';
-import express from 'express';
-import cors from 'cors';
+import { Config, ConfigError, loadConfig, setConfig } from './config';
+import { handleShutdownSignals, onShutdown } from './lifecycle';
+import { log } from './log';
 
-// Import routes
-import authRoutes from './routes/auth';
-import usersRoutes from './routes/users';
-import meetingsRoutes from './routes/meetings';
-import oauthRoutes from './routes/oauth';
-import logger from './middleware/logger';
-
-const app = express();
+/**
+ * Validates the environment, printing every problem and exiting when it is invalid
+ * @returns {Config} The validated configuration
+ */
+function loadConfigOrExit(): Config {
+  try {
+    return loadConfig();
+  } catch (error) {
+    if (!(error instanceof ConfigError)) throw error;
+    process.stderr.write(`${error.message}\n`);
+    process.exit(1);
+  }
+}
 
-// Middleware
-app.use(express.json());
-app.use(cors({ 
-  origin: process.env.CORS_ORIGIN?.split(',') || [
-    'http://localhost:5173',
-    'https://link-up-frontend-tau.vercel.app'   // Frontend URL
-  ],
-  credentials: true 
-}));
-app.use(logger);
-// Health check endpoint
 /**
- * Health check route
- * @route GET /api/health
- * @returns {Object} Health status
+ * Starts the Express server
+ * @returns {Promise<void>}
  */
-app.get('/api/health', (_req, res) => {
-  res.json({ 
-    status: 'OK', 
-    timestamp: new Date().toISOString(),
-    service: 'LinkUp Backend API',
-    version: '1.0.0'
-  });
-});
+async function start(): Promise<void> {
+  const config = loadConfigOrExit();
+  setConfig(config);
 
-// Routes
-app.use('/api/auth', authRoutes);
-app.use('/api/users', usersRoutes);
-app.use('/api/meetings', meetingsRoutes);
-app.use('/api/oauth', oauthRoutes);
+  // The app is loaded once the configuration is valid, since some modules read it on import
+  const { createApp } = await import('./app');
 
-// 404 handler
-app.use('*', (req, res) => {
-  res.status(404).json({ 
-    success: false,
-    error: 'Route not found',
-    path: req.originalUrl 
-  });
-});
+  const app = createApp();
 
-// Error handling middleware
-app.use((
-  err: any,
-  req: express.Request,
-  res: express.Response,
-  next: express.NextFunction
-) => {
-  console.error('Error:', err);
-  res.status(500).json({
-    success: false,
-    error: process.env.NODE_ENV === 'production' ? 'Internal server error' : err.message
+  const server = app.listen(config.port, () => {
+    log.info('LinkUp Backend API listening', {
+      port: config.port,
+      environment: config.env,
+      emulators: Boolean(config.firebase.emulator.firestoreHost || config.firebase.emulator.authHost)
+    });
   });
-});
 
-const port = process.env.PORT || 8080;
-
-/**
- * Starts the Express server
- * @returns {void}
- */
-app.listen(port, () => {
-  console.log(`🚀 LinkUp Backend API running on port ${port}`);
-  console.log(`📊 Environment: ${process.env.NODE_ENV || 'development'}`);
-  console.log(`🔗 Health check: http://localhost:${port}/api/health`);
-});
+  // Internal gRPC API for other backend services
+  if (config.grpc.port) {
+    const { startGrpcServer, stopGrpcServer } = await import('./grpc/server');
+    const grpcServer = await startGrpcServer(config);
+    onShutdown((timeoutMs) => stopGrpcServer(grpcServer, timeoutMs));
+  }
 
+  handleShutdownSignals(server);
+}
 
-export default app;
\ No newline at end of file
+start().catch((error) => {
+  log.error('Failed to start the server', { error });
+  process.exit(1);
+});
@@ -0,0 +1,114 @@
+/**
+ * Account linking rules and helpers for sign-in methods
+ * @module AccountLinking
+ */
+import { getAuthService } from './authService';
+import { userDAO } from '../dao/userDAO';
+import { deleteField } from '../dao/baseDAO';
+import { HttpError } from '../errors';
+
+/**
+ * Maximum age (in seconds) of a sign-in to count as a fresh proof of identity
+ */
+export const RECENT_SIGN_IN_SECONDS = 5 * 60;
+
+/**
+ * Error raised when a link or unlink operation is refused
+ */
+export class AccountLinkError extends HttpError {
+  constructor(code: string, message: string, statusCode: number) {
+    super(statusCode, code, message);
+  }
+}
+
+/**
+ * Checks that an ID token was issued by a recent sign-in
+ * @param {number} authTime - `auth_time` claim of the ID token (seconds)
+ */
+export function isRecentSignIn(authTime?: number): boolean {
+  if (!authTime) return false;
+  return Date.now() / 1000 - authTime <= RECENT_SIGN_IN_SECONDS;
+}
+
+/**
+ * Accounts are only merged by email when both sides proved ownership of it
+ * @param {boolean} existingVerified - Existing account has a verified email
+ * @param {boolean} incomingVerified - Incoming identity has a verified email
+ */
+export function canAutoLink(existingVerified: boolean, incomingVerified: boolean): boolean {
+  return existingVerified && incomingVerified;
+}
+
+/**
+ * Finds the user a provider identity is linked to
+ * @param {string} providerId - Provider ID (google, github, ...)
+ * @param {string} providerUid - User ID at the provider
+ * @returns {Promise<string | null>} Linked user UID, if any
+ */
+export async function findUserByProviderUid(providerId: string, providerUid: string): Promise<string | null> {
+  const user = await userDAO.findByProviderUid(providerId, providerUid);
+  return user ? user.uid : null;
+}
+
+/**
+ * Adds a sign-in method to a user
+ * @param {string} uid - User UID
+ * @param {string} providerId - Provider ID (manual, google, ...)
+ * @param {string} providerUid - User ID at the provider
+ * @returns {Promise<string[]>} Updated providers list
+ */
+export async function linkProvider(uid: string, providerId: string, providerUid: string): Promise<string[]> {
+  const userData = await userDAO.getOne(uid);
+
+  if (!userData) {
+    throw new AccountLinkError('USER_NOT_FOUND', 'User not found', 404);
+  }
+
+  const linkedUid = await findUserByProviderUid(providerId, providerUid);
+  if (linkedUid && linkedUid !== uid) {
+    throw new AccountLinkError('PROVIDER_IN_USE', 'This sign-in method is already linked to another account', 409);
+  }
+
+  const providers = Array.from(new Set<string>([...(userData.providers || []), providerId]));
+
+  await userDAO.update(uid, {
+    providers,
+    [`providerIds.${providerId}`]: providerUid,
+    updatedAt: new Date().toISOString(),
+  });
+
+  return providers;
+}
+
+/**
+ * Removes a sign-in method from a user, refusing to remove the last one
+ * @param {string} uid - User UID
+ * @param {string} providerId - Provider ID (manual, google, ...)
+ * @returns {Promise<string[]>} Updated providers list
+ */
+export async function unlinkProvider(uid: string, providerId: string): Promise<string[]> {
+  const userData = await userDAO.getOne(uid);
+  const current: string[] = userData?.providers || [];
+
+  if (!current.includes(providerId)) {
+    throw new AccountLinkError('PROVIDER_NOT_LINKED', 'This sign-in method is not linked to the account', 404);
+  }
+
+  if (current.length <= 1) {
+    throw new AccountLinkError('LAST_SIGN_IN_METHOD', 'Cannot remove the last sign-in method of the account', 409);
+  }
+
+  if (providerId === 'manual') {
+    await getAuthService().updateUser(uid, { providersToUnlink: ['password'] });
+  }
+
+  const providers = current.filter((p) => p !== providerId);
+
+  await userDAO.update(uid, {
+    providers,
+    [`providerIds.${providerId}`]: deleteField(),
+    updatedAt: new Date().toISOString(),
+  });
+
+  return providers;
+}
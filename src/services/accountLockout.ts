@@ -0,0 +1,197 @@
+/**
+ * Per-account failed sign-in tracking with exponential backoff lockout
+ * @module AccountLockout
+ */
+import { createHash } from 'crypto';
+import { baseDAO } from '../dao/baseDAO';
+import { useFirestoreStore } from '../middleware/rateLimit';
+import { getConfig, LockoutPolicy } from '../config';
+
+/**
+ * Failed attempts of one account
+ */
+export interface AttemptRecord {
+  failures: number;
+  lockedUntil: number;
+  lastFailureAt: number;
+  /** Once past, the record no longer counts (failures reset and no lock active) */
+  expiresAt: number;
+}
+
+/**
+ * Computes the next record from the current one (undefined when there is none)
+ */
+export type AttemptUpdate = (previous: AttemptRecord | undefined) => AttemptRecord;
+
+/**
+ * Storage for attempt records (memory by default, the repositories for multi-instance).
+ * `update` must be atomic, so parallel failures all count.
+ */
+export interface AttemptStore {
+  get(key: string): Promise<AttemptRecord | undefined>;
+  update(key: string, fn: AttemptUpdate): Promise<AttemptRecord>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * Expired records are swept at most this often
+ */
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Single-instance store. Updates read and write without awaiting in between, so they are
+ * atomic; expired records are evicted.
+ */
+export class MemoryAttemptStore implements AttemptStore {
+  private records = new Map<string, AttemptRecord>();
+  private lastSweep = 0;
+
+  /**
+   * Number of records kept
+   */
+  get size(): number {
+    return this.records.size;
+  }
+
+  private sweep(now: number) {
+    if (now - this.lastSweep < SWEEP_INTERVAL_MS) return;
+    this.lastSweep = now;
+
+    for (const [key, record] of this.records) {
+      if (record.expiresAt <= now) this.records.delete(key);
+    }
+  }
+
+  async get(key: string) {
+    const record = this.records.get(key);
+    if (record && record.expiresAt <= Date.now()) {
+      this.records.delete(key);
+      return undefined;
+    }
+    return record;
+  }
+
+  async update(key: string, fn: AttemptUpdate) {
+    const now = Date.now();
+    this.sweep(now);
+
+    const previous = this.records.get(key);
+    const record = fn(previous && previous.expiresAt > now ? previous : undefined);
+    this.records.set(key, record);
+    return record;
+  }
+
+  async delete(key: string) {
+    this.records.delete(key);
+  }
+}
+
+/**
+ * Store shared by every instance through the repositories (Firestore unless replaced,
+ * e.g. with createApp({ repositories }))
+ */
+export class RepositoryAttemptStore implements AttemptStore {
+  private dao: baseDAO<AttemptRecord>;
+
+  constructor(collection = 'loginAttempts') {
+    this.dao = new baseDAO<AttemptRecord>(collection);
+  }
+
+  async get(key: string) {
+    const record = await this.dao.getOne(key);
+    return record && record.expiresAt > Date.now() ? record : undefined;
+  }
+
+  update(key: string, fn: AttemptUpdate) {
+    return this.dao.runTransaction(async (tx) => {
+      const previous = await tx.get(key);
+      const record = fn(previous && previous.expiresAt > Date.now() ? previous : undefined);
+      tx.set(key, record, false);
+      return record;
+    });
+  }
+
+  async delete(key: string) {
+    await this.dao.delete(key);
+  }
+}
+
+/**
+ * Lockout settings, overridable with LOCKOUT_THRESHOLD, LOCKOUT_BASE_MS,
+ * LOCKOUT_MAX_MS and LOCKOUT_RESET_MS
+ */
+function getLockoutPolicy(): LockoutPolicy {
+  return getConfig().lockout;
+}
+
+const memoryStore = new MemoryAttemptStore();
+const sharedStore = new RepositoryAttemptStore();
+
+/**
+ * Store set with setAttemptStore, if any
+ */
+let store: AttemptStore | undefined;
+
+/**
+ * Returns the store in use: the one set with setAttemptStore, otherwise the one
+ * selected by RATE_LIMIT_STORE in the current configuration
+ */
+function getAttemptStore(): AttemptStore {
+  return store || (useFirestoreStore() ? sharedStore : memoryStore);
+}
+
+/**
+ * Replaces the attempt store
+ * @param {AttemptStore} next - Store to use
+ */
+export function setAttemptStore(next: AttemptStore): void {
+  store = next;
+}
+
+/**
+ * Emails are hashed, so no address ends up in document IDs or memory dumps
+ * @param {string} email - Account email
+ */
+function keyFor(email: string): string {
+  return createHash('sha256').update(email.trim().toLowerCase()).digest('hex');
+}
+
+/**
+ * Returns how long the account is still locked
+ * @param {string} email - Account email
+ * @returns {Promise<number>} Remaining lockout in ms, 0 when not locked
+ */
+export async function getLockoutRemaining(email: string): Promise<number> {
+  const record = await getAttemptStore().get(keyFor(email));
+  if (!record) return 0;
+  return Math.max(0, record.lockedUntil - Date.now());
+}
+
+/**
+ * Records a failed sign-in, locking the account once the threshold is reached
+ * @param {string} email - Account email
+ */
+export async function registerFailedAttempt(email: string): Promise<void> {
+  const policy = getLockoutPolicy();
+
+  await getAttemptStore().update(keyFor(email), (previous) => {
+    const now = Date.now();
+    const failures = previous && now - previous.lastFailureAt < policy.resetMs ? previous.failures + 1 : 1;
+
+    let lockedUntil = 0;
+    if (failures >= policy.threshold) {
+      const backoff = policy.baseMs * 2 ** (failures - policy.threshold);
+      lockedUntil = now + Math.min(backoff, policy.maxMs);
+    }
+
+    return { failures, lockedUntil, lastFailureAt: now, expiresAt: Math.max(now + policy.resetMs, lockedUntil) };
+  });
+}
+
+/**
+ * Clears failed attempts after a successful sign-in
+ * @param {string} email - Account email
+ */
+export async function clearFailedAttempts(email: string): Promise<void> {
+  await getAttemptStore().delete(keyFor(email));
+}
@@ -0,0 +1,58 @@
+/**
+ * Audit trail for administrative actions
+ * @module Audit
+ */
+import type { Request } from 'express';
+import { baseDAO } from '../dao/baseDAO';
+
+/**
+ * Stored audit entry
+ */
+export interface AuditEntry {
+  actorUid: string;
+  action: string;
+  targetUid: string | null;
+  details: Record<string, any>;
+  ip: string;
+  createdAt: string;
+}
+
+const auditDAO = new baseDAO<AuditEntry>('auditLogs');
+
+/**
+ * Writes an audit entry for the action performed by the authenticated user
+ * @param {Request} req - Request of the actor (UID and IP are read from it)
+ * @param {string} action - Action name, e.g. `user.disable`
+ * @param {string | null} targetUid - Affected user, if any
+ * @param {Object} details - Extra context (query, changed fields, ...)
+ */
+export async function recordAudit(
+  req: Request,
+  action: string,
+  targetUid: string | null,
+  details: Record<string, any> = {}
+): Promise<void> {
+  const entry: AuditEntry = {
+    actorUid: (req as any).uid,
+    action,
+    targetUid,
+    details,
+    ip: req.ip || '',
+    createdAt: new Date().toISOString(),
+  };
+
+  await auditDAO.create(entry);
+}
+
+/**
+ * Lists audit entries about a user, newest first
+ * @param {string} targetUid - Affected user
+ * @param {number} limit - Maximum number of entries
+ */
+export async function listAuditForUser(targetUid: string, limit = 50): Promise<AuditEntry[]> {
+  return auditDAO.findWhere({
+    where: [['targetUid', '==', targetUid]],
+    orderBy: [['createdAt', 'desc']],
+    limit,
+  });
+}
@@ -0,0 +1,139 @@
+/**
+ * Identity operations used by the API, behind an interface so Firebase Auth can be
+ * replaced (e.g. by FakeAuthService) without touching the routes
+ * @module AuthService
+ */
+import type {
+  ActionCodeSettings,
+  CreateRequest,
+  DecodedIdToken,
+  SessionCookieOptions,
+  UpdateRequest,
+  UserRecord,
+} from 'firebase-admin/auth';
+import { getFirebaseAuth } from '../config/firebase';
+import { getAppScope } from '../appScope';
+import * as passwordAuth from './passwordAuth';
+import type { PasswordSignInResult } from './passwordAuth';
+
+/**
+ * Identity provider: the Admin SDK subset the API uses, plus password sign-in and
+ * email action codes. Failures carry Firebase error codes (e.g. `auth/user-not-found`)
+ * or a PasswordAuthError.
+ */
+export interface AuthService {
+  verifyIdToken(idToken: string, checkRevoked?: boolean): Promise<DecodedIdToken>;
+  verifySessionCookie(sessionCookie: string, checkRevoked?: boolean): Promise<DecodedIdToken>;
+  createSessionCookie(idToken: string, options: SessionCookieOptions): Promise<string>;
+  createCustomToken(uid: string, claims?: object): Promise<string>;
+  getUser(uid: string): Promise<UserRecord>;
+  getUserByEmail(email: string): Promise<UserRecord>;
+  createUser(properties: CreateRequest): Promise<UserRecord>;
+  updateUser(uid: string, properties: UpdateRequest): Promise<UserRecord>;
+  deleteUser(uid: string): Promise<void>;
+  setCustomUserClaims(uid: string, claims: object | null): Promise<void>;
+  revokeRefreshTokens(uid: string): Promise<void>;
+  generatePasswordResetLink(email: string, settings?: ActionCodeSettings): Promise<string>;
+  generateEmailVerificationLink(email: string, settings?: ActionCodeSettings): Promise<string>;
+  /** Checks an email and password, returning the account they belong to */
+  verifyPassword(email: string, password: string): Promise<PasswordSignInResult>;
+  /** Sets a new password with a reset code, returning the account email */
+  confirmPasswordReset(oobCode: string, newPassword: string): Promise<string>;
+  /** Marks an email verified with a verification code, returning the email */
+  confirmEmailVerification(oobCode: string): Promise<string>;
+}
+
+/**
+ * Firebase Auth through the Admin SDK and the Identity Toolkit REST API
+ */
+export class FirebaseAuthService implements AuthService {
+  private get auth() {
+    return getFirebaseAuth();
+  }
+
+  verifyIdToken(idToken: string, checkRevoked?: boolean) {
+    return this.auth.verifyIdToken(idToken, checkRevoked);
+  }
+
+  verifySessionCookie(sessionCookie: string, checkRevoked?: boolean) {
+    return this.auth.verifySessionCookie(sessionCookie, checkRevoked);
+  }
+
+  createSessionCookie(idToken: string, options: SessionCookieOptions) {
+    return this.auth.createSessionCookie(idToken, options);
+  }
+
+  createCustomToken(uid: string, claims?: object) {
+    return this.auth.createCustomToken(uid, claims);
+  }
+
+  getUser(uid: string) {
+    return this.auth.getUser(uid);
+  }
+
+  getUserByEmail(email: string) {
+    return this.auth.getUserByEmail(email);
+  }
+
+  createUser(properties: CreateRequest) {
+    return this.auth.createUser(properties);
+  }
+
+  updateUser(uid: string, properties: UpdateRequest) {
+    return this.auth.updateUser(uid, properties);
+  }
+
+  deleteUser(uid: string) {
+    return this.auth.deleteUser(uid);
+  }
+
+  setCustomUserClaims(uid: string, claims: object | null) {
+    return this.auth.setCustomUserClaims(uid, claims);
+  }
+
+  revokeRefreshTokens(uid: string) {
+    return this.auth.revokeRefreshTokens(uid);
+  }
+
+  generatePasswordResetLink(email: string, settings?: ActionCodeSettings) {
+    return this.auth.generatePasswordResetLink(email, settings);
+  }
+
+  generateEmailVerificationLink(email: string, settings?: ActionCodeSettings) {
+    return this.auth.generateEmailVerificationLink(email, settings);
+  }
+
+  verifyPassword(email: string, password: string) {
+    return passwordAuth.verifyPassword(email, password);
+  }
+
+  confirmPasswordReset(oobCode: string, newPassword: string) {
+    return passwordAuth.confirmPasswordReset(oobCode, newPassword);
+  }
+
+  confirmEmailVerification(oobCode: string) {
+    return passwordAuth.confirmEmailVerification(oobCode);
+  }
+}
+
+let service: AuthService | undefined;
+
+/**
+ * Returns the identity provider: the one of the app handling the request, otherwise the
+ * process-wide one (Firebase Auth unless replaced)
+ */
+export function getAuthService(): AuthService {
+  const scoped = getAppScope()?.auth;
+  if (scoped) return scoped;
+
+  if (!service) service = new FirebaseAuthService();
+  return service;
+}
+
+/**
+ * Replaces the process-wide identity provider
+ * @param {AuthService} next - Service to use
+ */
+export function setAuthService(next: AuthService): void {
+  service = next;
+}
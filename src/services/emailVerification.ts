@@ -0,0 +1,25 @@
+/**
+ * Email verification links
+ * @module EmailVerification
+ */
+import { getAuthService } from './authService';
+import { sendMail } from './mailer';
+import { getConfig } from '../config';
+
+/**
+ * Generates an email verification link and mails it to the user
+ * @param {string} email - Email address to verify
+ */
+export async function sendVerificationEmail(email: string): Promise<void> {
+  const continueUrl = getConfig().links.emailVerificationUrl;
+  const link = await getAuthService().generateEmailVerificationLink(
+    email,
+    continueUrl ? { url: continueUrl } : undefined
+  );
+
+  await sendMail({
+    to: email,
+    subject: 'Verify your LinkUp email',
+    text: `Welcome to LinkUp!\n\nOpen this link to verify your email address:\n${link}\n\nIf you did not create an account, you can ignore this email.`
+  });
+}
@@ -0,0 +1,48 @@
+/**
+ * Entity tags of stored documents, for conditional requests
+ * (`If-None-Match` on reads, `If-Match` on writes)
+ * @module ETag
+ */
+import { createHash } from 'crypto';
+
+/**
+ * JSON with sorted object keys, so equal values always serialize (and hash) the same
+ * @param value - Any JSON value
+ */
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * Strong ETag of a document: a hash of its content, so every write (including
+ * `updatedAt`) changes it, whichever route or service made it
+ * @param document - Document as returned by its DAO
+ * @returns {string} Quoted ETag
+ */
+export function etagOf(document: object): string {
+  return `"${createHash('sha256').update(canonicalJson(document)).digest('base64url').substring(0, 27)}"`;
+}
+
+/**
+ * Evaluates an If-Match header against the current document (strong comparison)
+ * @param {string | undefined} ifMatch - If-Match header, e.g. `"abc"`, `"abc", "def"` or `*`
+ * @param current - Current document, undefined when it does not exist
+ * @returns {boolean} True when the write may proceed
+ */
+export function ifMatchSatisfied(ifMatch: string | undefined, current: object | undefined): boolean {
+  if (ifMatch === undefined) return true;
+  if (!current) return false;
+  if (ifMatch.trim() === '*') return true;
+
+  const etag = etagOf(current);
+  return ifMatch.split(',').some((candidate) => candidate.trim() === etag);
+}
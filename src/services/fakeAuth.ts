@@ -0,0 +1,331 @@
+/**
+ * In-memory identity provider for tests and offline development.
+ * Tokens are unsigned and only meaningful to the FakeAuthService that issued them.
+ * @module FakeAuth
+ */
+import { randomBytes } from 'crypto';
+import type {
+  ActionCodeSettings,
+  CreateRequest,
+  DecodedIdToken,
+  SessionCookieOptions,
+  UpdateRequest,
+  UserRecord,
+} from 'firebase-admin/auth';
+import type { AuthService } from './authService';
+import { PasswordAuthError, PasswordSignInResult } from './passwordAuth';
+
+const TOKEN_PREFIX = 'fake';
+const ID_TOKEN_TTL_MS = 60 * 60 * 1000;
+
+type TokenKind = 'custom' | 'id' | 'session';
+
+interface TokenPayload {
+  kind: TokenKind;
+  uid: string;
+  claims: Record<string, any>;
+  issuedAt: number;
+  authTime: number;
+  expiresAt: number;
+}
+
+interface FakeUser {
+  uid: string;
+  email?: string;
+  emailVerified: boolean;
+  displayName?: string;
+  photoURL?: string;
+  disabled: boolean;
+  password?: string;
+  providerIds: string[];
+  customClaims?: Record<string, any>;
+  validSince: number;
+  createdAt: number;
+}
+
+/**
+ * Error carrying a Firebase Auth error code, like the Admin SDK errors
+ */
+export class FakeAuthError extends Error {
+  code: string;
+
+  constructor(code: string, message: string) {
+    super(message);
+    this.name = 'FakeAuthError';
+    this.code = code;
+  }
+}
+
+function encodeToken(payload: TokenPayload): string {
+  return `${TOKEN_PREFIX}.${Buffer.from(JSON.stringify(payload)).toString('base64url')}`;
+}
+
+function decodeToken(token: string, kind: TokenKind): TokenPayload {
+  const [prefix, body] = (token || '').split('.');
+  try {
+    const payload = JSON.parse(Buffer.from(body, 'base64url').toString('utf8')) as TokenPayload;
+    if (prefix === TOKEN_PREFIX && payload.kind === kind) return payload;
+  } catch {
+    // Falls through to the argument error
+  }
+  throw new FakeAuthError('auth/argument-error', `Invalid ${kind} token`);
+}
+
+/**
+ * AuthService keeping users, passwords and action codes in memory
+ * @class
+ */
+export class FakeAuthService implements AuthService {
+  private users = new Map<string, FakeUser>();
+  private actionCodes = new Map<string, { mode: 'resetPassword' | 'verifyEmail'; uid: string }>();
+
+  private find(uid: string): FakeUser {
+    const user = this.users.get(uid);
+    if (!user) throw new FakeAuthError('auth/user-not-found', 'There is no user record corresponding to the provided identifier.');
+    return user;
+  }
+
+  private findByEmail(email: string): FakeUser | undefined {
+    const normalized = email.trim().toLowerCase();
+    return Array.from(this.users.values()).find((user) => user.email === normalized);
+  }
+
+  private toRecord(user: FakeUser): UserRecord {
+    const created = new Date(user.createdAt).toUTCString();
+
+    return {
+      uid: user.uid,
+      email: user.email,
+      emailVerified: user.emailVerified,
+      displayName: user.displayName,
+      photoURL: user.photoURL,
+      disabled: user.disabled,
+      customClaims: user.customClaims,
+      providerData: user.providerIds.map((providerId) => ({ providerId, uid: user.email || user.uid })),
+      metadata: { creationTime: created, lastSignInTime: created },
+      tokensValidAfterTime: new Date(user.validSince).toUTCString(),
+    } as unknown as UserRecord;
+  }
+
+  /**
+   * Verifies a token of a kind, checking expiry, the account and optionally revocation
+   */
+  private verify(token: string, kind: 'id' | 'session', checkRevoked?: boolean): DecodedIdToken {
+    const payload = decodeToken(token, kind);
+    const errorPrefix = kind === 'id' ? 'auth/id-token' : 'auth/session-cookie';
+
+    if (payload.expiresAt < Date.now()) {
+      throw new FakeAuthError(`${errorPrefix}-expired`, 'The token has expired');
+    }
+
+    const user = this.find(payload.uid);
+    if (user.disabled) {
+      throw new FakeAuthError('auth/user-disabled', 'The user account has been disabled');
+    }
+    if (checkRevoked && payload.authTime < user.validSince) {
+      throw new FakeAuthError(`${errorPrefix}-revoked`, 'The token has been revoked');
+    }
+
+    return {
+      ...payload.claims,
+      uid: user.uid,
+      sub: user.uid,
+      aud: 'fake-project',
+      iss: 'https://securetoken.google.com/fake-project',
+      iat: Math.floor(payload.issuedAt / 1000),
+      exp: Math.floor(payload.expiresAt / 1000),
+      auth_time: Math.floor(payload.authTime / 1000),
+      email: user.email,
+      email_verified: user.emailVerified,
+      firebase: { identities: {}, sign_in_provider: 'custom' },
+    } as DecodedIdToken;
+  }
+
+  private createActionCode(mode: 'resetPassword' | 'verifyEmail', email: string, settings?: ActionCodeSettings): string {
+    const user = this.findByEmail(email);
+    if (!user) throw new FakeAuthError('auth/email-not-found', 'There is no user record corresponding to the provided email.');
+
+    const oobCode = randomBytes(16).toString('hex');
+    this.actionCodes.set(oobCode, { mode, uid: user.uid });
+
+    const url = new URL(settings?.url || 'http://localhost/auth/action');
+    url.searchParams.set('mode', mode);
+    url.searchParams.set('oobCode', oobCode);
+    return url.toString();
+  }
+
+  private consumeActionCode(oobCode: string, mode: 'resetPassword' | 'verifyEmail'): FakeUser {
+    const entry = this.actionCodes.get(oobCode);
+    if (!entry || entry.mode !== mode || !this.users.has(entry.uid)) {
+      throw new PasswordAuthError('INVALID_ACTION_CODE', 'The link is invalid or was already used', 400);
+    }
+    this.actionCodes.delete(oobCode);
+    return this.find(entry.uid);
+  }
+
+  /**
+   * Issues an ID token directly, as if the user had signed in on the client
+   * @param {string} uid - User UID
+   * @param {Object} claims - Extra claims (e.g. `sid`), on top of the user custom claims
+   * @param {number} authTime - Sign-in time in ms (default: now)
+   */
+  issueIdToken(uid: string, claims: Record<string, any> = {}, authTime = Date.now()): string {
+    const user = this.find(uid);
+    const now = Date.now();
+
+    return encodeToken({
+      kind: 'id',
+      uid,
+      claims: { ...(user.customClaims || {}), ...claims },
+      issuedAt: now,
+      authTime,
+      expiresAt: now + ID_TOKEN_TTL_MS,
+    });
+  }
+
+  /**
+   * Exchanges a custom token for an ID token, like `signInWithCustomToken` on the client
+   * @param {string} customToken - Token from createCustomToken
+   */
+  signInWithCustomToken(customToken: string): string {
+    const payload = decodeToken(customToken, 'custom');
+    return this.issueIdToken(payload.uid, payload.claims);
+  }
+
+  async verifyIdToken(idToken: string, checkRevoked?: boolean): Promise<DecodedIdToken> {
+    return this.verify(idToken, 'id', checkRevoked);
+  }
+
+  async verifySessionCookie(sessionCookie: string, checkRevoked?: boolean): Promise<DecodedIdToken> {
+    return this.verify(sessionCookie, 'session', checkRevoked);
+  }
+
+  async createSessionCookie(idToken: string, options: SessionCookieOptions): Promise<string> {
+    const payload = decodeToken(idToken, 'id');
+    this.verify(idToken, 'id', true);
+
+    return encodeToken({
+      ...payload,
+      kind: 'session',
+      issuedAt: Date.now(),
+      expiresAt: Date.now() + options.expiresIn,
+    });
+  }
+
+  async createCustomToken(uid: string, claims: object = {}): Promise<string> {
+    const now = Date.now();
+    return encodeToken({ kind: 'custom', uid, claims: { ...claims }, issuedAt: now, authTime: now, expiresAt: now + ID_TOKEN_TTL_MS });
+  }
+
+  async getUser(uid: string): Promise<UserRecord> {
+    return this.toRecord(this.find(uid));
+  }
+
+  async getUserByEmail(email: string): Promise<UserRecord> {
+    const user = this.findByEmail(email);
+    if (!user) throw new FakeAuthError('auth/user-not-found', 'There is no user record corresponding to the provided identifier.');
+    return this.toRecord(user);
+  }
+
+  async createUser(properties: CreateRequest): Promise<UserRecord> {
+    const uid = properties.uid || randomBytes(14).toString('hex');
+    const email = properties.email?.trim().toLowerCase();
+
+    if (this.users.has(uid)) {
+      throw new FakeAuthError('auth/uid-already-exists', 'The user with the provided uid already exists.');
+    }
+    if (email && this.findByEmail(email)) {
+      throw new FakeAuthError('auth/email-already-exists', 'The email address is already in use by another account.');
+    }
+
+    const user: FakeUser = {
+      uid,
+      email,
+      emailVerified: !!properties.emailVerified,
+      displayName: properties.displayName || undefined,
+      photoURL: properties.photoURL || undefined,
+      disabled: !!properties.disabled,
+      password: properties.password,
+      providerIds: properties.password ? ['password'] : [],
+      validSince: 0,
+      createdAt: Date.now(),
+    };
+
+    this.users.set(uid, user);
+    return this.toRecord(user);
+  }
+
+  async updateUser(uid: string, properties: UpdateRequest): Promise<UserRecord> {
+    const user = this.find(uid);
+
+    if (properties.email !== undefined) {
+      const email = properties.email.trim().toLowerCase();
+      const owner = this.findByEmail(email);
+      if (owner && owner.uid !== uid) {
+        throw new FakeAuthError('auth/email-already-exists', 'The email address is already in use by another account.');
+      }
+      user.email = email;
+    }
+    if (properties.password !== undefined) {
+      user.password = properties.password;
+      if (!user.providerIds.includes('password')) user.providerIds.push('password');
+    }
+    if (properties.emailVerified !== undefined) user.emailVerified = properties.emailVerified;
+    if (properties.displayName !== undefined) user.displayName = properties.displayName || undefined;
+    if (properties.photoURL !== undefined) user.photoURL = properties.photoURL || undefined;
+    if (properties.disabled !== undefined) user.disabled = properties.disabled;
+    if (properties.providersToUnlink) {
+      user.providerIds = user.providerIds.filter((id) => !properties.providersToUnlink!.includes(id));
+      if (properties.providersToUnlink.includes('password')) user.password = undefined;
+    }
+
+    return this.toRecord(user);
+  }
+
+  async deleteUser(uid: string): Promise<void> {
+    this.find(uid);
+    this.users.delete(uid);
+  }
+
+  async setCustomUserClaims(uid: string, claims: object | null): Promise<void> {
+    this.find(uid).customClaims = claims ? { ...claims } : undefined;
+  }
+
+  async revokeRefreshTokens(uid: string): Promise<void> {
+    // Tokens from sign-ins before this instant fail `checkRevoked`
+    this.find(uid).validSince = Date.now();
+  }
+
+  async generatePasswordResetLink(email: string, settings?: ActionCodeSettings): Promise<string> {
+    return this.createActionCode('resetPassword', email, settings);
+  }
+
+  async generateEmailVerificationLink(email: string, settings?: ActionCodeSettings): Promise<string> {
+    return this.createActionCode('verifyEmail', email, settings);
+  }
+
+  async verifyPassword(email: string, password: string): Promise<PasswordSignInResult> {
+    const user = this.findByEmail(email);
+
+    if (!user || !user.password || user.password !== password) {
+      throw new PasswordAuthError('INVALID_CREDENTIALS', 'Invalid email or password', 401);
+    }
+    if (user.disabled) {
+      throw new PasswordAuthError('ACCOUNT_DISABLED', 'This account has been disabled', 403);
+    }
+
+    return { uid: user.uid, email: user.email as string };
+  }
+
+  async confirmPasswordReset(oobCode: string, newPassword: string): Promise<string> {
+    const user = this.consumeActionCode(oobCode, 'resetPassword');
+    user.password = newPassword;
+    return user.email as string;
+  }
+
+  async confirmEmailVerification(oobCode: string): Promise<string> {
+    const user = this.consumeActionCode(oobCode, 'verifyEmail');
+    user.emailVerified = true;
+    return user.email as string;
+  }
+}
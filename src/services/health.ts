@@ -0,0 +1,133 @@
+/**
+ * Liveness and readiness checks: build information, configuration,
+ * and connectivity to the storage and the identity provider
+ * @module Health
+ */
+import { readFileSync } from 'fs';
+import path from 'path';
+import { baseDAO } from '../dao/baseDAO';
+import { getAuthService, FirebaseAuthService } from './authService';
+import { isShuttingDown } from '../lifecycle';
+import { configProblems, getConfig } from '../config';
+
+/**
+ * Version and commit of the running build
+ */
+export interface BuildInfo {
+  service: string;
+  version: string;
+  commit: string;
+}
+
+/**
+ * Result of one readiness check
+ */
+export interface CheckResult {
+  status: 'ok' | 'fail';
+  durationMs: number;
+  error?: string;
+}
+
+/**
+ * Readiness report; `ready` is false when a check failed or a shutdown started
+ */
+export interface ReadinessReport {
+  ready: boolean;
+  status: 'ready' | 'not_ready' | 'shutting_down';
+  checks: Record<string, CheckResult>;
+}
+
+let buildInfo: BuildInfo | undefined;
+
+/**
+ * Reads the name and version from package.json (next to `src/` and `dist/`), and
+ * the commit from the configuration (GIT_COMMIT, or the commit Render builds)
+ */
+export function getBuildInfo(): BuildInfo {
+  if (buildInfo) return buildInfo;
+
+  let pkg: { name?: string; version?: string; gitHead?: string } = {};
+  try {
+    pkg = JSON.parse(readFileSync(path.resolve(__dirname, '../../package.json'), 'utf8'));
+  } catch {
+    // Unknown build information is reported as such
+  }
+
+  buildInfo = {
+    service: pkg.name || 'linkup-backend',
+    version: pkg.version || 'unknown',
+    commit: getConfig().commit || pkg.gitHead || 'unknown'
+  };
+  return buildInfo;
+}
+
+/**
+ * Rejects when a check does not settle in time
+ */
+function withTimeout<T>(promise: Promise<T>, timeoutMs: number): Promise<T> {
+  let timer: NodeJS.Timeout;
+  const timeout = new Promise<never>((_resolve, reject) => {
+    timer = setTimeout(() => reject(new Error(`Timed out after ${timeoutMs}ms`)), timeoutMs);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+async function runCheck(check: () => Promise<void>, timeoutMs: number): Promise<CheckResult> {
+  const start = Date.now();
+  try {
+    await withTimeout(check(), timeoutMs);
+    return { status: 'ok', durationMs: Date.now() - start };
+  } catch (error: any) {
+    return { status: 'fail', durationMs: Date.now() - start, error: error?.message || 'Check failed' };
+  }
+}
+
+/**
+ * The storage answers a single document read
+ */
+async function checkStorage(): Promise<void> {
+  await new baseDAO('health').getOne('readiness');
+}
+
+/**
+ * The identity provider answers a lookup; an unknown user is a valid answer
+ */
+async function checkAuth(): Promise<void> {
+  try {
+    await getAuthService().getUser('health-readiness-probe');
+  } catch (error: any) {
+    if (error.code !== 'auth/user-not-found') throw error;
+  }
+}
+
+/**
+ * Runs the readiness checks concurrently, each bounded by a timeout
+ * @param {number} timeoutMs - Timeout per check (HEALTH_CHECK_TIMEOUT_MS)
+ * @returns {Promise<ReadinessReport>} Report of every check
+ */
+export async function checkReadiness(
+  timeoutMs = getConfig().healthCheckTimeoutMs
+): Promise<ReadinessReport> {
+  if (isShuttingDown()) {
+    return { ready: false, status: 'shutting_down', checks: {} };
+  }
+
+  // Firebase credentials are only required while Firebase Auth is the identity provider
+  const problems = configProblems(process.env, {
+    requireFirebase: getAuthService() instanceof FirebaseAuthService
+  });
+  const config: CheckResult = problems.length
+    ? { status: 'fail', durationMs: 0, error: problems.join('; ') }
+    : { status: 'ok', durationMs: 0 };
+
+  // Connectivity cannot be checked without a valid configuration
+  const skipped: CheckResult = { status: 'fail', durationMs: 0, error: 'Skipped: invalid configuration' };
+  const [firestore, auth] = problems.length
+    ? [skipped, skipped]
+    : await Promise.all([runCheck(checkStorage, timeoutMs), runCheck(checkAuth, timeoutMs)]);
+
+  const checks = { config, firestore, auth };
+  const ready = Object.values(checks).every((check) => check.status === 'ok');
+
+  return { ready, status: ready ? 'ready' : 'not_ready', checks };
+}
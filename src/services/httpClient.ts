@@ -0,0 +1,43 @@
+/**
+ * Minimal HTTP client abstraction used to call third-party APIs
+ * @module HttpClient
+ */
+
+/**
+ * Response returned by an HttpClient call
+ */
+export interface HttpResponse<T = any> {
+  status: number;
+  body: T;
+}
+
+/**
+ * Injectable HTTP client, so provider calls can be stubbed in tests
+ */
+export interface HttpClient {
+  getJson<T = any>(url: string, headers?: Record<string, string>): Promise<HttpResponse<T>>;
+  postJson<T = any>(url: string, body: unknown, headers?: Record<string, string>): Promise<HttpResponse<T>>;
+}
+
+/**
+ * Default client backed by the global fetch API
+ */
+export const fetchHttpClient: HttpClient = {
+  async getJson(url, headers = {}) {
+    const response = await fetch(url, {
+      headers: { Accept: 'application/json', ...headers }
+    });
+    const body = await response.json().catch(() => null);
+    return { status: response.status, body };
+  },
+
+  async postJson(url, body, headers = {}) {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { Accept: 'application/json', 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body)
+    });
+    const responseBody = await response.json().catch(() => null);
+    return { status: response.status, body: responseBody };
+  }
+};
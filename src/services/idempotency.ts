@@ -0,0 +1,128 @@
+/**
+ * Stored responses of requests sent with an Idempotency-Key, replayed on retries
+ * @module Idempotency
+ */
+import { createHash } from 'crypto';
+import { baseDAO } from '../dao/baseDAO';
+import { getConfig } from '../config';
+import { ConflictError, UnprocessableEntityError } from '../errors';
+
+/**
+ * Response kept for replay
+ */
+export interface StoredResponse {
+  statusCode: number;
+  body: unknown;
+  /** Headers sent again on replay, e.g. the ETag of the written document */
+  headers?: Record<string, string>;
+}
+
+/**
+ * One key of one caller: `pending` while the first request runs, then `completed`
+ */
+export interface IdempotencyRecord {
+  /** Hash of the method, path and body of the first request */
+  fingerprint: string;
+  state: 'pending' | 'completed';
+  response: StoredResponse | null;
+  createdAt: string;
+  /**
+   * An expired key can be used again. Stored as a date (a Timestamp once read back from
+   * Firestore), so a TTL policy on this field deletes expired records.
+   */
+  expiresAt: Date | FirebaseFirestore.Timestamp;
+}
+
+/**
+ * A pending key whose request never finished (e.g. the instance crashed) is released after this
+ */
+const PENDING_TIMEOUT_MS = 60 * 1000;
+
+const idempotencyDAO = new baseDAO<IdempotencyRecord>('idempotencyKeys');
+
+/**
+ * Expiry in milliseconds, whether read back as a Timestamp (Firestore) or a Date
+ */
+function expiryMillis(expiresAt: IdempotencyRecord['expiresAt']): number {
+  return expiresAt instanceof Date ? expiresAt.getTime() : expiresAt.toMillis();
+}
+
+/**
+ * Keys are chosen by clients, so they are hashed with the caller into a safe document ID
+ * @param {string} scope - Caller (user UID, or anonymous client)
+ * @param {string} key - Idempotency-Key header
+ */
+function recordId(scope: string, key: string): string {
+  return createHash('sha256').update(`${scope}\n${key}`).digest('hex');
+}
+
+/**
+ * Claims a key for a new request, or returns the response to replay.
+ * @param {string} scope - Caller (user UID, or anonymous client)
+ * @param {string} key - Idempotency-Key header
+ * @param {string} fingerprint - Hash of the request
+ * @returns {Promise<StoredResponse | undefined>} Response of the first request, or undefined once claimed
+ * @throws {UnprocessableEntityError} The key was used for a different request
+ * @throws {ConflictError} The first request with this key is still running
+ */
+export async function claimIdempotencyKey(
+  scope: string,
+  key: string,
+  fingerprint: string
+): Promise<StoredResponse | undefined> {
+  const id = recordId(scope, key);
+
+  return idempotencyDAO.runTransaction(async (tx) => {
+    const now = Date.now();
+    const record = await tx.get(id);
+
+    // An expired record is overwritten, so it does not wait for the TTL policy to be reused
+    if (record && expiryMillis(record.expiresAt) > now) {
+      if (record.fingerprint !== fingerprint) {
+        throw new UnprocessableEntityError(
+          'Idempotency-Key was already used for a different request',
+          'IDEMPOTENCY_KEY_REUSED'
+        );
+      }
+      if (record.state === 'completed' && record.response) {
+        return record.response;
+      }
+      throw new ConflictError(
+        'A request with this Idempotency-Key is still in progress',
+        'IDEMPOTENCY_KEY_IN_PROGRESS'
+      );
+    }
+
+    tx.set(id, {
+      fingerprint,
+      state: 'pending',
+      response: null,
+      createdAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + PENDING_TIMEOUT_MS),
+    }, false);
+    return undefined;
+  });
+}
+
+/**
+ * Stores the response of the request that claimed the key, for IDEMPOTENCY_TTL_MS
+ * @param {string} scope - Caller
+ * @param {string} key - Idempotency-Key header
+ * @param {StoredResponse} response - Response sent
+ */
+export async function completeIdempotencyKey(scope: string, key: string, response: StoredResponse): Promise<void> {
+  await idempotencyDAO.update(recordId(scope, key), {
+    state: 'completed',
+    response,
+    expiresAt: new Date(Date.now() + getConfig().idempotencyTtlMs),
+  });
+}
+
+/**
+ * Releases a claimed key, so a failed request can be retried with it
+ * @param {string} scope - Caller
+ * @param {string} key - Idempotency-Key header
+ */
+export async function releaseIdempotencyKey(scope: string, key: string): Promise<void> {
+  await idempotencyDAO.delete(recordId(scope, key));
+}
@@ -0,0 +1,50 @@
+/**
+ * Pluggable mail transport for transactional emails
+ * @module Mailer
+ */
+import { log } from '../log';
+
+/**
+ * Outgoing email message
+ */
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+/**
+ * Sends email messages (SMTP, a provider API, a test inbox, ...)
+ */
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+/**
+ * Default transport: writes messages to the log (links and addresses are redacted).
+ * Replace it with a real transport at startup using `setMailTransport`.
+ */
+export const consoleMailTransport: MailTransport = {
+  async send(message) {
+    log.info('Mail not delivered (console transport)', { to: message.to, subject: message.subject, text: message.text });
+  }
+};
+
+let transport: MailTransport = consoleMailTransport;
+
+/**
+ * Replaces the active mail transport
+ * @param {MailTransport} next - Transport to use from now on
+ */
+export function setMailTransport(next: MailTransport): void {
+  transport = next;
+}
+
+/**
+ * Sends a message through the active transport
+ * @param {MailMessage} message - Message to send
+ */
+export function sendMail(message: MailMessage): Promise<void> {
+  return transport.send(message);
+}
@@ -0,0 +1,130 @@
+/**
+ * Password and email action codes against the Firebase Identity Toolkit REST API
+ * @module PasswordAuth
+ */
+import { HttpError } from '../errors';
+import { getConfig } from '../config';
+
+/**
+ * Password format rule, this expression accepts chars like ñ, á etc.
+ */
+export const passwordRule: RegExp = /^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)(?=.*[@$!%*?&#])[A-Za-z\d@$!%*?&#]{8,}$/;
+
+/**
+ * Message returned when a password does not match `passwordRule`
+ */
+export const passwordRuleMessage =
+  'Password must have at least 8 characters, one uppercase, one lowercase, one number and one special character.';
+
+/**
+ * Error raised when a password operation is rejected
+ */
+export class PasswordAuthError extends HttpError {
+  constructor(code: string, message: string, statusCode: number) {
+    super(statusCode, code, message);
+  }
+}
+
+/**
+ * Maps Identity Toolkit error messages to our own error codes
+ * @param {string} reason - Raw `error.message` from the REST response
+ */
+function mapToolkitError(reason: string): PasswordAuthError {
+  // Messages may carry a suffix, e.g. "TOO_MANY_ATTEMPTS_TRY_LATER : ..."
+  const key = reason.split(':')[0].trim();
+
+  switch (key) {
+    case 'EMAIL_NOT_FOUND':
+    case 'INVALID_PASSWORD':
+    case 'INVALID_LOGIN_CREDENTIALS':
+      return new PasswordAuthError('INVALID_CREDENTIALS', 'Invalid email or password', 401);
+    case 'USER_DISABLED':
+      return new PasswordAuthError('ACCOUNT_DISABLED', 'This account has been disabled', 403);
+    case 'TOO_MANY_ATTEMPTS_TRY_LATER':
+      return new PasswordAuthError('TOO_MANY_ATTEMPTS', 'Too many failed attempts. Please try again later.', 429);
+    case 'EXPIRED_OOB_CODE':
+      return new PasswordAuthError('ACTION_CODE_EXPIRED', 'The link has expired', 400);
+    case 'INVALID_OOB_CODE':
+      return new PasswordAuthError('INVALID_ACTION_CODE', 'The link is invalid or was already used', 400);
+    case 'WEAK_PASSWORD':
+      return new PasswordAuthError('WEAK_PASSWORD', 'Password is too weak', 400);
+    default:
+      return new PasswordAuthError('PASSWORD_AUTH_FAILED', 'Unable to verify credentials', 401);
+  }
+}
+
+/**
+ * Calls an Identity Toolkit `accounts:*` endpoint
+ * @param {string} method - Endpoint name, e.g. `signInWithPassword`
+ * @param {Object} payload - JSON request body
+ * @returns {Promise<any>} Parsed response body
+ * @throws {PasswordAuthError} When the endpoint rejects the request
+ */
+async function callIdentityToolkit(method: string, payload: Record<string, any>): Promise<any> {
+  // IDENTITY_TOOLKIT_URL wins, then the Auth emulator, then the production Google endpoint
+  const { apiKey, identityToolkitUrl } = getConfig().firebase;
+
+  if (!apiKey) {
+    throw new Error('FIREBASE_API_KEY is not configured');
+  }
+
+  const response = await fetch(
+    `${identityToolkitUrl}/accounts:${method}?key=${encodeURIComponent(apiKey)}`,
+    {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(payload)
+    }
+  );
+
+  const body: any = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    throw mapToolkitError(body?.error?.message || '');
+  }
+
+  return body;
+}
+
+/**
+ * Result of a successful password check
+ */
+export interface PasswordSignInResult {
+  uid: string;
+  email: string;
+}
+
+/**
+ * Verifies an email/password pair using `accounts:signInWithPassword`
+ * @param {string} email - User's email
+ * @param {string} password - User's password
+ * @returns {Promise<PasswordSignInResult>} The verified account
+ * @throws {PasswordAuthError} When the credentials are rejected
+ */
+export async function verifyPassword(email: string, password: string): Promise<PasswordSignInResult> {
+  const body = await callIdentityToolkit('signInWithPassword', { email, password, returnSecureToken: true });
+  return { uid: body.localId, email: body.email };
+}
+
+/**
+ * Sets a new password from a reset link code using `accounts:resetPassword`
+ * @param {string} oobCode - Code from the password reset link
+ * @param {string} newPassword - New password
+ * @returns {Promise<string>} Email of the account that was reset
+ * @throws {PasswordAuthError} When the code is invalid or expired
+ */
+export async function confirmPasswordReset(oobCode: string, newPassword: string): Promise<string> {
+  const body = await callIdentityToolkit('resetPassword', { oobCode, newPassword });
+  return body.email;
+}
+
+/**
+ * Marks an email as verified from a verification link code using `accounts:update`
+ * @param {string} oobCode - Code from the email verification link
+ * @returns {Promise<string>} The verified email
+ * @throws {PasswordAuthError} When the code is invalid or expired
+ */
+export async function confirmEmailVerification(oobCode: string): Promise<string> {
+  const body = await callIdentityToolkit('update', { oobCode });
+  return body.email;
+}
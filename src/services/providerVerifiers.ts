@@ -0,0 +1,281 @@
+/**
+ * Server-side verification of OAuth provider tokens
+ * @module ProviderVerifiers
+ */
+import jwt, { JwtHeader, SigningKeyCallback } from 'jsonwebtoken';
+import jwksClient, { JwksClient } from 'jwks-rsa';
+import { HttpError, ServiceUnavailableError } from '../errors';
+import { HttpClient, fetchHttpClient } from './httpClient';
+import { getConfig } from '../config';
+
+/**
+ * Supported OAuth providers
+ */
+export type OAuthProvider = 'google' | 'github' | 'facebook';
+
+/**
+ * Identity returned by a provider after the token has been verified.
+ * `claims` holds the raw profile exactly as the provider returned it.
+ */
+export interface VerifiedIdentity {
+  provider: string;
+  providerUid: string;
+  email: string | null;
+  emailVerified: boolean;
+  claims: Record<string, any>;
+}
+
+/**
+ * Verifies a provider token and resolves the identity behind it
+ */
+export interface ProviderVerifier {
+  verify(token: string): Promise<VerifiedIdentity>;
+}
+
+/**
+ * Error raised when a provider token cannot be verified
+ */
+export class ProviderTokenError extends HttpError {
+  constructor(message: string) {
+    super(401, 'INVALID_PROVIDER_TOKEN', message);
+  }
+}
+
+/**
+ * Error raised when a provider is used without its credentials configured
+ * @param {string} label - Provider name for the message
+ * @param {string} variables - Environment variables to set
+ */
+function notConfigured(label: string, variables: string): ServiceUnavailableError {
+  return new ServiceUnavailableError(
+    `${label} sign-in is not configured (${variables})`,
+    'PROVIDER_NOT_CONFIGURED'
+  );
+}
+
+const GOOGLE_ISSUERS: [string, ...string[]] = ['accounts.google.com', 'https://accounts.google.com'];
+
+/**
+ * Verifies Google ID tokens against Google's JWKS, checking audience and issuer
+ */
+export class GoogleTokenVerifier implements ProviderVerifier {
+  private jwks: JwksClient;
+
+  /**
+   * @param {string[]} clientIds - Accepted OAuth client IDs (token audience)
+   * @param {string} jwksUri - JWKS endpoint with Google's signing keys
+   */
+  constructor(
+    private clientIds: string[],
+    jwksUri = 'https://www.googleapis.com/oauth2/v3/certs'
+  ) {
+    this.jwks = jwksClient({ jwksUri, cache: true, rateLimit: true });
+  }
+
+  verify(token: string): Promise<VerifiedIdentity> {
+    if (this.clientIds.length === 0) {
+      return Promise.reject(notConfigured('Google', 'GOOGLE_CLIENT_ID'));
+    }
+
+    const getKey = (header: JwtHeader, callback: SigningKeyCallback) => {
+      this.jwks.getSigningKey(header.kid, (err, key) => {
+        callback(err, key?.getPublicKey());
+      });
+    };
+
+    return new Promise((resolve, reject) => {
+      jwt.verify(
+        token,
+        getKey,
+        {
+          algorithms: ['RS256'],
+          audience: this.clientIds as [string, ...string[]],
+          issuer: GOOGLE_ISSUERS,
+        },
+        (err, payload: any) => {
+          if (err || !payload?.sub) {
+            return reject(new ProviderTokenError('Invalid Google ID token'));
+          }
+
+          resolve({
+            provider: 'google',
+            providerUid: payload.sub,
+            email: payload.email ?? null,
+            emailVerified: payload.email_verified === true,
+            claims: payload,
+          });
+        }
+      );
+    });
+  }
+}
+
+/**
+ * Verifies GitHub access tokens by calling the GitHub user endpoints, checking first
+ * that the token was issued to our OAuth app (tokens of any other app are refused)
+ */
+export class GithubTokenVerifier implements ProviderVerifier {
+  constructor(
+    private http: HttpClient = fetchHttpClient,
+    private clientId?: string,
+    private clientSecret?: string,
+    private apiUrl = 'https://api.github.com'
+  ) {}
+
+  async verify(token: string): Promise<VerifiedIdentity> {
+    if (!this.clientId || !this.clientSecret) {
+      throw notConfigured('GitHub', 'GITHUB_CLIENT_ID, GITHUB_CLIENT_SECRET');
+    }
+
+    // Answers 404 unless the token belongs to our app
+    const basic = Buffer.from(`${this.clientId}:${this.clientSecret}`).toString('base64');
+    const check = await this.http.postJson(
+      `${this.apiUrl}/applications/${encodeURIComponent(this.clientId)}/token`,
+      { access_token: token },
+      { Authorization: `Basic ${basic}`, Accept: 'application/vnd.github+json', 'User-Agent': 'LinkUp-Backend' }
+    );
+
+    if (check.status !== 200 || check.body?.app?.client_id !== this.clientId) {
+      throw new ProviderTokenError('Invalid GitHub access token');
+    }
+
+    const headers = {
+      Authorization: `Bearer ${token}`,
+      Accept: 'application/vnd.github+json',
+      'User-Agent': 'LinkUp-Backend',
+    };
+
+    const { status, body: user } = await this.http.getJson(`${this.apiUrl}/user`, headers);
+
+    if (status !== 200 || !user?.id) {
+      throw new ProviderTokenError('Invalid GitHub access token');
+    }
+
+    // The public profile email may be hidden; the emails endpoint tells us if it is verified
+    let email: string | null = user.email ?? null;
+    let emailVerified = false;
+
+    const emails = await this.http.getJson<any[]>(`${this.apiUrl}/user/emails`, headers);
+    if (emails.status === 200 && Array.isArray(emails.body)) {
+      const primary = emails.body.find((e) => e.primary) ?? emails.body.find((e) => e.email === email);
+      if (primary) {
+        email = primary.email;
+        emailVerified = primary.verified === true;
+      }
+    }
+
+    return {
+      provider: 'github',
+      providerUid: String(user.id),
+      email,
+      emailVerified,
+      claims: user,
+    };
+  }
+}
+
+/**
+ * Verifies Facebook access tokens with the Graph API, checking first that the token
+ * was issued to our app (tokens of any other app are refused)
+ */
+export class FacebookTokenVerifier implements ProviderVerifier {
+  constructor(
+    private http: HttpClient = fetchHttpClient,
+    private appId?: string,
+    private appSecret?: string,
+    private graphUrl = 'https://graph.facebook.com'
+  ) {}
+
+  async verify(token: string): Promise<VerifiedIdentity> {
+    if (!this.appId || !this.appSecret) {
+      throw notConfigured('Facebook', 'FACEBOOK_APP_ID, FACEBOOK_APP_SECRET');
+    }
+
+    const appToken = encodeURIComponent(`${this.appId}|${this.appSecret}`);
+    const debug = await this.http.getJson(
+      `${this.graphUrl}/debug_token?input_token=${encodeURIComponent(token)}&access_token=${appToken}`
+    );
+
+    if (debug.status !== 200 || !debug.body?.data?.is_valid || debug.body.data.app_id !== this.appId) {
+      throw new ProviderTokenError('Invalid Facebook access token');
+    }
+
+    const fields = 'id,name,email,first_name,last_name,picture';
+    const { status, body: profile } = await this.http.getJson(
+      `${this.graphUrl}/me?fields=${fields}&access_token=${encodeURIComponent(token)}`
+    );
+
+    if (status !== 200 || !profile?.id) {
+      throw new ProviderTokenError('Invalid Facebook access token');
+    }
+
+    return {
+      provider: 'facebook',
+      providerUid: String(profile.id),
+      email: profile.email ?? null,
+      emailVerified: false,
+      claims: profile,
+    };
+  }
+}
+
+/**
+ * Verifier that resolves identities from a fixed token map, for tests
+ */
+export class FixtureVerifier implements ProviderVerifier {
+  constructor(private fixtures: Record<string, VerifiedIdentity>) {}
+
+  async verify(token: string): Promise<VerifiedIdentity> {
+    const identity = this.fixtures[token];
+    if (!identity) {
+      throw new ProviderTokenError('Unknown fixture token');
+    }
+    return identity;
+  }
+}
+
+/**
+ * Registered verifiers, created lazily from the environment
+ */
+const verifiers: Partial<Record<OAuthProvider, ProviderVerifier>> = {};
+
+/**
+ * Builds the default verifier for a provider from environment variables
+ */
+function createDefaultVerifier(provider: OAuthProvider): ProviderVerifier {
+  const { googleClientIds, githubClientId, githubClientSecret, facebookAppId, facebookAppSecret } =
+    getConfig().providers;
+
+  switch (provider) {
+    case 'google':
+      return new GoogleTokenVerifier(googleClientIds);
+    case 'github':
+      return new GithubTokenVerifier(fetchHttpClient, githubClientId, githubClientSecret);
+    case 'facebook':
+      return new FacebookTokenVerifier(
+        fetchHttpClient,
+        facebookAppId,
+        facebookAppSecret
+      );
+  }
+}
+
+/**
+ * Returns the verifier registered for a provider
+ * @param {OAuthProvider} provider - Provider name
+ */
+export function getProviderVerifier(provider: OAuthProvider): ProviderVerifier {
+  if (!verifiers[provider]) {
+    verifiers[provider] = createDefaultVerifier(provider);
+  }
+  return verifiers[provider];
+}
+
+/**
+ * Replaces the verifier for a provider (e.g. with a FixtureVerifier in tests)
+ * @param {OAuthProvider} provider - Provider name
+ * @param {ProviderVerifier} verifier - Verifier to use
+ */
+export function setProviderVerifier(provider: OAuthProvider, verifier: ProviderVerifier): void {
+  verifiers[provider] = verifier;
+}
@@ -0,0 +1,84 @@
+/**
+ * Roles and permissions, stored as Firebase custom claims
+ * @module Roles
+ */
+import { getAuthService } from './authService';
+
+export const ROLES = ['user', 'moderator', 'admin'] as const;
+export type Role = (typeof ROLES)[number];
+
+/**
+ * Permissions over resources owned by other users.
+ * Acting on your own profile and meetings never needs a permission.
+ */
+export type Permission =
+  | 'users:read'
+  | 'users:update'
+  | 'users:disable'
+  | 'users:delete'
+  | 'users:manageRoles'
+  | 'meetings:read'
+  | 'meetings:update'
+  | 'meetings:delete';
+
+const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  user: [],
+  moderator: ['users:read', 'meetings:read', 'meetings:update', 'meetings:delete'],
+  admin: [
+    'users:read',
+    'users:update',
+    'users:disable',
+    'users:delete',
+    'users:manageRoles',
+    'meetings:read',
+    'meetings:update',
+    'meetings:delete',
+  ],
+};
+
+/**
+ * Authenticated user, set on `req.user` by verifyIdToken
+ */
+export interface AuthUser {
+  uid: string;
+  roles: Role[];
+  /** Admin UID when the token comes from a read-only impersonation */
+  impersonatedBy?: string;
+}
+
+/**
+ * Reads the roles from decoded token claims (every account is at least `user`)
+ * @param {Object} claims - Decoded ID token or session cookie claims
+ */
+export function rolesFromClaims(claims: Record<string, any>): Role[] {
+  const claimed: string[] = Array.isArray(claims.roles) ? claims.roles : [];
+  const roles = claimed.filter((role): role is Role => (ROLES as readonly string[]).includes(role));
+  return roles.includes('user') ? roles : ['user', ...roles];
+}
+
+/**
+ * Checks whether a user has a permission through any of its roles
+ * @param {AuthUser} user - Authenticated user
+ * @param {Permission} permission - Permission to check
+ */
+export function hasPermission(user: AuthUser | undefined, permission: Permission): boolean {
+  return !!user?.roles.some((role) => ROLE_PERMISSIONS[role].includes(permission));
+}
+
+/**
+ * Replaces the roles of a user, keeping its other custom claims.
+ * The change reaches the client on its next ID token refresh.
+ * @param {string} uid - User UID
+ * @param {Role[]} roles - New roles
+ */
+export async function setUserRoles(uid: string, roles: Role[]): Promise<Role[]> {
+  const userRecord = await getAuthService().getUser(uid);
+  const normalized = rolesFromClaims({ roles });
+
+  await getAuthService().setCustomUserClaims(uid, {
+    ...(userRecord.customClaims || {}),
+    roles: normalized,
+  });
+
+  return normalized;
+}
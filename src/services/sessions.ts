@@ -0,0 +1,129 @@
+/**
+ * Login session records (devices) stored per user
+ * @module Sessions
+ */
+import type { Request } from 'express';
+import { baseDAO } from '../dao/baseDAO';
+import { getAuthService } from './authService';
+
+/**
+ * Stored session record
+ */
+export interface SessionRecord {
+  id: string;
+  provider: string;
+  device: string;
+  userAgent: string;
+  ip: string;
+  createdAt: string;
+  revokedAt: string | null;
+}
+
+/**
+ * Sessions live in the `users/{uid}/sessions` subcollection
+ * @param {string} uid - User UID
+ */
+function sessionsOf(uid: string) {
+  return new baseDAO<SessionRecord>(`users/${uid}/sessions`, 'id');
+}
+
+/**
+ * Builds a short, human readable device description from a User-Agent
+ * @param {string} userAgent - Raw User-Agent header
+ * @returns {string} e.g. "Chrome on Android"
+ */
+export function describeDevice(userAgent: string): string {
+  if (!userAgent) return 'Unknown device';
+
+  const browser =
+    /Edg\//.test(userAgent) ? 'Edge' :
+    /OPR\//.test(userAgent) ? 'Opera' :
+    /Chrome\//.test(userAgent) ? 'Chrome' :
+    /Firefox\//.test(userAgent) ? 'Firefox' :
+    /Safari\//.test(userAgent) ? 'Safari' :
+    'Unknown browser';
+
+  const os =
+    /Android/.test(userAgent) ? 'Android' :
+    /iPhone|iPad|iPod/.test(userAgent) ? 'iOS' :
+    /Windows/.test(userAgent) ? 'Windows' :
+    /Mac OS X/.test(userAgent) ? 'macOS' :
+    /Linux/.test(userAgent) ? 'Linux' :
+    'Unknown OS';
+
+  return `${browser} on ${os}`;
+}
+
+/**
+ * Records a new session for a sign-in
+ * @param {string} uid - User UID
+ * @param {Request} req - Sign-in request (device, User-Agent and IP are read from it)
+ * @param {string} provider - Sign-in method (manual, google, ...)
+ * @returns {Promise<string>} New session ID, to embed as `sid` claim in the custom token
+ */
+export async function recordSession(uid: string, req: Request, provider: string): Promise<string> {
+  const userAgent = req.get('User-Agent') || '';
+
+  return sessionsOf(uid).create({
+    provider,
+    device: req.get('X-Device-Name') || describeDevice(userAgent),
+    userAgent: userAgent.substring(0, 300),
+    ip: req.ip || '',
+    createdAt: new Date().toISOString(),
+    revokedAt: null,
+  });
+}
+
+/**
+ * Lists the sessions of a user, newest first
+ * @param {string} uid - User UID
+ */
+export async function listSessions(uid: string): Promise<SessionRecord[]> {
+  return sessionsOf(uid).findWhere({ orderBy: [['createdAt', 'desc']] });
+}
+
+/**
+ * Checks that a session has not been revoked
+ * @param {string} uid - User UID
+ * @param {string} sessionId - Session ID (`sid` claim)
+ */
+export async function isSessionActive(uid: string, sessionId: string): Promise<boolean> {
+  const session = await sessionsOf(uid).getOne(sessionId);
+  return !!session && !session.revokedAt;
+}
+
+/**
+ * Revokes a single session.
+ * Firebase can only revoke all refresh tokens of a user at once, so a single
+ * session is revoked by flagging it; verifyIdToken refuses tokens carrying its `sid`.
+ * @param {string} uid - User UID
+ * @param {string} sessionId - Session ID
+ * @returns {Promise<boolean>} False when the session does not exist
+ */
+export async function revokeSession(uid: string, sessionId: string): Promise<boolean> {
+  const sessions = sessionsOf(uid);
+  const session = await sessions.getOne(sessionId);
+
+  if (!session) return false;
+
+  if (!session.revokedAt) {
+    await sessions.update(sessionId, { revokedAt: new Date().toISOString() });
+  }
+  return true;
+}
+
+/**
+ * Signs a user out everywhere: revokes all refresh tokens and flags every session
+ * @param {string} uid - User UID
+ */
+export async function revokeAllSessions(uid: string): Promise<void> {
+  await getAuthService().revokeRefreshTokens(uid);
+
+  const now = new Date().toISOString();
+  const sessions = sessionsOf(uid);
+  const active = await sessions.findWhere({ where: [['revokedAt', '==', null]] });
+
+  await sessions.batchWrite(
+    active.map((session) => ({ type: 'update' as const, id: session.id, data: { revokedAt: now } }))
+  );
+}
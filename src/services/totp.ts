@@ -0,0 +1,119 @@
+/**
+ * Time-based one-time passwords (RFC 6238, SHA-1, 6 digits, 30 s steps)
+ * @module Totp
+ */
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+
+/**
+ * Encodes bytes as unpadded base32 (the format authenticator apps expect)
+ * @param {Buffer} buffer - Bytes to encode
+ */
+function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+/**
+ * Decodes an unpadded base32 string
+ * @param {string} input - Base32 text
+ */
+function base32Decode(input: string): Buffer {
+  const clean = input.replace(/=+$/, '').toUpperCase();
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new Error('Invalid base32 character');
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+/**
+ * Generates a new random TOTP secret (160 bits, base32)
+ */
+export function generateTotpSecret(): string {
+  return base32Encode(randomBytes(20));
+}
+
+/**
+ * Builds the otpauth:// URI used to enroll an authenticator app (QR code)
+ * @param {string} secret - Base32 secret
+ * @param {string} accountName - Account label, usually the email
+ * @param {string} issuer - Issuer shown in the app
+ */
+export function buildOtpAuthUri(secret: string, accountName: string, issuer = 'LinkUp'): string {
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(DIGITS),
+    period: String(STEP_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+/**
+ * Computes the code for a time step (RFC 4226 HOTP)
+ * @param {Buffer} key - Decoded secret
+ * @param {number} step - Time step counter
+ */
+function hotp(key: Buffer, step: number): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+
+  const hmac = createHmac('sha1', key).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0xf;
+  const binary = (hmac.readUInt32BE(offset) & 0x7fffffff) % 10 ** DIGITS;
+
+  return binary.toString().padStart(DIGITS, '0');
+}
+
+/**
+ * Verifies a TOTP code, tolerating `window` steps of clock drift
+ * @param {string} secret - Base32 secret
+ * @param {string} code - Code typed by the user
+ * @param {number} window - Accepted steps before/after the current one
+ * @returns {number | null} Matched time step (to block replays), or null
+ */
+export function verifyTotp(secret: string, code: string, window = 1): number | null {
+  const normalized = (code || '').replace(/\s+/g, '');
+  if (!/^\d{6}$/.test(normalized)) return null;
+
+  const key = base32Decode(secret);
+  const currentStep = Math.floor(Date.now() / 1000 / STEP_SECONDS);
+
+  for (let drift = -window; drift <= window; drift++) {
+    const step = currentStep + drift;
+    if (timingSafeEqual(Buffer.from(hotp(key, step)), Buffer.from(normalized))) {
+      return step;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,218 @@
+/**
+ * TOTP two-factor authentication: enrollment, recovery codes and login challenges
+ * @module TwoFactor
+ */
+import { createHash, randomBytes } from 'crypto';
+import { baseDAO } from '../dao/baseDAO';
+import { HttpError } from '../errors';
+import { buildOtpAuthUri, generateTotpSecret, verifyTotp } from './totp';
+
+const RECOVERY_CODE_COUNT = 10;
+const CHALLENGE_TTL_MS = 5 * 60 * 1000;
+const CHALLENGE_MAX_ATTEMPTS = 5;
+
+/**
+ * Secrets are kept out of the `users` documents, which are returned to clients
+ */
+const twoFactorDAO = new baseDAO<FirebaseFirestore.DocumentData>('twoFactor');
+const challengesDAO = new baseDAO<FirebaseFirestore.DocumentData>('twoFactorChallenges');
+
+/**
+ * Error raised when a two-factor operation is refused
+ */
+export class TwoFactorError extends HttpError {
+  constructor(code: string, message: string, statusCode: number) {
+    super(statusCode, code, message);
+  }
+}
+
+/**
+ * Recovery codes are random, so a plain SHA-256 is enough to store them
+ * @param {string} code - Recovery code
+ */
+function hashRecoveryCode(code: string): string {
+  return createHash('sha256').update(code.replace(/[\s-]/g, '').toLowerCase()).digest('hex');
+}
+
+/**
+ * Generates one-time recovery codes, formatted as `xxxxx-xxxxx`
+ */
+function generateRecoveryCodes(): string[] {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = randomBytes(5).toString('hex');
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+}
+
+/**
+ * Checks whether a user has two-factor authentication enabled
+ * @param {string} uid - User UID
+ */
+export async function isTwoFactorEnabled(uid: string): Promise<boolean> {
+  const data = await twoFactorDAO.getOne(uid);
+  return data?.enabled === true;
+}
+
+/**
+ * Checks that a decoded token may be used by its user. With two-factor enabled, only
+ * tokens minted by /2fa/verify (`sid` and `mfa: true` claims) are accepted, not ID tokens
+ * from a password sign-in straight against Firebase.
+ * @param {Object} claims - Decoded ID token or session cookie
+ */
+export async function satisfiesTwoFactor(claims: { uid: string; sid?: string; mfa?: boolean }): Promise<boolean> {
+  if (claims.sid && claims.mfa === true) {
+    return true;
+  }
+  return !(await isTwoFactorEnabled(claims.uid));
+}
+
+/**
+ * Starts enrollment: generates a pending secret for the authenticator app
+ * @param {string} uid - User UID
+ * @param {string} email - Account email, used as the authenticator label
+ * @returns Secret and otpauth URI
+ */
+export async function startEnrollment(uid: string, email: string) {
+  if (await isTwoFactorEnabled(uid)) {
+    throw new TwoFactorError('TWO_FACTOR_ALREADY_ENABLED', 'Two-factor authentication is already enabled', 409);
+  }
+
+  const secret = generateTotpSecret();
+
+  await twoFactorDAO.set(uid, {
+    enabled: false,
+    pendingSecret: secret,
+    updatedAt: new Date().toISOString(),
+  }, false);
+
+  return {
+    secret,
+    otpauthUri: buildOtpAuthUri(secret, email),
+  };
+}
+
+/**
+ * Confirms enrollment with a code from the authenticator app
+ * @param {string} uid - User UID
+ * @param {string} code - TOTP code
+ * @returns {Promise<string[]>} Recovery codes, shown to the user only once
+ */
+export async function confirmEnrollment(uid: string, code: string): Promise<string[]> {
+  const data = await twoFactorDAO.getOne(uid);
+
+  if (!data?.pendingSecret) {
+    throw new TwoFactorError('TWO_FACTOR_NOT_PENDING', 'Start enrollment first', 400);
+  }
+
+  const step = verifyTotp(data.pendingSecret, code);
+  if (step === null) {
+    throw new TwoFactorError('INVALID_TWO_FACTOR_CODE', 'Invalid verification code', 401);
+  }
+
+  const recoveryCodes = generateRecoveryCodes();
+  const now = new Date().toISOString();
+
+  await twoFactorDAO.set(uid, {
+    enabled: true,
+    secret: data.pendingSecret,
+    lastUsedStep: step,
+    recoveryCodes: recoveryCodes.map(hashRecoveryCode),
+    enrolledAt: now,
+    updatedAt: now,
+  }, false);
+
+  return recoveryCodes;
+}
+
+/**
+ * Checks a TOTP or recovery code for an enrolled user.
+ * Recovery codes are consumed, and TOTP codes cannot be replayed.
+ * @param {string} uid - User UID
+ * @param {string} code - TOTP code or recovery code
+ * @returns {Promise<boolean>} Whether the code was accepted
+ */
+async function consumeCode(uid: string, code: string): Promise<boolean> {
+  return twoFactorDAO.runTransaction(async (tx) => {
+    const data = await tx.get(uid);
+    if (!data?.enabled) return false;
+
+    const step = verifyTotp(data.secret, code);
+    if (step !== null) {
+      if (step <= (data.lastUsedStep ?? -1)) return false;
+      tx.update(uid, { lastUsedStep: step });
+      return true;
+    }
+
+    const hash = hashRecoveryCode(code || '');
+    const remaining: string[] = data.recoveryCodes || [];
+    if (remaining.includes(hash)) {
+      tx.update(uid, { recoveryCodes: remaining.filter((c) => c !== hash) });
+      return true;
+    }
+
+    return false;
+  });
+}
+
+/**
+ * Disables two-factor authentication after checking a current code
+ * @param {string} uid - User UID
+ * @param {string} code - TOTP code or recovery code
+ */
+export async function disableTwoFactor(uid: string, code: string): Promise<void> {
+  if (!(await isTwoFactorEnabled(uid))) {
+    throw new TwoFactorError('TWO_FACTOR_NOT_ENABLED', 'Two-factor authentication is not enabled', 400);
+  }
+
+  if (!(await consumeCode(uid, code))) {
+    throw new TwoFactorError('INVALID_TWO_FACTOR_CODE', 'Invalid verification code', 401);
+  }
+
+  await twoFactorDAO.delete(uid);
+}
+
+/**
+ * Creates a short-lived login challenge, answered with a TOTP or recovery code
+ * @param {string} uid - User UID that passed the password or provider check
+ * @param {string} provider - Sign-in method, recorded on the session once the challenge is completed
+ * @returns Challenge ID and expiry
+ */
+export async function createLoginChallenge(uid: string, provider = 'manual') {
+  const challengeId = randomBytes(32).toString('hex');
+  const expiresAt = new Date(Date.now() + CHALLENGE_TTL_MS).toISOString();
+
+  await challengesDAO.create({
+    uid,
+    provider,
+    attempts: 0,
+    expiresAt,
+  }, challengeId);
+
+  return { challengeId, expiresAt };
+}
+
+/**
+ * Completes a login challenge
+ * @param {string} challengeId - Challenge ID returned by /login
+ * @param {string} code - TOTP code or recovery code
+ * @returns UID of the user that signed in, and the sign-in method
+ */
+export async function completeLoginChallenge(
+  challengeId: string,
+  code: string
+): Promise<{ uid: string; provider: string }> {
+  const data = await challengesDAO.getOne(challengeId);
+
+  if (!data || new Date(data.expiresAt).getTime() < Date.now() || data.attempts >= CHALLENGE_MAX_ATTEMPTS) {
+    await challengesDAO.delete(challengeId);
+    throw new TwoFactorError('TWO_FACTOR_CHALLENGE_EXPIRED', 'Sign-in challenge expired, please sign in again', 401);
+  }
+
+  if (!(await consumeCode(data.uid, code))) {
+    await challengesDAO.update(challengeId, { attempts: data.attempts + 1 });
+    throw new TwoFactorError('INVALID_TWO_FACTOR_CODE', 'Invalid verification code', 401);
+  }
+
+  await challengesDAO.delete(challengeId);
+  return { uid: data.uid, provider: data.provider || 'manual' };
+}
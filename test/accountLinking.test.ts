@@ -0,0 +1,91 @@
+import request from 'supertest';
+import { createTestApp, registerUser, login, bearer, TestContext } from './helpers';
+import { userDAO } from '../src/dao/userDAO';
+import { FixtureVerifier, VerifiedIdentity, setProviderVerifier } from '../src/services/providerVerifiers';
+
+const VICTIM = 'victim@example.com';
+
+function githubIdentity(emailVerified: boolean): VerifiedIdentity {
+  return {
+    provider: 'github',
+    providerUid: 'gh-attacker',
+    email: VICTIM,
+    emailVerified,
+    claims: { login: 'attacker' },
+  };
+}
+
+describe('OAuth account linking', () => {
+  let ctx: TestContext;
+  let uid: string;
+
+  beforeEach(async () => {
+    ctx = createTestApp();
+    uid = await registerUser(ctx, VICTIM);
+    setProviderVerifier('github', new FixtureVerifier({
+      unverified: githubIdentity(false),
+      verified: githubIdentity(true),
+    }));
+  });
+
+  it('does not sign in to an account listing the provider without its provider ID', async () => {
+    // Accounts linked before provider IDs were recorded only list the provider name
+    await userDAO.update(uid, { providers: ['manual', 'github'] });
+
+    const res = await request(ctx.app).post('/api/oauth/github').send({ token: 'unverified' }).expect(409);
+
+    expect(res.body.code).toBe('ACCOUNT_LINK_REQUIRED');
+    expect(res.body.token).toBeUndefined();
+    expect((await userDAO.getOne(uid))?.providerIds?.github).toBeUndefined();
+  });
+
+  it('does not link an unverified provider email to a verified account', async () => {
+    await ctx.auth.updateUser(uid, { emailVerified: true });
+
+    const res = await request(ctx.app).post('/api/oauth/github').send({ token: 'unverified' }).expect(409);
+
+    expect(res.body.code).toBe('ACCOUNT_LINK_REQUIRED');
+    expect((await userDAO.getOne(uid))?.providers).toEqual(['manual']);
+  });
+
+  it('does not link a verified provider email to an unverified account', async () => {
+    await request(ctx.app).post('/api/oauth/github').send({ token: 'verified' }).expect(409);
+  });
+
+  it('links when both emails are verified, then finds the user by provider ID', async () => {
+    await ctx.auth.updateUser(uid, { emailVerified: true });
+
+    const res = await request(ctx.app).post('/api/oauth/github').send({ token: 'verified' }).expect(200);
+
+    expect(res.body.user.uid).toBe(uid);
+    expect((await userDAO.getOne(uid))?.providerIds?.github).toBe('gh-attacker');
+
+    // Returning sign-ins match the provider ID, whatever the email says now
+    await request(ctx.app).post('/api/oauth/github').send({ token: 'unverified' }).expect(200);
+  });
+
+  it('links an explicitly added provider from a recent sign-in', async () => {
+    const idToken = await login(ctx, VICTIM);
+
+    const res = await request(ctx.app)
+      .post(`/api/users/${uid}/providers/github`)
+      .set(bearer(idToken))
+      .send({ token: 'unverified' })
+      .expect(200);
+
+    expect(res.body.providers).toEqual(['manual', 'github']);
+  });
+
+  it('validates the body of an explicit link', async () => {
+    const idToken = await login(ctx, VICTIM);
+
+    const res = await request(ctx.app)
+      .post(`/api/users/${uid}/providers/manual`)
+      .set(bearer(idToken))
+      .send({ password: 'weak' })
+      .expect(400);
+
+    expect(res.body.code).toBe('VALIDATION_ERROR');
+    expect(res.body.details).toEqual([expect.objectContaining({ field: 'password' })]);
+  });
+});
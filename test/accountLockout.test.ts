@@ -0,0 +1,109 @@
+import request from 'supertest';
+import { createTestApp, registerUser, PASSWORD } from './helpers';
+import { setRepositoryFactory } from '../src/dao/baseDAO';
+import { memoryRepositories } from '../src/dao/memoryRepository';
+import {
+  MemoryAttemptStore,
+  RepositoryAttemptStore,
+  clearFailedAttempts,
+  getLockoutRemaining,
+  registerFailedAttempt,
+  setAttemptStore,
+} from '../src/services/accountLockout';
+
+const EMAIL = 'grace@example.com';
+const MINUTE = 60 * 1000;
+
+describe('account lockout', () => {
+  let now: number;
+
+  beforeEach(() => {
+    setAttemptStore(new MemoryAttemptStore());
+    now = Date.parse('2026-01-01T00:00:00Z');
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  async function fail(times: number) {
+    for (let attempt = 0; attempt < times; attempt++) {
+      await registerFailedAttempt(EMAIL);
+    }
+  }
+
+  it('locks after the threshold and doubles the lockout on each further failure', async () => {
+    await fail(4);
+    expect(await getLockoutRemaining(EMAIL)).toBe(0);
+
+    await fail(1);
+    expect(await getLockoutRemaining(EMAIL)).toBe(MINUTE);
+
+    await fail(1);
+    expect(await getLockoutRemaining(EMAIL)).toBe(2 * MINUTE);
+
+    await fail(1);
+    expect(await getLockoutRemaining(EMAIL)).toBe(4 * MINUTE);
+  });
+
+  it('caps the lockout', async () => {
+    await fail(20);
+    expect(await getLockoutRemaining(EMAIL)).toBe(60 * MINUTE);
+  });
+
+  it('forgets failures after the reset period and after a successful sign-in', async () => {
+    await fail(4);
+    now += 24 * 60 * MINUTE;
+    await fail(1);
+    expect(await getLockoutRemaining(EMAIL)).toBe(0);
+
+    await fail(3);
+    await clearFailedAttempts(EMAIL);
+    await fail(1);
+    expect(await getLockoutRemaining(EMAIL)).toBe(0);
+  });
+
+  it.each([
+    ['memory', () => new MemoryAttemptStore()],
+    ['repository', () => new RepositoryAttemptStore()],
+  ])('counts every failure sent in parallel (%s store)', async (_name, createStore) => {
+    setRepositoryFactory(memoryRepositories());
+    setAttemptStore(createStore());
+
+    await Promise.all(Array.from({ length: 7 }, () => registerFailedAttempt(EMAIL)));
+
+    // 7 failures: locked for 2^(7 - 5) minutes
+    expect(await getLockoutRemaining(EMAIL)).toBe(4 * MINUTE);
+  });
+
+  it('evicts records from memory once they expire', async () => {
+    const store = new MemoryAttemptStore();
+    setAttemptStore(store);
+
+    await fail(5);
+    await registerFailedAttempt('other@example.com');
+    expect(store.size).toBe(2);
+
+    now += 24 * 60 * MINUTE;
+    await registerFailedAttempt('third@example.com');
+    expect(store.size).toBe(1);
+    expect(await getLockoutRemaining(EMAIL)).toBe(0);
+  });
+
+  it('refuses sign-ins while locked, even with the right password', async () => {
+    const ctx = createTestApp();
+    await registerUser(ctx, EMAIL);
+
+    for (let attempt = 0; attempt < 5; attempt++) {
+      await request(ctx.app).post('/api/auth/login').send({ email: EMAIL, password: 'Wrong0ne!' }).expect(401);
+    }
+
+    const res = await request(ctx.app).post('/api/auth/login').send({ email: EMAIL, password: PASSWORD }).expect(429);
+    expect(res.body.code).toBe('ACCOUNT_LOCKED');
+    expect(res.headers['retry-after']).toBe('60');
+
+    now += MINUTE;
+    await request(ctx.app).post('/api/auth/login').send({ email: EMAIL, password: PASSWORD }).expect(200);
+  });
+});
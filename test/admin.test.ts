@@ -0,0 +1,70 @@
+import request from 'supertest';
+import { createTestApp, registerUser, login, bearer, captureMail, TestContext, PASSWORD } from './helpers';
+
+describe('admin API', () => {
+  let ctx: TestContext;
+  let adminUid: string;
+  let adminToken: string;
+  let uid: string;
+
+  beforeEach(async () => {
+    ctx = createTestApp();
+    adminUid = await registerUser(ctx, 'admin@example.com');
+    await ctx.auth.setCustomUserClaims(adminUid, { roles: ['admin'] });
+    adminToken = await login(ctx, 'admin@example.com');
+    uid = await registerUser(ctx, 'ada@example.com');
+  });
+
+  function admin(method: 'get' | 'post' | 'delete', path: string) {
+    return request(ctx.app)[method](`/api/admin${path}`).set(bearer(adminToken));
+  }
+
+  it('shows the profile, account and provider links of a user', async () => {
+    const { body } = await admin('get', `/users/${uid}`).expect(200);
+
+    expect(body.user.profile.email).toBe('ada@example.com');
+    expect(body.user.account).toMatchObject({ uid, disabled: false, roles: ['user'] });
+    expect(body.user.providerLinks.providers).toEqual(['manual']);
+
+    const missing = await admin('get', '/users/unknown').expect(404);
+    expect(missing.body.code).toBe('USER_NOT_FOUND');
+  });
+
+  it('disables and re-enables an account, revoking its sessions', async () => {
+    const idToken = await login(ctx, 'ada@example.com');
+
+    await admin('post', `/users/${uid}/disable`).expect(200);
+    await request(ctx.app).get(`/api/users/${uid}`).set(bearer(idToken)).expect(401);
+    await request(ctx.app).post('/api/auth/login').send({ email: 'ada@example.com', password: PASSWORD }).expect(403);
+
+    await admin('post', `/users/${uid}/enable`).expect(200);
+    await login(ctx, 'ada@example.com');
+  });
+
+  it('refuses to disable the calling admin', async () => {
+    const res = await admin('post', `/users/${adminUid}/disable`).expect(400);
+    expect(res.body.code).toBe('CANNOT_DISABLE_SELF');
+  });
+
+  it('forces a password reset by email', async () => {
+    const mail = captureMail();
+    const idToken = await login(ctx, 'ada@example.com');
+
+    await admin('post', `/users/${uid}/password-reset`).expect(200);
+
+    expect(mail.map((message) => message.to)).toEqual(['ada@example.com']);
+    await request(ctx.app).get(`/api/users/${uid}`).set(bearer(idToken)).expect(401);
+  });
+
+  it('records every action in the audit trail of the user', async () => {
+    await admin('get', `/users/${uid}`).expect(200);
+    await admin('post', `/users/${uid}/disable`).expect(200);
+    await admin('delete', `/users/${uid}/sessions`).expect(200);
+
+    const { body } = await admin('get', `/users/${uid}/audit`).expect(200);
+    expect(body.entries.map((entry: any) => entry.action).sort()).toEqual(
+      ['user.disable', 'user.sessions.revoke', 'user.view']
+    );
+    expect(body.entries.every((entry: any) => entry.actorUid === adminUid)).toBe(true);
+  });
+});
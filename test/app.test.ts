@@ -0,0 +1,63 @@
+import request from 'supertest';
+import { createTestApp, registerUser, login, bearer } from './helpers';
+import { loadConfig } from '../src/config';
+import { createApp } from '../src/app';
+import { memoryRepositories } from '../src/dao/memoryRepository';
+import { FakeAuthService } from '../src/services/fakeAuth';
+
+describe('createApp', () => {
+  it('answers unknown routes with the error envelope', async () => {
+    const { app } = createTestApp();
+
+    const res = await request(app).get('/api/nothing-here').expect(404);
+    expect(res.body).toEqual({ success: false, error: 'Route not found: GET /api/nothing-here', code: 'ROUTE_NOT_FOUND' });
+  });
+
+  it('allows credentialed calls from the configured origins only', async () => {
+    const app = createApp(
+      { repositories: memoryRepositories(), auth: new FakeAuthService() },
+      { corsOrigins: ['https://app.example.com'] }
+    );
+
+    const allowed = await request(app).get('/api/health/live').set('Origin', 'https://app.example.com').expect(200);
+    expect(allowed.headers['access-control-allow-origin']).toBe('https://app.example.com');
+    expect(allowed.headers['access-control-allow-credentials']).toBe('true');
+    expect(allowed.headers['access-control-expose-headers']).toContain('ETag');
+
+    const other = await request(app).get('/api/health/live').set('Origin', 'https://evil.example.com').expect(200);
+    expect(other.headers['access-control-allow-origin']).toBeUndefined();
+  });
+
+  it('keeps the storage and identity provider of each app apart', async () => {
+    const first = createTestApp();
+    const second = createTestApp();
+
+    const uid = await registerUser(first, 'ada@example.com');
+    const idToken = await login(first, 'ada@example.com');
+
+    // Requests to the first app still use its own backends once the second one exists
+    await request(first.app).get(`/api/users/${uid}`).set(bearer(idToken)).expect(200);
+    await request(second.app).post('/api/auth/login').send({ email: 'ada@example.com', password: 'Passw0rd!' }).expect(401);
+
+    // The same email can register in the second app
+    await registerUser(second, 'ada@example.com');
+  });
+
+  it('uses the configuration it was given', async () => {
+    const config = loadConfig(
+      { ...process.env, REQUIRE_VERIFIED_EMAIL: 'true' },
+      { requireFirebase: false }
+    );
+    const strict = createTestApp({ config });
+    const relaxed = createTestApp();
+
+    await registerUser(strict, 'ada@example.com');
+    const strictToken = await login(strict, 'ada@example.com');
+    const res = await request(strict.app).post('/api/meetings').set(bearer(strictToken)).send({ title: 'Retro' }).expect(403);
+    expect(res.body.code).toBe('EMAIL_NOT_VERIFIED');
+
+    await registerUser(relaxed, 'ada@example.com');
+    const relaxedToken = await login(relaxed, 'ada@example.com');
+    await request(relaxed.app).post('/api/meetings').set(bearer(relaxedToken)).send({ title: 'Retro' }).expect(201);
+  });
+});
@@ -0,0 +1,124 @@
+import request from 'supertest';
+import { createTestApp, registerUser, login, bearer } from './helpers';
+import { baseDAO, deleteField, setRepositoryFactory } from '../src/dao/baseDAO';
+import { memoryRepositories } from '../src/dao/memoryRepository';
+
+interface Note {
+  id?: string;
+  title: string;
+  rank: number;
+  tags?: { color?: string };
+}
+
+describe('baseDAO', () => {
+  const notes = new baseDAO<Note>('notes', 'id');
+
+  beforeEach(async () => {
+    setRepositoryFactory(memoryRepositories());
+    await notes.batchWrite(
+      ['a', 'b', 'c', 'd', 'e'].map((title, index) => ({ type: 'set', id: title, data: { title, rank: index % 3 } }))
+    );
+  });
+
+  it('exposes the document ID through the ID field without storing it', async () => {
+    const id = await notes.create({ id: 'ignored', title: 'f', rank: 9 });
+
+    expect(await notes.getOne(id)).toEqual({ id, title: 'f', rank: 9 });
+    expect(await notes.getOne('missing')).toBeUndefined();
+  });
+
+  it('queries with where clauses, order and limit', async () => {
+    const found = await notes.findWhere({ where: [['rank', '>=', 1]], orderBy: [['rank', 'desc']], limit: 3 });
+
+    expect(found.map((note) => note.id)).toEqual(['c', 'b', 'e']);
+    expect((await notes.findOne(['title', '==', 'd']))?.rank).toBe(0);
+  });
+
+  it('pages through a collection with cursors', async () => {
+    const titles: string[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const page = await notes.findPage({ orderBy: [['title']], limit: 2, cursor });
+      titles.push(...page.items.map((note) => note.title));
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor);
+
+    expect(titles).toEqual(['a', 'b', 'c', 'd', 'e']);
+  });
+
+  it('refuses unknown cursors', async () => {
+    await expect(notes.findPage({ limit: 2, cursor: 'missing' })).rejects.toMatchObject({
+      statusCode: 400,
+      code: 'INVALID_CURSOR',
+    });
+  });
+
+  it('updates dotted paths and removes fields', async () => {
+    await notes.update('a', { 'tags.color': 'red' });
+    expect((await notes.getOne('a'))?.tags).toEqual({ color: 'red' });
+
+    await notes.update('a', { tags: deleteField() });
+    expect(await notes.getOne('a')).toEqual({ id: 'a', title: 'a', rank: 0 });
+  });
+
+  it('applies nothing from a failed transaction', async () => {
+    await expect(
+      notes.runTransaction(async (tx) => {
+        const note = await tx.get('a');
+        tx.update('a', { rank: note!.rank + 10 });
+        tx.delete('b');
+        throw new Error('abort');
+      })
+    ).rejects.toThrow('abort');
+
+    expect((await notes.getOne('a'))?.rank).toBe(0);
+    expect(await notes.getOne('b')).toBeDefined();
+  });
+
+  it('runs concurrent transactions one after the other', async () => {
+    const increment = () =>
+      notes.runTransaction(async (tx) => {
+        const note = await tx.get('a');
+        tx.update('a', { rank: note!.rank + 1 });
+      });
+
+    await Promise.all(Array.from({ length: 5 }, increment));
+    expect((await notes.getOne('a'))?.rank).toBe(5);
+  });
+});
+
+describe('GET /api/admin/users pagination', () => {
+  it('returns every user once across pages, and 400 for a bad cursor', async () => {
+    const ctx = createTestApp();
+    const adminUid = await registerUser(ctx, 'admin@example.com');
+    await ctx.auth.setCustomUserClaims(adminUid, { roles: ['admin'] });
+    const adminToken = await login(ctx, 'admin@example.com');
+    for (const name of ['ada', 'alan', 'barbara', 'grace']) {
+      await registerUser(ctx, `${name}@example.com`);
+    }
+
+    const emails: string[] = [];
+    let cursor = '';
+    do {
+      const { body } = await request(ctx.app)
+        .get('/api/admin/users')
+        .query({ limit: 2, ...(cursor && { cursor }) })
+        .set(bearer(adminToken))
+        .expect(200);
+      emails.push(...body.users.map((user: any) => user.email));
+      cursor = body.nextCursor ?? '';
+    } while (cursor);
+
+    expect(emails).toEqual([
+      'ada@example.com',
+      'admin@example.com',
+      'alan@example.com',
+      'barbara@example.com',
+      'grace@example.com',
+    ]);
+
+    const res = await request(ctx.app).get('/api/admin/users').query({ cursor: 'missing' }).set(bearer(adminToken)).expect(400);
+    expect(res.body.code).toBe('INVALID_CURSOR');
+  });
+});
@@ -0,0 +1,37 @@
+import request from 'supertest';
+import { createTestApp, TestContext } from './helpers';
+
+describe('CSRF protection', () => {
+  let ctx: TestContext;
+
+  beforeEach(() => {
+    ctx = createTestApp();
+  });
+
+  async function csrfAgent() {
+    const agent = request.agent(ctx.app);
+    const { body } = await agent.get('/api/auth/csrf').expect(200);
+    return { agent, csrfToken: body.csrfToken as string };
+  }
+
+  it('refuses unsafe requests without the header', async () => {
+    const { agent } = await csrfAgent();
+
+    const res = await agent.delete('/api/auth/session').expect(403);
+    expect(res.body.code).toBe('CSRF_TOKEN_INVALID');
+  });
+
+  it('accepts the token of the cookie', async () => {
+    const { agent, csrfToken } = await csrfAgent();
+
+    await agent.delete('/api/auth/session').set('X-CSRF-Token', csrfToken).expect(200);
+  });
+
+  it('refuses a non-ASCII header of the same length as the token', async () => {
+    const { agent, csrfToken } = await csrfAgent();
+    const forged = `é${csrfToken.slice(1)}`;
+
+    const res = await agent.delete('/api/auth/session').set('X-CSRF-Token', forged).expect(403);
+    expect(res.body.code).toBe('CSRF_TOKEN_INVALID');
+  });
+});
@@ -0,0 +1,60 @@
+import request from 'supertest';
+import { createTestApp, registerUser, login, bearer, captureMail, oobCodeOf, TestContext } from './helpers';
+import { userDAO } from '../src/dao/userDAO';
+import { loadConfig } from '../src/config';
+import { MailMessage } from '../src/services/mailer';
+
+const EMAIL = 'ada@example.com';
+
+describe('email verification', () => {
+  let ctx: TestContext;
+  let mail: MailMessage[];
+
+  beforeEach(() => {
+    mail = captureMail();
+    ctx = createTestApp({
+      config: loadConfig({ ...process.env, REQUIRE_VERIFIED_EMAIL: 'true' }, { requireFirebase: false }),
+    });
+  });
+
+  function createMeeting(idToken: string) {
+    return request(ctx.app).post('/api/meetings').set(bearer(idToken)).send({ title: 'Retro' });
+  }
+
+  it('emails a verification link on registration', async () => {
+    await registerUser(ctx, EMAIL);
+
+    expect(mail).toHaveLength(1);
+    expect(mail[0]).toMatchObject({ to: EMAIL, subject: 'Verify your LinkUp email' });
+  });
+
+  it('refuses meeting creation until the email is verified', async () => {
+    const uid = await registerUser(ctx, EMAIL);
+
+    const refused = await createMeeting(await login(ctx, EMAIL)).expect(403);
+    expect(refused.body.code).toBe('EMAIL_NOT_VERIFIED');
+
+    await request(ctx.app).post('/api/auth/email/verify').send({ oobCode: oobCodeOf(mail[0]) }).expect(200);
+    expect((await userDAO.getOne(uid))?.emailVerified).toBe(true);
+
+    // Tokens issued after the verification carry it
+    await createMeeting(await login(ctx, EMAIL)).expect(201);
+  });
+
+  it('resends the link until the email is verified', async () => {
+    await registerUser(ctx, EMAIL);
+    const idToken = await login(ctx, EMAIL);
+
+    await request(ctx.app).post('/api/auth/email/verification').set(bearer(idToken)).expect(200);
+    expect(mail).toHaveLength(2);
+
+    await request(ctx.app).post('/api/auth/email/verify').send({ oobCode: oobCodeOf(mail[1]) }).expect(200);
+    const res = await request(ctx.app).post('/api/auth/email/verification').set(bearer(idToken)).expect(400);
+    expect(res.body.code).toBe('EMAIL_ALREADY_VERIFIED');
+  });
+
+  it('refuses unknown codes', async () => {
+    const res = await request(ctx.app).post('/api/auth/email/verify').send({ oobCode: 'made-up' }).expect(400);
+    expect(res.body.code).toBe('INVALID_ACTION_CODE');
+  });
+});
@@ -0,0 +1,65 @@
+import express from 'express';
+import request from 'supertest';
+import { createTestApp } from './helpers';
+import { errorHandler, mapError } from '../src/middleware/errorHandler';
+import { ConflictError, HttpError, ServiceUnavailableError, ValidationError } from '../src/errors';
+
+/**
+ * App whose only route fails with the given error
+ */
+function failingApp(error: unknown) {
+  const app = express();
+  app.get('/fail', (_req, _res, next) => next(error));
+  app.use(errorHandler);
+  return app;
+}
+
+describe('errors', () => {
+  it('renders app errors with their status, code and details', async () => {
+    const details = [{ field: 'email', message: 'Invalid email' }];
+
+    const res = await request(failingApp(new ValidationError(details))).get('/fail').expect(400);
+    expect(res.body).toEqual({ success: false, error: 'Validation failed', code: 'VALIDATION_ERROR', details });
+  });
+
+  it('keeps the code given to a subclass', () => {
+    const error = new ConflictError('Email already in use', 'EMAIL_IN_USE');
+
+    expect(error).toBeInstanceOf(HttpError);
+    expect(error.name).toBe('ConflictError');
+    expect(mapError(error)).toEqual({ statusCode: 409, code: 'EMAIL_IN_USE', message: 'Email already in use' });
+  });
+
+  it.each([
+    [{ code: 'auth/email-already-exists' }, 409, 'EMAIL_IN_USE'],
+    [{ code: 'auth/id-token-revoked' }, 401, 'TOKEN_REVOKED'],
+    [{ code: 'auth/something-new' }, 401, 'AUTHENTICATION_FAILED'],
+    [{ code: 10 }, 409, 'CONFLICT'],
+    [{ code: 14 }, 503, 'SERVICE_UNAVAILABLE'],
+    [{ name: 'TokenExpiredError' }, 401, 'TOKEN_EXPIRED'],
+  ])('maps %j to %i %s', (error, statusCode, code) => {
+    expect(mapError(error)).toMatchObject({ statusCode, code });
+  });
+
+  it('answers malformed JSON with 400 INVALID_JSON', async () => {
+    const { app } = createTestApp();
+
+    const res = await request(app)
+      .post('/api/auth/login')
+      .set('Content-Type', 'application/json')
+      .send('{"email":')
+      .expect(400);
+    expect(res.body).toMatchObject({ success: false, code: 'INVALID_JSON' });
+  });
+
+  it('hides the message of unexpected errors', async () => {
+    const res = await request(failingApp(new Error('connection string: secret'))).get('/fail').expect(500);
+    expect(res.body).toMatchObject({ success: false, error: 'Internal server error', code: 'INTERNAL_ERROR' });
+  });
+
+  it('leaves the details out of server errors', async () => {
+    const res = await request(failingApp(new ServiceUnavailableError('Down', 'DOWN', { host: 'db-1' }))).get('/fail').expect(503);
+    expect(res.body).toMatchObject({ success: false, error: 'Down', code: 'DOWN' });
+    expect(res.body.details).toBeUndefined();
+  });
+});
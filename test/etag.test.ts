@@ -0,0 +1,89 @@
+import request from 'supertest';
+import { createTestApp, registerUser, login, bearer, TestContext } from './helpers';
+
+describe('ETags', () => {
+  let ctx: TestContext;
+  let uid: string;
+  let idToken: string;
+
+  beforeEach(async () => {
+    ctx = createTestApp();
+    uid = await registerUser(ctx, 'alan@example.com');
+    idToken = await login(ctx, 'alan@example.com');
+  });
+
+  describe('users', () => {
+    it('answers 304 while the user is unchanged', async () => {
+      const first = await request(ctx.app).get(`/api/users/${uid}`).set(bearer(idToken)).expect(200);
+      const etag = first.headers.etag;
+      expect(etag).toMatch(/^".+"$/);
+
+      await request(ctx.app).get(`/api/users/${uid}`).set(bearer(idToken)).set('If-None-Match', etag).expect(304);
+    });
+
+    it('applies an update sent with the current ETag and returns the new one', async () => {
+      const { headers } = await request(ctx.app).get(`/api/users/${uid}`).set(bearer(idToken)).expect(200);
+
+      const res = await request(ctx.app)
+        .put(`/api/users/${uid}`)
+        .set(bearer(idToken))
+        .set('If-Match', headers.etag)
+        .send({ firstName: 'Alan' })
+        .expect(200);
+
+      expect(res.headers.etag).toBeDefined();
+      expect(res.headers.etag).not.toBe(headers.etag);
+    });
+
+    it('refuses an update based on a stale ETag', async () => {
+      const { headers } = await request(ctx.app).get(`/api/users/${uid}`).set(bearer(idToken)).expect(200);
+      await request(ctx.app).put(`/api/users/${uid}`).set(bearer(idToken)).send({ firstName: 'Alan' }).expect(200);
+
+      const res = await request(ctx.app)
+        .put(`/api/users/${uid}`)
+        .set(bearer(idToken))
+        .set('If-Match', headers.etag)
+        .send({ lastName: 'Turing' })
+        .expect(412);
+
+      expect(res.body.code).toBe('USER_MODIFIED');
+    });
+  });
+
+  describe('meetings', () => {
+    let meetingId: string;
+
+    beforeEach(async () => {
+      const res = await request(ctx.app).post('/api/meetings').set(bearer(idToken)).send({ title: 'Standup' }).expect(201);
+      meetingId = res.body.meeting.id;
+    });
+
+    it('refuses an update based on a stale ETag', async () => {
+      const { headers } = await request(ctx.app).get(`/api/meetings/${meetingId}`).set(bearer(idToken)).expect(200);
+
+      await request(ctx.app)
+        .put(`/api/meetings/${meetingId}`)
+        .set(bearer(idToken))
+        .set('If-Match', headers.etag)
+        .send({ title: 'Daily standup' })
+        .expect(200);
+
+      const res = await request(ctx.app)
+        .put(`/api/meetings/${meetingId}`)
+        .set(bearer(idToken))
+        .set('If-Match', headers.etag)
+        .send({ title: 'Weekly' })
+        .expect(412);
+      expect(res.body.code).toBe('MEETING_MODIFIED');
+    });
+
+    it('accepts If-Match: *', async () => {
+      await request(ctx.app)
+        .put(`/api/meetings/${meetingId}`)
+        .set(bearer(idToken))
+        .set('If-Match', '*')
+        .send({ title: 'Daily standup' })
+        .expect(200);
+    });
+  });
+});
@@ -0,0 +1,78 @@
+import path from 'path';
+import * as grpc from '@grpc/grpc-js';
+import * as protoLoader from '@grpc/proto-loader';
+import { createTestApp, registerUser } from './helpers';
+import { getConfig, loadConfig, setConfig } from '../src/config';
+import { createGrpcServer, stopGrpcServer } from '../src/grpc/server';
+
+const SERVICE_TOKEN = 'grpc-service-token-0123456789abcdef';
+
+type ServiceClient = InstanceType<grpc.ServiceClientConstructor>;
+
+function usersClient(port: number): ServiceClient {
+  const definition = protoLoader.loadSync(path.resolve(__dirname, '../proto/linkup.proto'), { defaults: true });
+  const linkup = (grpc.loadPackageDefinition(definition).linkup as grpc.GrpcObject).v1 as grpc.GrpcObject;
+  const UsersService = linkup.UsersService as grpc.ServiceClientConstructor;
+  return new UsersService(`127.0.0.1:${port}`, grpc.credentials.createInsecure());
+}
+
+function metadata(token?: string): grpc.Metadata {
+  const result = new grpc.Metadata();
+  if (token) result.set('authorization', `Bearer ${token}`);
+  return result;
+}
+
+function getUser(client: ServiceClient, uid: string, token?: string): Promise<any> {
+  return new Promise((resolve, reject) => {
+    client.GetUser({ uid }, metadata(token), (error: grpc.ServiceError | null, response: any) =>
+      error ? reject(error) : resolve(response)
+    );
+  });
+}
+
+describe('gRPC API', () => {
+  const previousConfig = getConfig();
+  let server: grpc.Server;
+  let client: ServiceClient;
+  let uid: string;
+
+  beforeAll(async () => {
+    setConfig(loadConfig({ ...process.env, GRPC_SERVICE_TOKEN: SERVICE_TOKEN }, { requireFirebase: false }));
+
+    server = createGrpcServer();
+    const port = await new Promise<number>((resolve, reject) => {
+      server.bindAsync('127.0.0.1:0', grpc.ServerCredentials.createInsecure(), (error, bound) =>
+        error ? reject(error) : resolve(bound)
+      );
+    });
+    client = usersClient(port);
+  });
+
+  beforeEach(async () => {
+    uid = await registerUser(createTestApp(), 'ada@example.com');
+  });
+
+  afterAll(async () => {
+    client.close();
+    await stopGrpcServer(server, 1000);
+    setConfig(previousConfig);
+  });
+
+  it('refuses calls without the service token', async () => {
+    await expect(getUser(client, uid)).rejects.toMatchObject({ code: grpc.status.UNAUTHENTICATED });
+    await expect(getUser(client, uid, `${SERVICE_TOKEN}x`)).rejects.toMatchObject({ code: grpc.status.UNAUTHENTICATED });
+  });
+
+  it('answers calls carrying the service token', async () => {
+    const user = await getUser(client, uid, SERVICE_TOKEN);
+
+    expect(user).toMatchObject({ uid, email: 'ada@example.com', providers: ['manual'] });
+  });
+
+  it('maps errors to gRPC statuses with the REST error code', async () => {
+    const error = await getUser(client, 'missing-uid', SERVICE_TOKEN).catch((caught) => caught);
+
+    expect(error.code).toBe(grpc.status.NOT_FOUND);
+    expect(error.metadata.get('error-code')).toEqual(['USER_NOT_FOUND']);
+  });
+});
@@ -0,0 +1,65 @@
+import http from 'http';
+import request from 'supertest';
+import { createTestApp, TestContext } from './helpers';
+import { loadConfig } from '../src/config';
+import { shutdown } from '../src/lifecycle';
+
+const COMMIT = '3f2c1a9';
+
+describe('health', () => {
+  let ctx: TestContext;
+
+  beforeEach(() => {
+    const config = loadConfig(
+      { ...process.env, GIT_COMMIT: COMMIT, HEALTH_CHECK_TIMEOUT_MS: '50' },
+      { requireFirebase: false }
+    );
+    ctx = createTestApp({ config });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('reports liveness with the build information', async () => {
+    const res = await request(ctx.app).get('/api/health/live').expect(200);
+
+    expect(res.body).toMatchObject({ status: 'OK', service: 'linkup-backend', version: '1.0.0', commit: COMMIT });
+    expect(typeof res.body.uptime).toBe('number');
+  });
+
+  it('is ready when the storage and the identity provider answer', async () => {
+    const res = await request(ctx.app).get('/api/health/ready').expect(200);
+
+    expect(res.body).toMatchObject({
+      status: 'ready',
+      commit: COMMIT,
+      checks: { config: { status: 'ok' }, firestore: { status: 'ok' }, auth: { status: 'ok' } },
+    });
+  });
+
+  it('is not ready when a check fails', async () => {
+    jest.spyOn(ctx.auth, 'getUser').mockRejectedValue(Object.assign(new Error('Auth unavailable'), { code: 'app/network-error' }));
+
+    const res = await request(ctx.app).get('/api/health/ready').expect(503);
+    expect(res.body.status).toBe('not_ready');
+    expect(res.body.checks.auth).toMatchObject({ status: 'fail', error: 'Auth unavailable' });
+    expect(res.body.checks.firestore.status).toBe('ok');
+  });
+
+  it('fails a check that does not answer in time', async () => {
+    jest.spyOn(ctx.auth, 'getUser').mockReturnValue(new Promise(() => undefined));
+
+    const res = await request(ctx.app).get('/api/health/ready').expect(503);
+    expect(res.body.checks.auth).toMatchObject({ status: 'fail', error: 'Timed out after 50ms' });
+  });
+
+  it('is not ready once a shutdown has started, while still live', async () => {
+    const server = http.createServer().listen(0);
+    await shutdown(server, 1000);
+
+    const res = await request(ctx.app).get('/api/health/ready').expect(503);
+    expect(res.body).toMatchObject({ status: 'shutting_down', checks: {} });
+    await request(ctx.app).get('/api/health/live').expect(200);
+  });
+});
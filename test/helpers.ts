@@ -0,0 +1,107 @@
+/**
+ * Test app wired to the in-memory repositories and the fake identity provider
+ */
+import { createHmac } from 'crypto';
+import request from 'supertest';
+import type { Express } from 'express';
+import { AppDependencies, createApp } from '../src/app';
+import { setRepositoryFactory } from '../src/dao/baseDAO';
+import { memoryRepositories } from '../src/dao/memoryRepository';
+import { FakeAuthService } from '../src/services/fakeAuth';
+import { MailMessage, setMailTransport } from '../src/services/mailer';
+
+export const PASSWORD = 'Passw0rd!';
+
+export interface TestContext {
+  app: Express;
+  auth: FakeAuthService;
+}
+
+/**
+ * Creates an app with fresh in-memory storage and identity provider
+ * @param {AppDependencies} deps - Dependencies to replace as well, e.g. the configuration
+ */
+export function createTestApp(deps: AppDependencies = {}): TestContext {
+  const auth = new FakeAuthService();
+  const repositories = memoryRepositories();
+  const app = createApp({ repositories, auth, ...deps }, { corsOrigins: [] });
+
+  // The app only sees its storage while handling requests; tests also read it through the DAOs
+  setRepositoryFactory(repositories);
+  return { app, auth };
+}
+
+/**
+ * Registers a manual account through the API
+ * @returns UID of the new user
+ */
+export async function registerUser({ app }: TestContext, email: string, password = PASSWORD): Promise<string> {
+  const res = await request(app).post('/api/auth/register').send({ email, password }).expect(201);
+  return res.body.user.uid;
+}
+
+/**
+ * Exchanges the custom token of a sign-in response for an ID token, like the client SDK
+ */
+export function idTokenFrom({ auth }: TestContext, customToken: string): string {
+  return auth.signInWithCustomToken(customToken);
+}
+
+/**
+ * Signs in with email and password through the API
+ * @returns ID token
+ */
+export async function login(ctx: TestContext, email: string, password = PASSWORD): Promise<string> {
+  const res = await request(ctx.app).post('/api/auth/login').send({ email, password }).expect(200);
+  return idTokenFrom(ctx, res.body.token);
+}
+
+export function bearer(idToken: string): Record<string, string> {
+  return { Authorization: `Bearer ${idToken}` };
+}
+
+/**
+ * Collects the emails sent from now on
+ * @returns Sent messages, in order
+ */
+export function captureMail(): MailMessage[] {
+  const sent: MailMessage[] = [];
+  setMailTransport({
+    async send(message) {
+      sent.push(message);
+    },
+  });
+  return sent;
+}
+
+/**
+ * Action code of the link in an email (password reset or email verification)
+ */
+export function oobCodeOf(message: MailMessage): string {
+  const [link] = message.text.match(/https?:\/\/\S+/) || [];
+  return new URL(link).searchParams.get('oobCode');
+}
+
+function base32Decode(input: string): Buffer {
+  const alphabet = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+  let bits = '';
+  for (const char of input.replace(/=+$/, '').toUpperCase()) {
+    bits += alphabet.indexOf(char).toString(2).padStart(5, '0');
+  }
+  const bytes = bits.match(/.{8}/g) || [];
+  return Buffer.from(bytes.map((byte) => parseInt(byte, 2)));
+}
+
+/**
+ * TOTP code of an authenticator app for a secret (RFC 6238, 30 s steps, 6 digits)
+ * @param {string} secret - Base32 secret
+ * @param {number} offsetSteps - Time steps from now (e.g. -1 for the previous code)
+ */
+export function totpCode(secret: string, offsetSteps = 0): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(Math.floor(Date.now() / 30000) + offsetSteps));
+
+  const hmac = createHmac('sha1', base32Decode(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0xf;
+  return ((hmac.readUInt32BE(offset) & 0x7fffffff) % 1e6).toString().padStart(6, '0');
+}
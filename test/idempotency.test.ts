@@ -0,0 +1,82 @@
+import request from 'supertest';
+import { createTestApp, registerUser, login, bearer, TestContext } from './helpers';
+
+describe('Idempotency-Key', () => {
+  let ctx: TestContext;
+  let idToken: string;
+
+  beforeEach(async () => {
+    ctx = createTestApp();
+    await registerUser(ctx, 'barbara@example.com');
+    idToken = await login(ctx, 'barbara@example.com');
+  });
+
+  function createMeeting(key: string, title: string, token = idToken) {
+    return request(ctx.app)
+      .post('/api/meetings')
+      .set(bearer(token))
+      .set('Idempotency-Key', key)
+      .send({ title });
+  }
+
+  it('replays the first response to a retry instead of creating a second meeting', async () => {
+    const first = await createMeeting('key-1', 'Retro').expect(201);
+    const retry = await createMeeting('key-1', 'Retro').expect(201);
+
+    expect(retry.headers['idempotent-replayed']).toBe('true');
+    expect(retry.body).toEqual(first.body);
+
+    const list = await request(ctx.app).get('/api/meetings').set(bearer(idToken)).expect(200);
+    expect(list.body.count).toBe(1);
+  });
+
+  it('replays the ETag of the first response', async () => {
+    const { body } = await createMeeting('key-1', 'Retro').expect(201);
+    const update = () => request(ctx.app)
+      .put(`/api/meetings/${body.meeting.id}`)
+      .set(bearer(idToken))
+      .set('Idempotency-Key', 'key-2')
+      .send({ title: 'Sprint retro' });
+
+    const first = await update().expect(200);
+    const retry = await update().expect(200);
+
+    expect(retry.headers['idempotent-replayed']).toBe('true');
+    expect(first.headers.etag).toMatch(/^".+"$/);
+    expect(retry.headers.etag).toBe(first.headers.etag);
+  });
+
+  it('refuses a key reused for a different request', async () => {
+    await createMeeting('key-1', 'Retro').expect(201);
+
+    const res = await createMeeting('key-1', 'Planning').expect(422);
+    expect(res.body.code).toBe('IDEMPOTENCY_KEY_REUSED');
+  });
+
+  it('scopes keys to the caller', async () => {
+    await registerUser(ctx, 'edsger@example.com');
+    const otherToken = await login(ctx, 'edsger@example.com');
+
+    const first = await createMeeting('key-1', 'Retro').expect(201);
+    const other = await createMeeting('key-1', 'Retro', otherToken).expect(201);
+
+    expect(other.headers['idempotent-replayed']).toBeUndefined();
+    expect(other.body.meeting.ownerUid).not.toBe(first.body.meeting.ownerUid);
+  });
+
+  it('does not store errors, so the request can be retried with the same key', async () => {
+    await request(ctx.app)
+      .post('/api/meetings')
+      .set(bearer(idToken))
+      .set('Idempotency-Key', 'key-1')
+      .send({ title: 42 })
+      .expect(400);
+
+    await createMeeting('key-1', 'Retro').expect(201);
+  });
+
+  it('rejects malformed keys', async () => {
+    const res = await createMeeting('key with spaces', 'Retro').expect(400);
+    expect(res.body.code).toBe('INVALID_IDEMPOTENCY_KEY');
+  });
+});
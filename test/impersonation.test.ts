@@ -0,0 +1,50 @@
+import request from 'supertest';
+import { createTestApp, registerUser, login, bearer, idTokenFrom, TestContext } from './helpers';
+
+describe('impersonation', () => {
+  let ctx: TestContext;
+  let meetingId: string;
+  let impersonationToken: string;
+
+  beforeEach(async () => {
+    ctx = createTestApp();
+
+    const adminUid = await registerUser(ctx, 'admin@example.com');
+    await ctx.auth.setCustomUserClaims(adminUid, { roles: ['admin'] });
+    const adminToken = await login(ctx, 'admin@example.com');
+
+    await registerUser(ctx, 'owner@example.com');
+    const ownerToken = await login(ctx, 'owner@example.com');
+    const meeting = await request(ctx.app).post('/api/meetings').set(bearer(ownerToken)).send({ title: 'Review' }).expect(201);
+    meetingId = meeting.body.meeting.id;
+
+    const targetUid = await registerUser(ctx, 'target@example.com');
+    const res = await request(ctx.app)
+      .post(`/api/admin/users/${targetUid}/impersonate`)
+      .set(bearer(adminToken))
+      .expect(200);
+    impersonationToken = idTokenFrom(ctx, res.body.token);
+  });
+
+  it('reads a meeting without joining it', async () => {
+    const res = await request(ctx.app).get(`/api/meetings/${meetingId}`).set(bearer(impersonationToken)).expect(200);
+    expect(res.body.meeting.participants).toHaveLength(1);
+
+    const participants = await request(ctx.app)
+      .get(`/api/meetings/${meetingId}/participants`)
+      .set(bearer(impersonationToken))
+      .expect(200);
+    expect(participants.body.count).toBe(1);
+  });
+
+  it('refuses writes', async () => {
+    const res = await request(ctx.app)
+      .post('/api/meetings')
+      .set(bearer(impersonationToken))
+      .send({ title: 'Not mine' })
+      .expect(403);
+    expect(res.body.code).toBe('IMPERSONATION_READ_ONLY');
+
+    await request(ctx.app).post(`/api/meetings/${meetingId}/join`).set(bearer(impersonationToken)).expect(403);
+  });
+});
@@ -0,0 +1,88 @@
+import request from 'supertest';
+import { createTestApp, registerUser, idTokenFrom, bearer, TestContext, PASSWORD } from './helpers';
+import { runInAppScope } from '../src/appScope';
+import { loadConfig } from '../src/config';
+import { verifyPassword } from '../src/services/passwordAuth';
+
+const EMAIL = 'ada@example.com';
+
+describe('POST /api/auth/login', () => {
+  let ctx: TestContext;
+  let uid: string;
+
+  beforeEach(async () => {
+    ctx = createTestApp();
+    uid = await registerUser(ctx, EMAIL);
+  });
+
+  it('signs in with the right password', async () => {
+    const res = await request(ctx.app).post('/api/auth/login').send({ email: EMAIL, password: PASSWORD }).expect(200);
+
+    expect(res.body.user.uid).toBe(uid);
+    await request(ctx.app).get(`/api/users/${uid}`).set(bearer(idTokenFrom(ctx, res.body.token))).expect(200);
+  });
+
+  it('refuses a wrong password and an unknown email alike', async () => {
+    const wrong = await request(ctx.app).post('/api/auth/login').send({ email: EMAIL, password: 'Wrong0ne!' }).expect(401);
+    const unknown = await request(ctx.app)
+      .post('/api/auth/login')
+      .send({ email: 'nobody@example.com', password: PASSWORD })
+      .expect(401);
+
+    expect(wrong.body.code).toBe('INVALID_CREDENTIALS');
+    expect(unknown.body).toEqual(wrong.body);
+    expect(wrong.body.token).toBeUndefined();
+  });
+
+  it('refuses disabled accounts', async () => {
+    await ctx.auth.updateUser(uid, { disabled: true });
+
+    const res = await request(ctx.app).post('/api/auth/login').send({ email: EMAIL, password: PASSWORD }).expect(403);
+    expect(res.body.code).toBe('ACCOUNT_DISABLED');
+  });
+
+  it('requires an email and a password', async () => {
+    const res = await request(ctx.app).post('/api/auth/login').send({ email: EMAIL }).expect(400);
+    expect(res.body.code).toBe('VALIDATION_ERROR');
+  });
+});
+
+describe('verifyPassword', () => {
+  const config = loadConfig(
+    { ...process.env, FIREBASE_API_KEY: 'web-api-key', IDENTITY_TOOLKIT_URL: 'https://toolkit.test/v1' },
+    { requireFirebase: false }
+  );
+
+  function answer(status: number, body: unknown) {
+    return jest.spyOn(global, 'fetch').mockResolvedValue(new Response(JSON.stringify(body), { status }));
+  }
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('checks the password with signInWithPassword', async () => {
+    const fetchMock = answer(200, { localId: 'uid-1', email: EMAIL, idToken: 'not-used' });
+
+    const result = await runInAppScope({ config }, () => verifyPassword(EMAIL, PASSWORD));
+
+    expect(result).toEqual({ uid: 'uid-1', email: EMAIL });
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('https://toolkit.test/v1/accounts:signInWithPassword?key=web-api-key');
+    expect(JSON.parse(String(init?.body))).toMatchObject({ email: EMAIL, password: PASSWORD });
+  });
+
+  it.each([
+    ['INVALID_LOGIN_CREDENTIALS', 401, 'INVALID_CREDENTIALS'],
+    ['EMAIL_NOT_FOUND', 401, 'INVALID_CREDENTIALS'],
+    ['USER_DISABLED', 403, 'ACCOUNT_DISABLED'],
+    ['TOO_MANY_ATTEMPTS_TRY_LATER : Access temporarily disabled', 429, 'TOO_MANY_ATTEMPTS'],
+  ])('maps %s to %i %s', async (reason, statusCode, code) => {
+    answer(400, { error: { message: reason } });
+
+    await expect(runInAppScope({ config }, () => verifyPassword(EMAIL, PASSWORD))).rejects.toMatchObject({
+      statusCode,
+      code,
+    });
+  });
+});
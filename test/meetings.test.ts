@@ -0,0 +1,43 @@
+import request from 'supertest';
+import { createTestApp, registerUser, login, bearer, TestContext } from './helpers';
+
+describe('meetings', () => {
+  let ctx: TestContext;
+  let meetingId: string;
+  let guestToken: string;
+  let guestUid: string;
+
+  beforeEach(async () => {
+    ctx = createTestApp();
+
+    await registerUser(ctx, 'owner@example.com');
+    const ownerToken = await login(ctx, 'owner@example.com');
+    const meeting = await request(ctx.app).post('/api/meetings').set(bearer(ownerToken)).send({ title: 'Review' }).expect(201);
+    meetingId = meeting.body.meeting.id;
+
+    guestUid = await registerUser(ctx, 'guest@example.com');
+    guestToken = await login(ctx, 'guest@example.com');
+  });
+
+  it('does not join a meeting on read', async () => {
+    const res = await request(ctx.app).get(`/api/meetings/${meetingId}`).set(bearer(guestToken)).expect(200);
+    expect(res.body.meeting.participants).not.toContain(guestUid);
+
+    const again = await request(ctx.app).get(`/api/meetings/${meetingId}`).set(bearer(guestToken)).expect(200);
+    expect(again.body.meeting.participants).toHaveLength(1);
+  });
+
+  it('joins a meeting explicitly, once', async () => {
+    const res = await request(ctx.app).post(`/api/meetings/${meetingId}/join`).set(bearer(guestToken)).expect(200);
+    expect(res.body.meeting.participants).toContain(guestUid);
+    expect(res.headers.etag).toBeDefined();
+
+    const again = await request(ctx.app).post(`/api/meetings/${meetingId}/join`).set(bearer(guestToken)).expect(200);
+    expect(again.body.meeting.participants).toHaveLength(2);
+  });
+
+  it('answers 404 when joining an unknown meeting', async () => {
+    const res = await request(ctx.app).post('/api/meetings/unknown/join').set(bearer(guestToken)).expect(404);
+    expect(res.body.code).toBe('MEETING_NOT_FOUND');
+  });
+});
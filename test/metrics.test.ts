@@ -0,0 +1,79 @@
+import request from 'supertest';
+import { createTestApp, registerUser, login, bearer, TestContext } from './helpers';
+import { loadConfig } from '../src/config';
+
+const TOKEN = 'metrics-scraper-token-0123456789abcdef';
+
+/**
+ * Value of one series in the Prometheus text format, 0 when absent
+ */
+function sample(text: string, series: string): number {
+  const line = text.split('\n').find((candidate) => candidate.startsWith(`${series} `));
+  return line ? Number(line.slice(series.length + 1)) : 0;
+}
+
+describe('metrics endpoint', () => {
+  let ctx: TestContext;
+
+  it('is off without METRICS_TOKEN', async () => {
+    ctx = createTestApp();
+    const res = await request(ctx.app).get('/metrics').expect(404);
+    expect(res.body.code).toBe('METRICS_DISABLED');
+  });
+
+  describe('with METRICS_TOKEN', () => {
+    beforeEach(() => {
+      ctx = createTestApp({ config: loadConfig({ ...process.env, METRICS_TOKEN: TOKEN }, { requireFirebase: false }) });
+    });
+
+    it('refuses callers without the token', async () => {
+      await request(ctx.app).get('/metrics').expect(401);
+
+      const res = await request(ctx.app).get('/metrics').set('Authorization', `Bearer ${TOKEN}x`).expect(401);
+      expect(res.body.code).toBe('INVALID_METRICS_TOKEN');
+      expect(res.headers['www-authenticate']).toMatch(/^Bearer/);
+    });
+
+    it('serves the Prometheus text format to the scraper', async () => {
+      await request(ctx.app).get('/api/health/live').expect(200);
+
+      const res = await request(ctx.app).get('/metrics').set('Authorization', `Bearer ${TOKEN}`).expect(200);
+      expect(res.headers['content-type']).toMatch(/^text\/plain/);
+      expect(res.text).toContain('http_requests_total');
+    });
+
+    it('labels requests with their route template, not the raw path', async () => {
+      const uid = await registerUser(ctx, 'ada@example.com');
+      const idToken = await login(ctx, 'ada@example.com');
+      await request(ctx.app).get(`/api/users/${uid}`).set(bearer(idToken)).expect(200);
+      await request(ctx.app).get('/api/nothing-here').expect(404);
+
+      const { text } = await request(ctx.app).get('/metrics').set('Authorization', `Bearer ${TOKEN}`).expect(200);
+      expect(sample(text, 'http_requests_total{method="GET",route="/api/users/:uid",status="200"}')).toBe(1);
+      expect(sample(text, 'http_requests_total{method="GET",route="unmatched",status="404"}')).toBe(1);
+      expect(text).not.toContain(uid);
+    });
+
+    it('counts registrations, failed sign-ins, meetings and joins', async () => {
+      const scrape = async () =>
+        (await request(ctx.app).get('/metrics').set('Authorization', `Bearer ${TOKEN}`).expect(200)).text;
+      const before = await scrape();
+
+      await registerUser(ctx, 'grace@example.com');
+      await request(ctx.app).post('/api/auth/login').send({ email: 'grace@example.com', password: 'Wrong0ne!' }).expect(401);
+      const owner = await login(ctx, 'grace@example.com');
+      const { body } = await request(ctx.app).post('/api/meetings').set(bearer(owner)).send({ title: 'Standup' }).expect(201);
+
+      await registerUser(ctx, 'alan@example.com');
+      const guest = await login(ctx, 'alan@example.com');
+      await request(ctx.app).post(`/api/meetings/${body.meeting.id}/join`).set(bearer(guest)).expect(200);
+
+      const after = await scrape();
+      const delta = (series: string) => sample(after, series) - sample(before, series);
+      expect(delta('linkup_registrations_total{provider="manual"}')).toBe(2);
+      expect(delta('linkup_login_failures_total{reason="INVALID_CREDENTIALS"}')).toBe(1);
+      expect(delta('linkup_meetings_created_total')).toBe(1);
+      expect(delta('linkup_meeting_joins_total')).toBe(1);
+    });
+  });
+});
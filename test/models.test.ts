@@ -0,0 +1,62 @@
+import request from 'supertest';
+import { createTestApp, registerUser, login, bearer } from './helpers';
+import { RegisterBodySchema, UpdateUserBodySchema } from '../src/models/user';
+import { CreateMeetingBodySchema, UpdateMeetingBodySchema } from '../src/models/meeting';
+
+describe('models', () => {
+  describe('RegisterBodySchema', () => {
+    it('trims the email and defaults the optional fields', () => {
+      const body = RegisterBodySchema.parse({ email: '  ada@example.com ', password: 'Passw0rd!', age: '36' });
+
+      expect(body).toEqual({ email: 'ada@example.com', password: 'Passw0rd!', firstName: '', lastName: '', age: 36 });
+    });
+
+    it('rejects weak passwords and underage users', () => {
+      const result = RegisterBodySchema.safeParse({ email: 'ada@example.com', password: 'password', age: 12 });
+
+      expect(result.success).toBe(false);
+      const fields = !result.success && result.error.issues.map((issue) => issue.path.join('.'));
+      expect(fields).toEqual(expect.arrayContaining(['password', 'age']));
+    });
+  });
+
+  describe('UpdateUserBodySchema', () => {
+    it('ignores blank values and drops unknown fields', () => {
+      const body = UpdateUserBodySchema.parse({ firstName: 'Ada', lastName: '  ', providers: ['admin'] });
+
+      expect(body).toEqual({ firstName: 'Ada' });
+    });
+
+    it('needs at least one field', () => {
+      expect(UpdateUserBodySchema.safeParse({ lastName: '' }).success).toBe(false);
+    });
+  });
+
+  describe('meeting schemas', () => {
+    it('accepts ISO dates and known statuses only', () => {
+      expect(CreateMeetingBodySchema.safeParse({ scheduledAt: '2026-03-01T10:00:00Z' }).success).toBe(true);
+      expect(CreateMeetingBodySchema.safeParse({ scheduledAt: 'next monday' }).success).toBe(false);
+      expect(UpdateMeetingBodySchema.safeParse({ status: 'live' }).success).toBe(true);
+      expect(UpdateMeetingBodySchema.safeParse({ status: 'archived' }).success).toBe(false);
+    });
+
+    it('drops fields a client may not set', () => {
+      expect(UpdateMeetingBodySchema.parse({ title: ' Retro ', ownerUid: 'someone-else' })).toEqual({ title: 'Retro' });
+    });
+  });
+
+  it('answers 400 with one entry per invalid field', async () => {
+    const ctx = createTestApp();
+    const uid = await registerUser(ctx, 'ada@example.com');
+    const idToken = await login(ctx, 'ada@example.com');
+
+    const res = await request(ctx.app)
+      .put(`/api/users/${uid}`)
+      .set(bearer(idToken))
+      .send({ age: 'old', email: 'not-an-email' })
+      .expect(400);
+
+    expect(res.body.code).toBe('VALIDATION_ERROR');
+    expect(res.body.details.map((detail: any) => detail.field).sort()).toEqual(['age', 'email']);
+  });
+});
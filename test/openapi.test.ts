@@ -0,0 +1,23 @@
+import request from 'supertest';
+import { createTestApp } from './helpers';
+import { checkOpenApiCoverage } from '../src/openapi';
+
+describe('OpenAPI document', () => {
+  const { app } = createTestApp();
+
+  it('documents every route, and only existing routes', () => {
+    const { undocumented, stale } = checkOpenApiCoverage(app);
+
+    expect(undocumented).toEqual([]);
+    expect(stale).toEqual([]);
+  });
+
+  it('is served with the schemas the routes validate with', async () => {
+    const { body } = await request(app).get('/api/openapi.json').expect(200);
+
+    expect(body.openapi).toBe('3.0.3');
+    const search = body.paths['/api/admin/users'].get;
+    expect(search.parameters.map((parameter: { name: string }) => parameter.name)).toEqual(['q', 'by', 'limit', 'cursor']);
+    expect(body.paths['/api/admin/users/{uid}/roles'].put.requestBody).toBeDefined();
+  });
+});
@@ -0,0 +1,46 @@
+import request from 'supertest';
+import { createTestApp, registerUser, login, bearer, TestContext, PASSWORD } from './helpers';
+import { MemoryAttemptStore, setAttemptStore } from '../src/services/accountLockout';
+
+const EMAIL = 'ada@example.com';
+const NEW_PASSWORD = 'N3wPassw0rd!';
+
+describe('password change', () => {
+  let ctx: TestContext;
+  let uid: string;
+  let idToken: string;
+
+  beforeEach(async () => {
+    setAttemptStore(new MemoryAttemptStore());
+    ctx = createTestApp();
+    uid = await registerUser(ctx, EMAIL);
+    idToken = await login(ctx, EMAIL);
+  });
+
+  function change(currentPassword: string) {
+    return request(ctx.app)
+      .post('/api/auth/password/change')
+      .set(bearer(idToken))
+      .send({ currentPassword, newPassword: NEW_PASSWORD });
+  }
+
+  it('changes the password with the current one and signs every session out', async () => {
+    await change(PASSWORD).expect(200);
+
+    await request(ctx.app).get(`/api/users/${uid}`).set(bearer(idToken)).expect(401);
+    await login(ctx, EMAIL, NEW_PASSWORD);
+  });
+
+  it('locks the account after repeated wrong current passwords', async () => {
+    for (let attempt = 0; attempt < 5; attempt++) {
+      await change('Wrong0ne!').expect(401);
+    }
+
+    const res = await change(PASSWORD).expect(429);
+    expect(res.body.code).toBe('ACCOUNT_LOCKED');
+    expect(res.headers['retry-after']).toBeDefined();
+
+    // Sign-in shares the lockout
+    await request(ctx.app).post('/api/auth/login').send({ email: EMAIL, password: PASSWORD }).expect(429);
+  });
+});
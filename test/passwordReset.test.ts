@@ -0,0 +1,63 @@
+import request from 'supertest';
+import { createTestApp, registerUser, login, bearer, captureMail, oobCodeOf, TestContext, PASSWORD } from './helpers';
+import { MailMessage } from '../src/services/mailer';
+
+const EMAIL = 'ada@example.com';
+const NEW_PASSWORD = 'N3wPassw0rd!';
+
+describe('password reset', () => {
+  let ctx: TestContext;
+  let uid: string;
+  let mail: MailMessage[];
+
+  beforeEach(async () => {
+    ctx = createTestApp();
+    uid = await registerUser(ctx, EMAIL);
+    mail = captureMail();
+  });
+
+  function forgot(email: string) {
+    return request(ctx.app).post('/api/auth/password/forgot').send({ email }).expect(200);
+  }
+
+  it('answers the same for unknown emails, without sending anything', async () => {
+    const known = await forgot(EMAIL);
+    const unknown = await forgot('nobody@example.com');
+
+    expect(unknown.body).toEqual(known.body);
+    expect(mail.map((message) => message.to)).toEqual([EMAIL]);
+  });
+
+  it('sets the new password from the emailed link and signs every session out', async () => {
+    const idToken = await login(ctx, EMAIL);
+    await forgot(EMAIL);
+
+    await request(ctx.app)
+      .post('/api/auth/password/reset')
+      .send({ oobCode: oobCodeOf(mail[0]), newPassword: NEW_PASSWORD })
+      .expect(200);
+
+    await request(ctx.app).get(`/api/users/${uid}`).set(bearer(idToken)).expect(401);
+    await request(ctx.app).post('/api/auth/login').send({ email: EMAIL, password: PASSWORD }).expect(401);
+    await login(ctx, EMAIL, NEW_PASSWORD);
+  });
+
+  it('accepts each link once', async () => {
+    await forgot(EMAIL);
+    const oobCode = oobCodeOf(mail[0]);
+
+    await request(ctx.app).post('/api/auth/password/reset').send({ oobCode, newPassword: NEW_PASSWORD }).expect(200);
+    const res = await request(ctx.app).post('/api/auth/password/reset').send({ oobCode, newPassword: 'An0ther!pass' }).expect(400);
+    expect(res.body.code).toBe('INVALID_ACTION_CODE');
+  });
+
+  it('enforces the password rule', async () => {
+    await forgot(EMAIL);
+
+    const res = await request(ctx.app)
+      .post('/api/auth/password/reset')
+      .send({ oobCode: oobCodeOf(mail[0]), newPassword: 'weak' })
+      .expect(400);
+    expect(res.body.details).toEqual([expect.objectContaining({ field: 'newPassword' })]);
+  });
+});
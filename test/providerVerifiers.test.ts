@@ -0,0 +1,102 @@
+import { FacebookTokenVerifier, GithubTokenVerifier } from '../src/services/providerVerifiers';
+import { HttpClient } from '../src/services/httpClient';
+
+/**
+ * Provider API answering each path with a fixed body (or a fixed status and body), and
+ * recording the URLs called
+ */
+function providerApi(
+  responses: Record<string, unknown>,
+  statuses: Record<string, number> = {}
+): HttpClient & { urls: string[]; headers: Record<string, string>[] } {
+  const urls: string[] = [];
+  const headers: Record<string, string>[] = [];
+  const answer = (url: string, sent: Record<string, string> = {}) => {
+    const { pathname } = new URL(url);
+    urls.push(url);
+    headers.push(sent);
+    return { status: statuses[pathname] ?? 200, body: responses[pathname] as any };
+  };
+
+  return {
+    urls,
+    headers,
+    async getJson(url: string, sent?: Record<string, string>) {
+      return answer(url, sent);
+    },
+    async postJson(url: string, _body: unknown, sent?: Record<string, string>) {
+      return answer(url, sent);
+    },
+  };
+}
+
+describe('FacebookTokenVerifier', () => {
+  const profile = { id: '42', name: 'Ada Lovelace', email: 'ada@example.com' };
+
+  it('refuses every token with a 503 when the app ID and secret are not configured', async () => {
+    const http = providerApi({ '/me': profile });
+
+    await expect(new FacebookTokenVerifier(http).verify('token')).rejects.toMatchObject({
+      statusCode: 503,
+      code: 'PROVIDER_NOT_CONFIGURED',
+    });
+    expect(http.urls).toEqual([]);
+  });
+
+  it('refuses tokens issued to another app', async () => {
+    const http = providerApi({ '/debug_token': { data: { is_valid: true, app_id: 'other-app' } }, '/me': profile });
+
+    await expect(new FacebookTokenVerifier(http, 'our-app', 'secret').verify('token')).rejects.toMatchObject({
+      code: 'INVALID_PROVIDER_TOKEN',
+    });
+  });
+
+  it('resolves the profile of a token issued to our app', async () => {
+    const http = providerApi({ '/debug_token': { data: { is_valid: true, app_id: 'our-app' } }, '/me': profile });
+
+    const identity = await new FacebookTokenVerifier(http, 'our-app', 'secret').verify('token');
+    expect(identity).toMatchObject({ provider: 'facebook', providerUid: '42', email: 'ada@example.com' });
+  });
+});
+
+describe('GithubTokenVerifier', () => {
+  const user = { id: 7, login: 'ada', name: 'Ada Lovelace', email: 'ada@example.com' };
+  const emails = [{ email: 'ada@example.com', primary: true, verified: true }];
+  const checkPath = '/applications/our-app/token';
+
+  it('refuses every token with a 503 when the client ID and secret are not configured', async () => {
+    const http = providerApi({ '/user': user, '/user/emails': emails });
+
+    await expect(new GithubTokenVerifier(http).verify('token')).rejects.toMatchObject({
+      statusCode: 503,
+      code: 'PROVIDER_NOT_CONFIGURED',
+    });
+    expect(http.urls).toEqual([]);
+  });
+
+  it('refuses tokens issued to another app', async () => {
+    // GitHub answers 404 for tokens it does not know for this app
+    const http = providerApi({ '/user': user, '/user/emails': emails }, { [checkPath]: 404 });
+
+    await expect(new GithubTokenVerifier(http, 'our-app', 'secret').verify('token')).rejects.toMatchObject({
+      code: 'INVALID_PROVIDER_TOKEN',
+    });
+    expect(http.urls.map((url) => new URL(url).pathname)).toEqual([checkPath]);
+  });
+
+  it('refuses a check answered for another app', async () => {
+    const http = providerApi({ [checkPath]: { app: { client_id: 'other-app' } }, '/user': user, '/user/emails': emails });
+
+    await expect(new GithubTokenVerifier(http, 'our-app', 'secret').verify('token')).rejects.toMatchObject({
+      code: 'INVALID_PROVIDER_TOKEN',
+    });
+  });
+
+  it('resolves the profile of a token issued to our app, authenticating the check as the app', async () => {
+    const http = providerApi({ [checkPath]: { app: { client_id: 'our-app' } }, '/user': user, '/user/emails': emails });
+
+    const identity = await new GithubTokenVerifier(http, 'our-app', 'secret').verify('token');
+    expect(identity).toMatchObject({ provider: 'github', providerUid: '7', email: 'ada@example.com', emailVerified: true });
+    expect(http.headers[0].Authorization).toBe(`Basic ${Buffer.from('our-app:secret').toString('base64')}`);
+  });
+});
@@ -0,0 +1,51 @@
+import { setRepositoryFactory } from '../src/dao/baseDAO';
+import { memoryRepositories } from '../src/dao/memoryRepository';
+import { RepositoryRateLimitStore } from '../src/middleware/rateLimit';
+
+describe('RepositoryRateLimitStore', () => {
+  const windowMs = 60 * 1000;
+  let store: RepositoryRateLimitStore;
+
+  beforeEach(() => {
+    setRepositoryFactory(memoryRepositories());
+    store = new RepositoryRateLimitStore('login:');
+    store.init({ windowMs } as any);
+  });
+
+  it('counts every hit sent in parallel', async () => {
+    await Promise.all(Array.from({ length: 10 }, () => store.increment('203.0.113.7')));
+
+    expect((await store.get('203.0.113.7'))?.totalHits).toBe(10);
+  });
+
+  it('keeps clients apart, including IPv6 addresses', async () => {
+    await store.increment('2001:db8::1/64');
+    await store.increment('2001:db8::1/64');
+    await store.increment('203.0.113.7');
+
+    expect((await store.get('2001:db8::1/64'))?.totalHits).toBe(2);
+    expect((await store.get('203.0.113.7'))?.totalHits).toBe(1);
+  });
+
+  it('decrements and resets a client', async () => {
+    await store.increment('203.0.113.7');
+    await store.increment('203.0.113.7');
+    await store.decrement('203.0.113.7');
+    expect((await store.get('203.0.113.7'))?.totalHits).toBe(1);
+
+    await store.resetKey('203.0.113.7');
+    expect(await store.get('203.0.113.7')).toBeUndefined();
+  });
+
+  it('starts a new window once the previous one is over', async () => {
+    const now = Date.now();
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    await store.increment('203.0.113.7');
+
+    jest.spyOn(Date, 'now').mockImplementation(() => now + windowMs + 1);
+    const { totalHits } = await store.increment('203.0.113.7');
+    expect(totalHits).toBe(1);
+
+    jest.restoreAllMocks();
+  });
+});
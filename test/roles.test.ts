@@ -0,0 +1,91 @@
+import request from 'supertest';
+import { createTestApp, registerUser, login, bearer, TestContext } from './helpers';
+import { hasPermission, rolesFromClaims } from '../src/services/roles';
+
+describe('roles', () => {
+  it('reads the roles from the claims, every account being a user', () => {
+    expect(rolesFromClaims({})).toEqual(['user']);
+    expect(rolesFromClaims({ roles: ['moderator', 'superuser'] })).toEqual(['user', 'moderator']);
+  });
+
+  it('grants permissions through roles', () => {
+    expect(hasPermission({ uid: 'u', roles: ['user'] }, 'users:read')).toBe(false);
+    expect(hasPermission({ uid: 'u', roles: ['user', 'moderator'] }, 'meetings:delete')).toBe(true);
+    expect(hasPermission({ uid: 'u', roles: ['user', 'moderator'] }, 'users:update')).toBe(false);
+    expect(hasPermission({ uid: 'u', roles: ['user', 'admin'] }, 'users:manageRoles')).toBe(true);
+  });
+
+  describe('access control', () => {
+    let ctx: TestContext;
+    let ownerUid: string;
+    let ownerToken: string;
+    let meetingId: string;
+
+    /**
+     * Registers an account with roles, and signs in once the claims are set
+     */
+    async function signInAs(email: string, roles: string[] = []): Promise<string> {
+      const uid = await registerUser(ctx, email);
+      if (roles.length) await ctx.auth.setCustomUserClaims(uid, { roles });
+      return login(ctx, email);
+    }
+
+    beforeEach(async () => {
+      ctx = createTestApp();
+      ownerUid = await registerUser(ctx, 'owner@example.com');
+      ownerToken = await login(ctx, 'owner@example.com');
+      const { body } = await request(ctx.app).post('/api/meetings').set(bearer(ownerToken)).send({ title: 'Retro' }).expect(201);
+      meetingId = body.meeting.id;
+    });
+
+    it('keeps profiles and meetings of others out of reach of users', async () => {
+      const user = await signInAs('user@example.com');
+
+      await request(ctx.app).get(`/api/users/${ownerUid}`).set(bearer(user)).expect(403);
+      await request(ctx.app).put(`/api/users/${ownerUid}`).set(bearer(user)).send({ firstName: 'Eve' }).expect(403);
+      await request(ctx.app).put(`/api/meetings/${meetingId}`).set(bearer(user)).send({ title: 'Mine' }).expect(403);
+      await request(ctx.app).delete(`/api/meetings/${meetingId}`).set(bearer(user)).expect(403);
+      await request(ctx.app).get('/api/admin/users').set(bearer(user)).expect(403);
+    });
+
+    it('lets moderators read profiles and moderate meetings, but not manage users', async () => {
+      const moderator = await signInAs('moderator@example.com', ['moderator']);
+
+      await request(ctx.app).get(`/api/users/${ownerUid}`).set(bearer(moderator)).expect(200);
+      await request(ctx.app).put(`/api/users/${ownerUid}`).set(bearer(moderator)).send({ firstName: 'Eve' }).expect(403);
+      await request(ctx.app).put(`/api/meetings/${meetingId}`).set(bearer(moderator)).send({ title: 'Renamed' }).expect(200);
+      await request(ctx.app).get('/api/admin/users').set(bearer(moderator)).expect(403);
+      await request(ctx.app).delete(`/api/meetings/${meetingId}`).set(bearer(moderator)).expect(200);
+    });
+
+    it('lets admins manage users and grant roles, effective on the next sign-in', async () => {
+      const admin = await signInAs('admin@example.com', ['admin']);
+      const userUid = await registerUser(ctx, 'user@example.com');
+      const before = await login(ctx, 'user@example.com');
+
+      await request(ctx.app).put(`/api/users/${ownerUid}`).set(bearer(admin)).send({ firstName: 'Ada' }).expect(200);
+
+      const res = await request(ctx.app)
+        .put(`/api/admin/users/${userUid}/roles`)
+        .set(bearer(admin))
+        .send({ roles: ['moderator'] })
+        .expect(200);
+      expect(res.body.roles).toEqual(expect.arrayContaining(['moderator']));
+
+      await request(ctx.app).get(`/api/users/${ownerUid}`).set(bearer(before)).expect(403);
+      const after = await login(ctx, 'user@example.com');
+      await request(ctx.app).get(`/api/users/${ownerUid}`).set(bearer(after)).expect(200);
+    });
+
+    it('validates the roles granted', async () => {
+      const admin = await signInAs('admin@example.com', ['admin']);
+
+      const res = await request(ctx.app)
+        .put(`/api/admin/users/${ownerUid}/roles`)
+        .set(bearer(admin))
+        .send({ roles: ['root'] })
+        .expect(400);
+      expect(res.body.code).toBe('VALIDATION_ERROR');
+    });
+  });
+});
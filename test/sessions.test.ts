@@ -0,0 +1,73 @@
+import request from 'supertest';
+import { createTestApp, registerUser, idTokenFrom, bearer, TestContext, PASSWORD } from './helpers';
+
+const EMAIL = 'ada@example.com';
+
+describe('sessions', () => {
+  let ctx: TestContext;
+  let uid: string;
+  let laptop: string;
+  let phone: string;
+
+  async function signIn(userAgent: string): Promise<string> {
+    const res = await request(ctx.app)
+      .post('/api/auth/login')
+      .set('User-Agent', userAgent)
+      .send({ email: EMAIL, password: PASSWORD })
+      .expect(200);
+    return idTokenFrom(ctx, res.body.token);
+  }
+
+  function sessionsOf(idToken: string) {
+    return request(ctx.app).get(`/api/users/${uid}/sessions`).set(bearer(idToken));
+  }
+
+  beforeEach(async () => {
+    ctx = createTestApp();
+    uid = await registerUser(ctx, EMAIL);
+    laptop = await signIn('Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) Firefox/130.0');
+    phone = await signIn('Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) Mobile/15E148 Safari/604.1');
+  });
+
+  it('lists the sessions of the user, marking the current one', async () => {
+    const { body } = await sessionsOf(laptop).expect(200);
+
+    expect(body.sessions).toHaveLength(2);
+    expect(body.sessions.filter((session: any) => session.current)).toHaveLength(1);
+    expect(body.sessions.every((session: any) => session.provider === 'manual' && session.revokedAt === null)).toBe(true);
+  });
+
+  it('revokes one session, signing that device out only', async () => {
+    const { body } = await sessionsOf(laptop).expect(200);
+    const other = body.sessions.find((session: any) => !session.current);
+
+    await request(ctx.app).delete(`/api/users/${uid}/sessions/${other.id}`).set(bearer(laptop)).expect(200);
+
+    await sessionsOf(phone).expect(401);
+    await sessionsOf(laptop).expect(200);
+  });
+
+  it('signs out everywhere', async () => {
+    await request(ctx.app).delete(`/api/users/${uid}/sessions`).set(bearer(phone)).expect(200);
+
+    await sessionsOf(laptop).expect(401);
+    await sessionsOf(phone).expect(401);
+  });
+
+  it('answers 404 for unknown sessions', async () => {
+    const res = await request(ctx.app).delete(`/api/users/${uid}/sessions/unknown`).set(bearer(laptop)).expect(404);
+    expect(res.body.code).toBe('SESSION_NOT_FOUND');
+  });
+
+  it('keeps the sessions of other users private', async () => {
+    await registerUser(ctx, 'mallory@example.com');
+    const res = await request(ctx.app)
+      .post('/api/auth/login')
+      .send({ email: 'mallory@example.com', password: PASSWORD })
+      .expect(200);
+    const malloryToken = idTokenFrom(ctx, res.body.token);
+
+    await sessionsOf(malloryToken).expect(403);
+    await request(ctx.app).delete(`/api/users/${uid}/sessions`).set(bearer(malloryToken)).expect(403);
+  });
+});
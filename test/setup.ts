@@ -0,0 +1,5 @@
+/**
+ * Environment of every test file, set before the configuration is first read
+ */
+process.env.LOG_LEVEL = 'silent';
+process.env.RATE_LIMIT_DISABLED = 'true';
@@ -0,0 +1,71 @@
+import request from 'supertest';
+import { createTestApp, bearer, idTokenFrom, TestContext } from './helpers';
+import { userDAO } from '../src/dao/userDAO';
+import { getSignInProvider, listSignInProviders, registerSignInProvider } from '../src/providers';
+import { FixtureVerifier, VerifiedIdentity } from '../src/services/providerVerifiers';
+
+function identity(provider: string, claims: Record<string, any>): VerifiedIdentity {
+  return { provider, providerUid: `${provider}-1`, email: 'ada@example.com', emailVerified: true, claims };
+}
+
+describe('sign-in providers', () => {
+  it('registers Google, GitHub and Facebook', () => {
+    expect(listSignInProviders()).toEqual(expect.arrayContaining(['google', 'github', 'facebook']));
+  });
+
+  it.each([
+    ['google', { name: 'Ada María Lovelace King', picture: 'https://pic/g' }, 'Ada María', 'Lovelace King', 'https://pic/g'],
+    ['github', { login: 'ada', avatar_url: 'https://pic/gh' }, 'ada', '', 'https://pic/gh'],
+    [
+      'facebook',
+      { name: 'Ada Lovelace', first_name: 'Augusta', last_name: 'King', picture: { data: { url: 'https://pic/fb' } } },
+      'Augusta',
+      'King',
+      'https://pic/fb',
+    ],
+  ])('normalizes %s profiles', (id, claims, firstName, lastName, photoURL) => {
+    const profile = getSignInProvider(id)!.normalize(identity(id, claims));
+
+    expect(profile).toMatchObject({ providerUid: `${id}-1`, email: 'ada@example.com', firstName, lastName, photoURL });
+  });
+
+  describe('POST /api/oauth/:provider', () => {
+    let ctx: TestContext;
+
+    beforeEach(() => {
+      ctx = createTestApp();
+    });
+
+    it('answers 404 for unknown providers', async () => {
+      const res = await request(ctx.app).post('/api/oauth/myspace').send({ token: 'token' }).expect(404);
+      expect(res.body.code).toBe('UNSUPPORTED_PROVIDER');
+    });
+
+    it('signs in through any registered provider, creating the account', async () => {
+      registerSignInProvider({
+        id: 'gitlab',
+        label: 'GitLab',
+        verify: (token) => new FixtureVerifier({ valid: identity('gitlab', { name: 'Ada Lovelace' }) }).verify(token),
+        normalize: (verified) => ({
+          providerUid: verified.providerUid,
+          email: verified.email,
+          emailVerified: verified.emailVerified,
+          firstName: 'Ada',
+          lastName: 'Lovelace',
+          displayName: verified.claims.name,
+          photoURL: null,
+        }),
+      });
+
+      const res = await request(ctx.app).post('/api/oauth/gitlab').send({ token: 'valid' }).expect(200);
+      const { uid } = res.body.user;
+
+      expect(res.body.user).toMatchObject({ firstName: 'Ada', lastName: 'Lovelace', providers: ['gitlab'] });
+      expect((await userDAO.getOne(uid))?.providerIds).toEqual({ gitlab: 'gitlab-1' });
+      await request(ctx.app).get(`/api/users/${uid}`).set(bearer(idTokenFrom(ctx, res.body.token))).expect(200);
+
+      const refused = await request(ctx.app).post('/api/oauth/gitlab').send({ token: 'forged' }).expect(401);
+      expect(refused.body.code).toBe('INVALID_PROVIDER_TOKEN');
+    });
+  });
+});
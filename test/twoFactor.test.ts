@@ -0,0 +1,131 @@
+import request from 'supertest';
+import { createTestApp, registerUser, login, bearer, idTokenFrom, totpCode, TestContext, PASSWORD } from './helpers';
+import { FixtureVerifier, setProviderVerifier } from '../src/services/providerVerifiers';
+
+const EMAIL = 'ada@example.com';
+
+/**
+ * Enrolls the user, confirming with the previous code so the current one is still unused
+ */
+async function enroll({ app }: TestContext, idToken: string) {
+  const { body } = await request(app).post('/api/auth/2fa/enroll').set(bearer(idToken)).expect(200);
+  const confirmed = await request(app)
+    .post('/api/auth/2fa/confirm')
+    .set(bearer(idToken))
+    .send({ code: totpCode(body.secret, -1) })
+    .expect(200);
+
+  return { secret: body.secret as string, recoveryCodes: confirmed.body.recoveryCodes as string[] };
+}
+
+async function startLogin({ app }: TestContext): Promise<string> {
+  const res = await request(app).post('/api/auth/login').send({ email: EMAIL, password: PASSWORD }).expect(200);
+  expect(res.body.twoFactorRequired).toBe(true);
+  expect(res.body.token).toBeUndefined();
+  return res.body.challengeId;
+}
+
+describe('two-factor authentication', () => {
+  let ctx: TestContext;
+  let uid: string;
+  let secret: string;
+  let recoveryCodes: string[];
+
+  beforeEach(async () => {
+    ctx = createTestApp();
+    uid = await registerUser(ctx, EMAIL);
+    ({ secret, recoveryCodes } = await enroll(ctx, await login(ctx, EMAIL)));
+  });
+
+  it('completes a login challenge with a TOTP code, once', async () => {
+    const challengeId = await startLogin(ctx);
+    const code = totpCode(secret);
+
+    const res = await request(ctx.app).post('/api/auth/2fa/verify').send({ challengeId, code }).expect(200);
+    const idToken = idTokenFrom(ctx, res.body.token);
+    await request(ctx.app).get(`/api/users/${uid}`).set(bearer(idToken)).expect(200);
+
+    // The same code cannot be replayed on another challenge
+    const replay = await request(ctx.app)
+      .post('/api/auth/2fa/verify')
+      .send({ challengeId: await startLogin(ctx), code })
+      .expect(401);
+    expect(replay.body.code).toBe('INVALID_TWO_FACTOR_CODE');
+  });
+
+  it('accepts each recovery code once', async () => {
+    const [recoveryCode] = recoveryCodes;
+
+    await request(ctx.app)
+      .post('/api/auth/2fa/verify')
+      .send({ challengeId: await startLogin(ctx), code: recoveryCode })
+      .expect(200);
+
+    const reused = await request(ctx.app)
+      .post('/api/auth/2fa/verify')
+      .send({ challengeId: await startLogin(ctx), code: recoveryCode })
+      .expect(401);
+    expect(reused.body.code).toBe('INVALID_TWO_FACTOR_CODE');
+  });
+
+  it('expires a challenge after too many wrong codes', async () => {
+    const challengeId = await startLogin(ctx);
+
+    for (let attempt = 0; attempt < 5; attempt++) {
+      await request(ctx.app).post('/api/auth/2fa/verify').send({ challengeId, code: '000000' }).expect(401);
+    }
+
+    const res = await request(ctx.app)
+      .post('/api/auth/2fa/verify')
+      .send({ challengeId, code: totpCode(secret) })
+      .expect(401);
+    expect(res.body.code).toBe('TWO_FACTOR_CHALLENGE_EXPIRED');
+  });
+
+  it('refuses ID tokens that did not go through the second factor', async () => {
+    // What a password sign-in straight against Identity Toolkit returns: no `sid`, no `mfa`
+    const passwordOnly = ctx.auth.issueIdToken(uid);
+
+    const res = await request(ctx.app).get(`/api/users/${uid}`).set(bearer(passwordOnly)).expect(401);
+    expect(res.body.code).toBe('TWO_FACTOR_REQUIRED');
+
+    // A session without the second factor is refused too
+    const withSession = ctx.auth.issueIdToken(uid, { sid: 'session-id' });
+    await request(ctx.app).get(`/api/users/${uid}`).set(bearer(withSession)).expect(401);
+  });
+
+  it('refuses to turn such a token into a session cookie', async () => {
+    const agent = request.agent(ctx.app);
+    const { body } = await agent.get('/api/auth/csrf').expect(200);
+
+    const res = await agent
+      .post('/api/auth/session')
+      .set('X-CSRF-Token', body.csrfToken)
+      .send({ idToken: ctx.auth.issueIdToken(uid) })
+      .expect(401);
+    expect(res.body.code).toBe('TWO_FACTOR_REQUIRED');
+  });
+
+  it('answers OAuth sign-ins with a challenge', async () => {
+    await ctx.auth.updateUser(uid, { emailVerified: true });
+    setProviderVerifier('github', new FixtureVerifier({
+      'github-token': {
+        provider: 'github',
+        providerUid: 'gh-1',
+        email: EMAIL,
+        emailVerified: true,
+        claims: { login: 'ada' },
+      },
+    }));
+
+    const res = await request(ctx.app).post('/api/oauth/github').send({ token: 'github-token' }).expect(200);
+    expect(res.body.twoFactorRequired).toBe(true);
+    expect(res.body.token).toBeUndefined();
+
+    const verified = await request(ctx.app)
+      .post('/api/auth/2fa/verify')
+      .send({ challengeId: res.body.challengeId, code: totpCode(secret) })
+      .expect(200);
+    await request(ctx.app).get(`/api/users/${uid}`).set(bearer(idTokenFrom(ctx, verified.body.token))).expect(200);
+  });
+});
@@ -0,0 +1,45 @@
+import request from 'supertest';
+import { createTestApp, registerUser, login, bearer, TestContext } from './helpers';
+import { userDAO } from '../src/dao/userDAO';
+
+describe('user profile updates', () => {
+  let ctx: TestContext;
+  let uid: string;
+  let idToken: string;
+
+  beforeEach(async () => {
+    ctx = createTestApp();
+    uid = await registerUser(ctx, 'ada@example.com');
+    await ctx.auth.updateUser(uid, { emailVerified: true });
+    idToken = await login(ctx, 'ada@example.com');
+  });
+
+  it('changes the email in Auth and the profile, and asks for a new verification', async () => {
+    await request(ctx.app).put(`/api/users/${uid}`).set(bearer(idToken)).send({ email: 'lovelace@example.com' }).expect(200);
+
+    expect(await ctx.auth.getUser(uid)).toMatchObject({ email: 'lovelace@example.com', emailVerified: false });
+    expect(await userDAO.getOne(uid)).toMatchObject({ email: 'lovelace@example.com', emailVerified: false });
+  });
+
+  it('leaves the profile untouched when Auth refuses the email', async () => {
+    await registerUser(ctx, 'taken@example.com');
+
+    const res = await request(ctx.app).put(`/api/users/${uid}`).set(bearer(idToken)).send({ email: 'taken@example.com' }).expect(409);
+
+    expect(res.body.code).toBe('EMAIL_IN_USE');
+    expect((await userDAO.getOne(uid))?.email).toBe('ada@example.com');
+  });
+
+  it('restores the Auth email when the profile write fails', async () => {
+    const res = await request(ctx.app)
+      .put(`/api/users/${uid}`)
+      .set(bearer(idToken))
+      .set('If-Match', '"stale"')
+      .send({ email: 'lovelace@example.com' })
+      .expect(412);
+
+    expect(res.body.code).toBe('USER_MODIFIED');
+    expect(await ctx.auth.getUser(uid)).toMatchObject({ email: 'ada@example.com', emailVerified: true });
+    expect((await userDAO.getOne(uid))?.email).toBe('ada@example.com');
+  });
+});